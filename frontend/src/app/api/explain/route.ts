@@ -0,0 +1,5 @@
+import { getExplanationProvider, handleExplainRequest } from "../../../lib/explain-providers";
+
+export async function POST(request: Request) {
+  return handleExplainRequest(request, getExplanationProvider());
+}
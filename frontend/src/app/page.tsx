@@ -1,24 +1,148 @@
 "use client";
 
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from "react";
 import { Chess, Square } from "chess.js";
 import { EvalBar } from "../components/EvalBar";
 import { CoachModal } from "../components/CoachModal";
+import { ChessBoard, type BoardArrow } from "../components/ChessBoard";
+import { GhostLinePanel } from "../components/GhostLinePanel";
+import { CoachToast, COACH_TOAST_MS } from "../components/CoachToast";
 import { fetchAnalysis, type AnalysisResult } from "../lib/chess-api";
 import {
   type InterventionState,
+  type MistakeSeverity,
   createInitialInterventionState,
-  isBlunder,
-  calculateWinProbDrop,
-  BLUNDER_THRESHOLD,
+  classifyMove,
+  getContextualBands,
+  getInterventionAction,
 } from "../lib/intervention";
-
-const COLUMNS = ["a", "b", "c", "d", "e", "f", "g", "h"];
-const ROWS = ["8", "7", "6", "5", "4", "3", "2", "1"];
-const INITIAL_TIME = 600; // 10 minutes in seconds
+import { buildNarratorPayload, streamExplanation } from "../lib/explain";
+import { buildGhostLine, type GhostMove, GHOST_STEP_MS } from "../lib/ghost-line";
+import { detectMotifs, type Motif } from "../lib/motifs";
+import { analyzeCandidates, type CandidateMove } from "../lib/candidates";
+import { type PromotionPiece, cloneGame, isPromotionMove } from "../lib/chess-utils";
+import {
+  type GameTree,
+  addMove,
+  annotateNode,
+  createGameTree,
+  getGameAt,
+  getMainline,
+  getMainlineChild,
+  rejectCurrentMove,
+} from "../lib/game-tree";
+import { MoveList } from "../components/MoveList";
+import { type ImportedGame, formatPgnDate, importPgn } from "../lib/pgn";
+import { PgnImportPanel } from "../components/PgnImportPanel";
+import { ReplayPanel } from "../components/ReplayPanel";
+import { AnalysisReport } from "../components/AnalysisReport";
+import { GameReview } from "../components/GameReview";
+import { CriticalMoments } from "../components/CriticalMoments";
+import { type CriticalMoment, type ExerciseResult, scoreExerciseMove } from "../lib/critical-moments";
+import { GameLibrary } from "../components/GameLibrary";
+import { RatingPanel } from "../components/RatingPanel";
+import { PuzzleDeckTransfer } from "../components/PuzzleDeckTransfer";
+import { PuzzlePanel } from "../components/PuzzlePanel";
+import {
+  type Puzzle,
+  type PuzzleResult,
+  PUZZLE_STORAGE_KEY,
+  addPuzzle,
+  getDuePuzzles,
+  getReviewGrade,
+  gradePuzzleMove,
+  loadPuzzles,
+  parsePuzzleDeck,
+  puzzleFromIntervention,
+  recordPuzzleReview,
+  removePuzzle,
+  savePuzzles,
+} from "../lib/puzzles";
+import {
+  type SavedGame,
+  SAVED_GAME_STORAGE_KEY,
+  SAVED_GAME_VERSION,
+  clearSavedGame,
+  parseSavedGame,
+  saveGame,
+} from "../lib/saved-game";
+import {
+  type LibraryGame,
+  LIBRARY_STORAGE_KEY,
+  addLibraryGame,
+  createLibraryGame,
+  exportGamePgn,
+  exportLibraryPgn,
+  getLibraryOutcome,
+  loadLibrary,
+  parseLibrary,
+  removeLibraryGame,
+  saveLibrary,
+} from "../lib/game-library";
+import {
+  OUTCOME_SCORES,
+  RATING_SETTINGS_STORAGE_KEY,
+  RATING_STORAGE_KEY,
+  countRetries,
+  loadPlayerRating,
+  loadRatingSettings,
+  parsePlayerRating,
+  parseRatingSettings,
+  recordRatedGame,
+  savePlayerRating,
+  suggestOpponentElo,
+} from "../lib/rating";
+import {
+  DEFAULT_TARGET_SCORE,
+  TARGET_SCORE_OPTIONS,
+  getAdaptiveStartElo,
+  getInGameElo,
+} from "../lib/adaptive-elo";
+import {
+  type TimeControl,
+  DEFAULT_TIME_CONTROL,
+  TIME_CONTROL_CATEGORY_LABELS,
+  UNTIMED,
+  formatTimeControl,
+  getThinkTime,
+  getTimeControlCategory,
+} from "../lib/time-control";
+import {
+  type ChessClock,
+  CLOCK_TICK_MS,
+  chargeClock,
+  createClock,
+  formatClock,
+  getClockTimes,
+  getFlaggedSide,
+  getRemaining,
+  isClockRunning,
+  pressClock,
+  startClock,
+  stopClock,
+  takeBackMove,
+} from "../lib/chess-clock";
+import {
+  type GameResult,
+  ABORTED_GAME,
+  ABORT_PLIES,
+  DRAW_BY_AGREEMENT,
+  describeGameResult,
+  getBoardResult,
+  getResignationResult,
+  getTimeoutResult,
+  hasMatingMaterial,
+} from "../lib/game-result";
+import { shouldAcceptDraw } from "../lib/draw-offer";
+import { simulateThink } from "../lib/ai-think";
+import { GameActions, type DrawOffer } from "../components/GameActions";
+import { TimeControlPicker } from "../components/TimeControlPicker";
+import { getStoredItem, subscribeStorage } from "../lib/storage";
+import type { BatchReport } from "../lib/batch-analysis";
+import { downloadTextFile } from "../lib/download";
 
 // Game modes
-type GameMode = "pass-and-play" | "coach";
+type GameMode = "pass-and-play" | "coach" | "puzzle";
 
 // ELO options for AI strength
 const ELO_OPTIONS = [
@@ -33,147 +157,8 @@ const ELO_OPTIONS = [
   { elo: 2000, label: "2000" },
 ];
 
-// Format seconds to MM:SS
-const formatTime = (seconds: number): string => {
-  const mins = Math.floor(seconds / 60);
-  const secs = seconds % 60;
-  return `${mins}:${secs.toString().padStart(2, "0")}`;
-};
-
-// SVG Chess Pieces
-const pieces: Record<string, React.ReactNode> = {
-  wK: (
-    <svg viewBox="0 0 45 45" className="w-14 h-14">
-      <g fill="none" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
-        <path strokeLinejoin="miter" d="M22.5 11.63V6M20 8h5"/>
-        <path fill="#fff" strokeLinecap="butt" strokeLinejoin="miter" d="M22.5 25s4.5-7.5 3-10.5c0 0-1-2.5-3-2.5s-3 2.5-3 2.5c-1.5 3 3 10.5 3 10.5"/>
-        <path fill="#fff" d="M12.5 37c5.5 3.5 14.5 3.5 20 0v-7s9-4.5 6-10.5c-4-6.5-13.5-3.5-16 4V27v-3.5c-2.5-7.5-12-10.5-16-4-3 6 6 10.5 6 10.5v7"/>
-        <path d="M12.5 30c5.5-3 14.5-3 20 0M12.5 33.5c5.5-3 14.5-3 20 0M12.5 37c5.5-3 14.5-3 20 0"/>
-      </g>
-    </svg>
-  ),
-  wQ: (
-    <svg viewBox="0 0 45 45" className="w-14 h-14">
-      <g fill="#fff" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
-        <path d="M9 26c8.5-1.5 21-1.5 27 0l2.5-12.5L31 25l-.3-14.1-5.2 13.6-3-14.5-3 14.5-5.2-13.6L14 25 6.5 13.5 9 26z"/>
-        <path d="M9 26c0 2 1.5 2 2.5 4 1 1.5 1 1 .5 3.5-1.5 1-1 2.5-1 2.5-1.5 1.5 0 2.5 0 2.5 6.5 1 16.5 1 23 0 0 0 1.5-1 0-2.5 0 0 .5-1.5-1-2.5-.5-2.5-.5-2 .5-3.5 1-2 2.5-2 2.5-4-8.5-1.5-18.5-1.5-27 0z"/>
-        <path fill="none" d="M11.5 30c3.5-1 18.5-1 22 0M12 33.5c6-1 15-1 21 0"/>
-        <circle cx="6" cy="12" r="2"/>
-        <circle cx="14" cy="9" r="2"/>
-        <circle cx="22.5" cy="8" r="2"/>
-        <circle cx="31" cy="9" r="2"/>
-        <circle cx="39" cy="12" r="2"/>
-      </g>
-    </svg>
-  ),
-  wR: (
-    <svg viewBox="0 0 45 45" className="w-14 h-14">
-      <g fill="#fff" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
-        <path strokeLinecap="butt" d="M9 39h27v-3H9v3zM12 36v-4h21v4H12zM11 14V9h4v2h5V9h5v2h5V9h4v5"/>
-        <path d="M34 14l-3 3H14l-3-3"/>
-        <path strokeLinecap="butt" strokeLinejoin="miter" d="M31 17v12.5H14V17"/>
-        <path d="M31 29.5l1.5 2.5h-20l1.5-2.5"/>
-        <path fill="none" strokeLinejoin="miter" d="M11 14h23"/>
-      </g>
-    </svg>
-  ),
-  wB: (
-    <svg viewBox="0 0 45 45" className="w-14 h-14">
-      <g fill="none" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
-        <g fill="#fff" strokeLinecap="butt">
-          <path d="M9 36c3.39-.97 10.11.43 13.5-2 3.39 2.43 10.11 1.03 13.5 2 0 0 1.65.54 3 2-.68.97-1.65.99-3 .5-3.39-.97-10.11.46-13.5-1-3.39 1.46-10.11.03-13.5 1-1.35.49-2.32.47-3-.5 1.35-1.46 3-2 3-2z"/>
-          <path d="M15 32c2.5 2.5 12.5 2.5 15 0 .5-1.5 0-2 0-2 0-2.5-2.5-4-2.5-4 5.5-1.5 6-11.5-5-15.5-11 4-10.5 14-5 15.5 0 0-2.5 1.5-2.5 4 0 0-.5.5 0 2z"/>
-          <path d="M25 8a2.5 2.5 0 1 1-5 0 2.5 2.5 0 1 1 5 0z"/>
-        </g>
-        <path strokeLinejoin="miter" d="M17.5 26h10M15 30h15m-7.5-14.5v5M20 18h5"/>
-      </g>
-    </svg>
-  ),
-  wN: (
-    <svg viewBox="0 0 45 45" className="w-14 h-14">
-      <g fill="none" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
-        <path fill="#fff" d="M22 10c10.5 1 16.5 8 16 29H15c0-9 10-6.5 8-21"/>
-        <path fill="#fff" d="M24 18c.38 2.91-5.55 7.37-8 9-3 2-2.82 4.34-5 4-1.042-.94 1.41-3.04 0-3-1 0 .19 1.23-1 2-1 0-4.003 1-4-4 0-2 6-12 6-12s1.89-1.9 2-3.5c-.73-.994-.5-2-.5-3 1-1 3 2.5 3 2.5h2s.78-1.992 2.5-3c1 0 1 3 1 3"/>
-        <path fill="#000" d="M9.5 25.5a.5.5 0 1 1-1 0 .5.5 0 1 1 1 0zM14.933 15.75a.5 1.5 30 1 1-.866-.5.5 1.5 30 1 1 .866.5z"/>
-      </g>
-    </svg>
-  ),
-  wP: (
-    <svg viewBox="0 0 45 45" className="w-14 h-14">
-      <path fill="#fff" stroke="#000" strokeLinecap="round" strokeWidth="1.5" d="M22.5 9c-2.21 0-4 1.79-4 4 0 .89.29 1.71.78 2.38C17.33 16.5 16 18.59 16 21c0 2.03.94 3.84 2.41 5.03-3 1.06-7.41 5.55-7.41 13.47h23c0-7.92-4.41-12.41-7.41-13.47 1.47-1.19 2.41-3 2.41-5.03 0-2.41-1.33-4.5-3.28-5.62.49-.67.78-1.49.78-2.38 0-2.21-1.79-4-4-4z"/>
-    </svg>
-  ),
-  bK: (
-    <svg viewBox="0 0 45 45" className="w-14 h-14">
-      <g fill="none" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
-        <path strokeLinejoin="miter" d="M22.5 11.63V6"/>
-        <path fill="#000" strokeLinejoin="miter" d="M22.5 25s4.5-7.5 3-10.5c0 0-1-2.5-3-2.5s-3 2.5-3 2.5c-1.5 3 3 10.5 3 10.5"/>
-        <path fill="#000" d="M12.5 37c5.5 3.5 14.5 3.5 20 0v-7s9-4.5 6-10.5c-4-6.5-13.5-3.5-16 4V27v-3.5c-2.5-7.5-12-10.5-16-4-3 6 6 10.5 6 10.5v7"/>
-        <path strokeLinejoin="miter" d="M20 8h5"/>
-        <path stroke="#fff" d="M12.5 30c5.5-3 14.5-3 20 0m-20 3.5c5.5-3 14.5-3 20 0m-20 3.5c5.5-3 14.5-3 20 0"/>
-      </g>
-    </svg>
-  ),
-  bQ: (
-    <svg viewBox="0 0 45 45" className="w-14 h-14">
-      <g fill="#000" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
-        <g stroke="none">
-          <circle cx="6" cy="12" r="2.75"/>
-          <circle cx="14" cy="9" r="2.75"/>
-          <circle cx="22.5" cy="8" r="2.75"/>
-          <circle cx="31" cy="9" r="2.75"/>
-          <circle cx="39" cy="12" r="2.75"/>
-        </g>
-        <path strokeLinecap="butt" d="M9 26c8.5-1.5 21-1.5 27 0l2.5-12.5L31 25l-.3-14.1-5.2 13.6-3-14.5-3 14.5-5.2-13.6L14 25 6.5 13.5 9 26z"/>
-        <path strokeLinecap="butt" d="M9 26c0 2 1.5 2 2.5 4 1 1.5 1 1 .5 3.5-1.5 1-1 2.5-1 2.5-1.5 1.5 0 2.5 0 2.5 6.5 1 16.5 1 23 0 0 0 1.5-1 0-2.5 0 0 .5-1.5-1-2.5-.5-2.5-.5-2 .5-3.5 1-2 2.5-2 2.5-4-8.5-1.5-18.5-1.5-27 0z"/>
-        <path fill="none" stroke="#fff" d="M11.5 30c3.5-1 18.5-1 22 0M12 33.5c6-1 15-1 21 0"/>
-      </g>
-    </svg>
-  ),
-  bR: (
-    <svg viewBox="0 0 45 45" className="w-14 h-14">
-      <g fill="#000" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
-        <path strokeLinecap="butt" d="M9 39h27v-3H9v3zM12.5 32l1.5-2.5h17l1.5 2.5h-20zM12 36v-4h21v4H12z"/>
-        <path strokeLinecap="butt" strokeLinejoin="miter" d="M14 29.5v-13h17v13H14z"/>
-        <path strokeLinecap="butt" d="M14 16.5L11 14h23l-3 2.5H14zM11 14V9h4v2h5V9h5v2h5V9h4v5H11z"/>
-        <path fill="none" stroke="#fff" strokeLinejoin="miter" strokeWidth="1" d="M12 35.5h21M13 31.5h19M14 29.5h17M14 16.5h17M11 14h23"/>
-      </g>
-    </svg>
-  ),
-  bB: (
-    <svg viewBox="0 0 45 45" className="w-14 h-14">
-      <g fill="none" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
-        <g fill="#000" strokeLinecap="butt">
-          <path d="M9 36c3.39-.97 10.11.43 13.5-2 3.39 2.43 10.11 1.03 13.5 2 0 0 1.65.54 3 2-.68.97-1.65.99-3 .5-3.39-.97-10.11.46-13.5-1-3.39 1.46-10.11.03-13.5 1-1.35.49-2.32.47-3-.5 1.35-1.46 3-2 3-2z"/>
-          <path d="M15 32c2.5 2.5 12.5 2.5 15 0 .5-1.5 0-2 0-2 0-2.5-2.5-4-2.5-4 5.5-1.5 6-11.5-5-15.5-11 4-10.5 14-5 15.5 0 0-2.5 1.5-2.5 4 0 0-.5.5 0 2z"/>
-          <path d="M25 8a2.5 2.5 0 1 1-5 0 2.5 2.5 0 1 1 5 0z"/>
-        </g>
-        <path stroke="#fff" strokeLinejoin="miter" d="M17.5 26h10M15 30h15m-7.5-14.5v5M20 18h5"/>
-      </g>
-    </svg>
-  ),
-  bN: (
-    <svg viewBox="0 0 45 45" className="w-14 h-14">
-      <g fill="none" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
-        <path fill="#000" d="M22 10c10.5 1 16.5 8 16 29H15c0-9 10-6.5 8-21"/>
-        <path fill="#000" d="M24 18c.38 2.91-5.55 7.37-8 9-3 2-2.82 4.34-5 4-1.042-.94 1.41-3.04 0-3-1 0 .19 1.23-1 2-1 0-4.003 1-4-4 0-2 6-12 6-12s1.89-1.9 2-3.5c-.73-.994-.5-2-.5-3 1-1 3 2.5 3 2.5h2s.78-1.992 2.5-3c1 0 1 3 1 3"/>
-        <path fill="#fff" d="M9.5 25.5a.5.5 0 1 1-1 0 .5.5 0 1 1 1 0z"/>
-        <path fill="#fff" stroke="#fff" d="M14.933 15.75a.5 1.5 30 1 1-.866-.5.5 1.5 30 1 1 .866.5z"/>
-        <path fill="none" stroke="#fff" strokeLinejoin="miter" d="M24.55 10.4l-.45 1.45.5.15c3.15 1 5.65 2.49 7.9 6.75S35.75 29.06 35.25 39l-.05.5h2.25l.05-.5c.5-10.06-.88-16.85-3.25-21.34-2.37-4.49-5.79-6.64-9.19-7.16l-.51-.1z"/>
-      </g>
-    </svg>
-  ),
-  bP: (
-    <svg viewBox="0 0 45 45" className="w-14 h-14">
-      <path fill="#000" stroke="#000" strokeLinecap="round" strokeWidth="1.5" d="M22.5 9c-2.21 0-4 1.79-4 4 0 .89.29 1.71.78 2.38C17.33 16.5 16 18.59 16 21c0 2.03.94 3.84 2.41 5.03-3 1.06-7.41 5.55-7.41 13.47h23c0-7.92-4.41-12.41-7.41-13.47 1.47-1.19 2.41-3 2.41-5.03 0-2.41-1.33-4.5-3.28-5.62.49-.67.78-1.49.78-2.38 0-2.21-1.79-4-4-4z"/>
-    </svg>
-  ),
-};
-
-const getPiece = (color: string, type: string) => {
-  const key = `${color}${type.toUpperCase()}`;
-  return pieces[key] || null;
-};
+// Range an adaptive Maia moves within
+const ELO_RANGE = { min: ELO_OPTIONS[0].elo, max: ELO_OPTIONS[ELO_OPTIONS.length - 1].elo };
 
 
 // Piece values for material calculation
@@ -260,8 +245,8 @@ function PlayerClock({
   materialAdvantage: number;
   isThinking?: boolean;
 }) {
-  const isLow = time <= 30;
-  const isCritical = time <= 10;
+  const isLow = time <= 30_000;
+  const isCritical = time <= 10_000;
   // Show advantage for this player (positive means this player is ahead)
   const playerAdvantage = isWhite ? materialAdvantage : -materialAdvantage;
   
@@ -280,7 +265,7 @@ function PlayerClock({
         ${isLow && !isCritical && isActive ? "!text-amber-500" : ""}
       `}>
         <div className={`w-4 h-4 rounded-full ${isWhite ? "bg-white border-2 border-slate-400" : "bg-slate-900 border-2 border-slate-600"}`} />
-        <span>{formatTime(time)}</span>
+        <span>{formatClock(time)}</span>
       </div>
       
       {/* Material advantage */}
@@ -306,12 +291,35 @@ function PlayerClock({
 
 export default function Home() {
   const [game, setGame] = useState(() => new Chess());
+  // Every move played, including retried ones (kept for review and export)
+  const [gameTree, setGameTree] = useState<GameTree>(createGameTree);
+  const [viewId, setViewId] = useState<number | null>(null); // move shown from the list; null = live
+  const [timeControl, setTimeControl] = useState<TimeControl>(DEFAULT_TIME_CONTROL);
+  const gameClock = useRef<ChessClock>(createClock(DEFAULT_TIME_CONTROL)); // both clocks, timed from performance.now()
+  const [gameDate, setGameDate] = useState(() => new Date()); // when the game started, for PGN export
+  const [replay, setReplay] = useState<{ games: ImportedGame[]; index: number } | null>(null); // imported PGN being replayed
+  const [exercise, setExercise] = useState<{ moment: CriticalMoment; result: ExerciseResult | null } | null>(null); // "find the best move" on the board
+  
+  // Puzzle mode — positions from the user's own mistakes, kept in localStorage.
+  // Stored values are parsed only when they change, not on every clock tick
+  const puzzleDeckJson = useSyncExternalStore(subscribeStorage, () => getStoredItem(PUZZLE_STORAGE_KEY), () => null);
+  const puzzleDeck = useMemo(() => parsePuzzleDeck(puzzleDeckJson), [puzzleDeckJson]);
+  const duePuzzles = getDuePuzzles(puzzleDeck);
+  const [puzzleSession, setPuzzleSession] = useState<{
+    queue: Puzzle[];
+    index: number;
+    result: PuzzleResult | null;
+    showSolution: boolean;
+    reviewed: boolean; // the first answer has been graded for the review schedule
+  } | null>(null);
   const [selectedSquare, setSelectedSquare] = useState<Square | null>(null);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Square; to: Square; color: "w" | "b" } | null>(null);
   const [validMoves, setValidMoves] = useState<Square[]>([]);
-  const [whiteTime, setWhiteTime] = useState(INITIAL_TIME);
-  const [blackTime, setBlackTime] = useState(INITIAL_TIME);
+  const [clockTimes, setClockTimes] = useState({ w: DEFAULT_TIME_CONTROL.initial! * 1000, b: DEFAULT_TIME_CONTROL.initial! * 1000 }); // ms, as last drawn
   const [gameStarted, setGameStarted] = useState(false);
-  const [gameOver, setGameOver] = useState<string | null>(null);
+  const [gameResult, setGameResult] = useState<GameResult | null>(null);
+  const gameResultRef = useRef<GameResult | null>(null); // the latest result, for async work started before it
+  const [drawOffer, setDrawOffer] = useState<DrawOffer | null>(null);
   const [showSetup, setShowSetup] = useState(true);
   const [boardOrientation, setBoardOrientation] = useState<"w" | "b">("w"); // "w" = white at bottom
   
@@ -319,6 +327,9 @@ export default function Home() {
   const [gameMode, setGameMode] = useState<GameMode>("pass-and-play");
   const [playerColor, setPlayerColor] = useState<"w" | "b">("w");
   const [aiElo, setAiElo] = useState(1000); // Default 1000 ELO
+  const [adaptiveTarget, setAdaptiveTarget] = useState<number | null>(null); // target score when Maia adapts; null = fixed strength
+  // Maia's strength for its next move — drifts with the user's win chances when adaptive
+  const opponentElo = adaptiveTarget === null ? aiElo : getInGameElo(aiElo, gameTree, playerColor, ELO_RANGE, adaptiveTarget);
   const [isAiThinking, setIsAiThinking] = useState(false);
   
   // Evaluation state
@@ -329,47 +340,175 @@ export default function Home() {
   // Intervention state (Phase 3)
   const [intervention, setIntervention] = useState<InterventionState>(createInitialInterventionState);
   const [isBlunderCheckPending, setIsBlunderCheckPending] = useState(false);
+  const [coachToast, setCoachToast] = useState<{ severity: MistakeSeverity; move: string | null; motifs: Motif[] } | null>(null);
   const preMoveEval = useRef<number | null>(null);  // win prob before the player's move
   const preMoveFen = useRef<string | null>(null);    // FEN before the player's move
   
+  // Coach explanation state (Phase 4)
+  const [explanation, setExplanation] = useState<string | null>(null);
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [explanationError, setExplanationError] = useState<string | null>(null);
+  const [explanationLatency, setExplanationLatency] = useState<number | null>(null); // time to first token (ms)
+  const explainAbort = useRef<AbortController | null>(null); // cancels the stream when the modal closes
+  
+  // Top alternatives for the coach modal, and the one previewed on the board
+  const [candidates, setCandidates] = useState<CandidateMove[] | null>(null);
+  const [previewCandidate, setPreviewCandidate] = useState<CandidateMove | null>(null);
+  
+  // Ghost Mode state (Phase 5) — null when not showing the better line
+  const [ghostLine, setGhostLine] = useState<GhostMove[] | null>(null);
+  const [ghostStep, setGhostStep] = useState(0); // number of ghost moves currently shown
+  const [isGhostLoading, setIsGhostLoading] = useState(false);
+  const ghostRequest = useRef(0); // bumped on leaving Ghost Mode, so a line still being built is dropped
+  
+  // The game in progress as last saved, offered on the setup screen after a reload
+  const savedGameJson = useSyncExternalStore(subscribeStorage, () => getStoredItem(SAVED_GAME_STORAGE_KEY), () => null);
+  const savedGame = useMemo(() => parseSavedGame(savedGameJson), [savedGameJson]);
+  
+  // Finished games, kept for the library on the setup screen
+  const libraryJson = useSyncExternalStore(subscribeStorage, () => getStoredItem(LIBRARY_STORAGE_KEY), () => null);
+  const library = useMemo(() => parseLibrary(libraryJson), [libraryJson]);
+  
+  // The user's rating from games against Maia, and how retried games count
+  const playerRatingJson = useSyncExternalStore(subscribeStorage, () => getStoredItem(RATING_STORAGE_KEY), () => null);
+  const playerRating = useMemo(() => parsePlayerRating(playerRatingJson), [playerRatingJson]);
+  const ratingSettingsJson = useSyncExternalStore(subscribeStorage, () => getStoredItem(RATING_SETTINGS_STORAGE_KEY), () => null);
+  const ratingSettings = useMemo(() => parseRatingSettings(ratingSettingsJson), [ratingSettingsJson]);
+  
   // Ref to track if component is mounted (for async cleanup)
   const isMounted = useRef(true);
   
   useEffect(() => {
-    return () => { isMounted.current = false; };
+    return () => {
+      isMounted.current = false;
+      explainAbort.current?.abort();
+    };
   }, []);
 
-  // Timer effect - ticks for both players (including AI)
-  // Freezes during intervention
   useEffect(() => {
-    if (!gameStarted || gameOver || game.isGameOver() || intervention.isActive) return;
+    gameResultRef.current = gameResult;
+  }, [gameResult]);
+
+  // Clock effect - runs the clock of the side to move and redraws it every
+  // tenth of a second; stops during intervention. Moves press the clock
+  // themselves, so it keeps running from one move to the next. Maia's clock
+  // stays stopped on her turn: her think charges it, not the requests' latency
+  const isGameFinished = game.isGameOver();
+  const isAiTurn = gameMode === "coach" && game.turn() !== playerColor;
+  const whiteCanMate = hasMatingMaterial(game, "w"); // a flag is only a loss if the other side could still mate
+  const blackCanMate = hasMatingMaterial(game, "b");
+  useEffect(() => {
+    if (!gameStarted || gameResult || isGameFinished || intervention.isActive || isAiTurn) return;
+    if (timeControl.initial === null) return; // Untimed
 
+    gameClock.current = startClock(gameClock.current, performance.now());
     const interval = setInterval(() => {
-      if (game.turn() === "w") {
-        setWhiteTime((prev) => {
-          if (prev <= 1) {
-            setGameOver("Black wins on time!");
-            return 0;
-          }
-          return prev - 1;
-        });
-      } else {
-        setBlackTime((prev) => {
-          if (prev <= 1) {
-            setGameOver("White wins on time!");
-            return 0;
-          }
-          return prev - 1;
-        });
-      }
-    }, 1000);
+      const now = performance.now();
+      setClockTimes(getClockTimes(gameClock.current, now));
+      const flagged = getFlaggedSide(gameClock.current, now);
+      if (flagged) setGameResult(getTimeoutResult(flagged, flagged === "w" ? blackCanMate : whiteCanMate));
+    }, CLOCK_TICK_MS);
+
+    return () => {
+      clearInterval(interval);
+      gameClock.current = stopClock(gameClock.current, performance.now());
+    };
+  }, [gameStarted, gameResult, isGameFinished, intervention.isActive, isAiTurn, timeControl, whiteCanMate, blackCanMate]);
+
+  // When a move is made: charge the mover the time it took, credit any
+  // increment and delay, start the opponent's clock (unless it's Maia's turn),
+  // and return the mover's clock (seconds) to record with the move
+  const pressGameClock = useCallback((): number | null => {
+    const now = performance.now();
+    const mover = gameClock.current.turn;
+    gameClock.current = pressClock(gameClock.current, now);
+    if (gameMode === "coach" && gameClock.current.turn !== playerColor) {
+      gameClock.current = stopClock(gameClock.current, now);
+    }
+    setClockTimes(getClockTimes(gameClock.current, now));
+    return timeControl.initial === null ? null : gameClock.current.remaining[mover] / 1000;
+  }, [timeControl, gameMode, playerColor]);
 
-    return () => clearInterval(interval);
-  }, [gameStarted, gameOver, game, intervention.isActive]);
+  // Swap in the clock for a new, resumed or replayed game. A clock that was
+  // running keeps running, as the clock effect may not start again
+  const resetClock = (next: ChessClock) => {
+    const now = performance.now();
+    gameClock.current = isClockRunning(gameClock.current) ? startClock(next, now) : next;
+    setClockTimes(getClockTimes(next, now));
+  };
+
+  // Save the game in progress after every move, and the running clocks when
+  // the page is hidden or closed; a finished game goes to the library instead
+  // (keyed by its start time, so saving it again replaces it) and, against
+  // Maia, updates the user's rating once
+  useEffect(() => {
+    if (showSetup || replay || gameMode === "puzzle") return;
+    if (gameResult) {
+      clearSavedGame();
+      if (gameResult.reason === "abort") return; // Aborted games aren't kept
+      const entry = createLibraryGame({
+        tree: gameTree,
+        mode: gameMode,
+        playerColor,
+        aiElo,
+        adaptive: adaptiveTarget !== null,
+        result: gameResult.result,
+        termination: describeGameResult(gameResult),
+        timeControl,
+        date: gameDate,
+      });
+      saveLibrary(addLibraryGame(loadLibrary(), entry));
+      
+      const outcome = getLibraryOutcome(entry);
+      if (gameMode === "coach" && outcome) {
+        savePlayerRating(recordRatedGame(loadPlayerRating(), {
+          id: entry.id,
+          date: gameDate,
+          opponentElo: entry.aiElo ?? aiElo,
+          score: OUTCOME_SCORES[outcome],
+          retries: countRetries(gameTree),
+        }, loadRatingSettings()));
+      }
+      return;
+    }
+    if (!gameStarted) return;
+    
+    const save = () => {
+      const times = getClockTimes(gameClock.current, performance.now());
+      saveGame({
+        version: SAVED_GAME_VERSION,
+        mode: gameMode,
+        tree: gameTree,
+        timeControl,
+        clocks: { w: times.w / 1000, b: times.b / 1000 },
+        orientation: boardOrientation,
+        playerColor,
+        aiElo,
+        adaptiveTarget,
+        gameStarted,
+        intervention,
+        pendingCheck: isBlunderCheckPending && preMoveFen.current && preMoveEval.current !== null
+          ? { fen: preMoveFen.current, winProbability: preMoveEval.current }
+          : null,
+        date: gameDate.toISOString(),
+        savedAt: new Date().toISOString(),
+      });
+    };
+    const saveIfHidden = () => {
+      if (document.visibilityState === "hidden") save();
+    };
+    save();
+    document.addEventListener("visibilitychange", saveIfHidden);
+    window.addEventListener("pagehide", save);
+    return () => {
+      document.removeEventListener("visibilitychange", saveIfHidden);
+      window.removeEventListener("pagehide", save);
+    };
+  }, [showSetup, replay, gameMode, gameResult, gameStarted, gameTree, boardOrientation, playerColor, aiElo, adaptiveTarget, timeControl, intervention, isBlunderCheckPending, gameDate]);
 
   // Fetch evaluation after each move + blunder detection
   useEffect(() => {
-    if (gameOver || game.isGameOver()) return;
+    if (gameResult || game.isGameOver()) return;
     
     // Cancel stale fetches when game advances before a fetch completes
     let cancelled = false;
@@ -389,6 +528,14 @@ export default function Home() {
             setEvaluation(result);
           }
           
+          // Record the evaluation with the move, for the move list and PGN export
+          const fen = game.fen();
+          setGameTree((tree) =>
+            tree.nodes[tree.currentId].fen === fen
+              ? annotateNode(tree, tree.currentId, { winProbability: result.winProbability })
+              : tree
+          );
+          
           // Blunder detection: if we have a stored pre-move eval, compare
           if (
             preMoveEval.current !== null &&
@@ -396,13 +543,34 @@ export default function Home() {
           ) {
             const previousWp = preMoveEval.current;
             const newWp = result.winProbability;
-            const threshold = BLUNDER_THRESHOLD;
+            // Bands scale with the chosen ELO, game phase and how decided the position was
+            const fenBefore = preMoveFen.current ?? game.fen();
+            const materialBefore = calculateMaterial(new Chess(fenBefore));
+            const bands = getContextualBands({
+              elo: aiElo,
+              moveNumber: parseInt(fenBefore.split(" ")[5], 10),
+              totalMaterial: materialBefore.whiteMaterial + materialBefore.blackMaterial,
+              winProbability: previousWp,
+            });
+            const severity = classifyMove(previousWp, newWp, playerColor, bands);
             
-            if (isBlunder(previousWp, newWp, playerColor, threshold)) {
-              // Get the last move details from the game
-              const lastMoveArr = game.history({ verbose: true });
-              const lastMv = lastMoveArr[lastMoveArr.length - 1];
-              
+            // Get the last move details from the game
+            const lastMoveArr = game.history({ verbose: true });
+            const lastMv = lastMoveArr[lastMoveArr.length - 1];
+            
+            // Mark the move in the move list
+            if (severity) {
+              setGameTree((tree) => annotateNode(tree, tree.currentId, { severity }));
+            }
+            
+            if (severity && getInterventionAction(severity) === "toast") {
+              // Minor slip: a non-blocking toast, the game carries on
+              setCoachToast({
+                severity,
+                move: lastMv?.san ?? null,
+                motifs: lastMv ? detectMotifs({ fenBeforeMove: fenBefore, userMove: lastMv.san, bestMove: null }) : [],
+              });
+            } else if (severity) {
               // Also fetch the pre-move best move for the modal
               // We can use the evaluation from before — or re-fetch at high ELO
               // For now, fetch from the pre-move FEN at high ELO
@@ -423,7 +591,8 @@ export default function Home() {
               }
               
               if (!cancelled && isMounted.current) {
-                setIntervention({
+                setGameTree((tree) => annotateNode(tree, tree.currentId, { bestMove }));
+                const nextIntervention: InterventionState = {
                   isActive: true,
                   fenBeforeMove: preMoveFen.current,
                   userMove: lastMv?.san ?? null,
@@ -433,7 +602,22 @@ export default function Home() {
                   newWinProb: newWp,
                   bestMove,
                   moveProbs,
-                });
+                  severity,
+                };
+                setIntervention(nextIntervention);
+                
+                // Keep the position for Puzzle mode
+                const puzzle = puzzleFromIntervention(nextIntervention);
+                if (puzzle) savePuzzles(addPuzzle(loadPuzzles(), puzzle));
+                setCandidates(null);
+                setPreviewCandidate(null);
+                
+                // Win chances after each alternative, at the same ELO as the eval bar
+                if (preMoveFen.current) {
+                  analyzeCandidates(preMoveFen.current, moveProbs, { elo: aiElo + 200 }).then((analyzed) => {
+                    if (!cancelled && isMounted.current) setCandidates(analyzed);
+                  });
+                }
               }
             }
             
@@ -458,12 +642,12 @@ export default function Home() {
     
     fetchEval();
     return () => { cancelled = true; };
-  }, [game, gameOver, aiElo, gameMode, playerColor]);
+  }, [game, gameResult, aiElo, gameMode, playerColor]);
 
   // AI move in coach mode — blocked during intervention
   useEffect(() => {
     if (gameMode !== "coach") return;
-    if (!gameStarted || gameOver || game.isGameOver()) return;
+    if (!gameStarted || gameResult || game.isGameOver()) return;
     if (game.turn() === playerColor) return; // Not AI's turn
     if (isAiThinking) return; // Already thinking
     if (intervention.isActive) return; // Blocked during intervention
@@ -473,9 +657,10 @@ export default function Home() {
       setIsAiThinking(true);
       
       try {
-        const result = await fetchAnalysis(game.fen(), { eloSelf: aiElo + 200, eloOppo: aiElo + 200 });
+        const result = await fetchAnalysis(game.fen(), { eloSelf: opponentElo + 200, eloOppo: opponentElo + 200 });
         
-        if (!isMounted.current || gameOver) return;
+        // The game may have ended meanwhile — a flag, resignation, abort or agreed draw
+        if (!isMounted.current || gameResultRef.current) return;
         
         // On the first move, force a main-line opening pawn move
         // Use FEN fullmove number (not history.length, which resets on Chess(fen))
@@ -503,56 +688,31 @@ export default function Home() {
         const moveTo = sampledMove.slice(2, 4);
         const movePromotion = sampledMove.length > 4 ? sampledMove[4] : undefined;
         
-        // Determine think time based on game phase
-        let minThink: number, maxThink: number;
-        if (fullmoveNumber <= 10) {
-          // Opening: fast, theory moves
-          minThink = 2; maxThink = 8;
-        } else if (fullmoveNumber <= 25) {
-          // Middlegame: longer thinks
-          minThink = 5; maxThink = 20;
-        } else {
-          // Endgame: moderate
-          minThink = 3; maxThink = 12;
-        }
-        const totalThinkTime = minThink + Math.floor(Math.random() * (maxThink - minThink + 1));
-        
-        // Animate the clock ticking down at 3x speed for the think time
-        // The real clock already ticked during the API call (~1-2s),
-        // now fast-forward the remaining think time
+        // Think time by game phase, scaled to the time control
         const aiColor = playerColor === "w" ? "b" : "w";
-        const setAiTime = aiColor === "w" ? setWhiteTime : setBlackTime;
-        const tickInterval = Math.floor(1000 / 3); // 3x speed = ~333ms per second
+        const totalThinkTime = getThinkTime(
+          timeControl,
+          fullmoveNumber,
+          getRemaining(gameClock.current, aiColor, performance.now()) / 1000
+        );
         
-        let aiTimedOut = false;
-        for (let i = 0; i < totalThinkTime; i++) {
-          if (!isMounted.current || gameOver) return;
-          await new Promise(resolve => setTimeout(resolve, tickInterval));
-          
-          let shouldBreak = false;
-          setAiTime(prev => {
-            if (prev <= 1) {
-              aiTimedOut = true;
-              shouldBreak = true;
-              return 0;
-            }
-            return prev - 1;
-          });
-          
-          // Need to check after state update — use a small delay
-          await new Promise(resolve => setTimeout(resolve, 10));
-          if (aiTimedOut || shouldBreak) break;
-        }
-        
-        if (aiTimedOut) {
-          setGameOver(`${aiColor === "w" ? "Black" : "White"} wins on time!`);
-          return;
-        }
-        
-        if (!isMounted.current || gameOver) return;
+        // Run the clock at 3x speed for the think time. Maia's clock is
+        // stopped on her turn, so only the think is charged
+        const shouldMove = await simulateThink({
+          seconds: totalThinkTime,
+          isCancelled: () => !isMounted.current || gameResultRef.current !== null,
+          onSecond: () => {
+            gameClock.current = chargeClock(gameClock.current, 1000);
+            setClockTimes(getClockTimes(gameClock.current, performance.now()));
+            if (getFlaggedSide(gameClock.current, performance.now()) !== aiColor) return true;
+            setGameResult(getTimeoutResult(aiColor, hasMatingMaterial(game, playerColor)));
+            return false;
+          },
+        });
+        if (!shouldMove) return;
         
         // Make the move
-        const newGame = new Chess(game.fen());
+        const newGame = cloneGame(game);
         const moveObj: { from: string; to: string; promotion?: string } = { from: moveFrom, to: moveTo };
         if (movePromotion) moveObj.promotion = movePromotion;
         
@@ -561,13 +721,12 @@ export default function Home() {
         
         if (move) {
           setGame(newGame);
+          const clock = pressGameClock();
+          setGameTree((tree) => addMove(tree, move, { clock, elo: opponentElo }));
           
           // Check for game over
-          if (newGame.isCheckmate()) {
-            setGameOver(`Checkmate! ${newGame.turn() === "w" ? "Black" : "White"} wins!`);
-          } else if (newGame.isDraw()) {
-            setGameOver("Draw!");
-          }
+          const result = getBoardResult(newGame);
+          if (result) setGameResult(result);
         }
       } catch (error) {
         console.error("AI move failed:", error, "\nFEN:", game.fen(), "\nHistory:", game.history(), "\nTurn:", game.turn());
@@ -579,53 +738,171 @@ export default function Home() {
     };
 
     makeAiMove();
-  }, [game, gameMode, playerColor, gameStarted, gameOver, aiElo, isAiThinking, intervention.isActive, isBlunderCheckPending]);
+  }, [game, gameMode, playerColor, gameStarted, gameResult, opponentElo, timeControl, pressGameClock, isAiThinking, intervention.isActive, isBlunderCheckPending]);
+
+  // Maia answers the user's draw offer from her win probability and the
+  // material on the board; an offer lapses if a move is played meanwhile
+  useEffect(() => {
+    if (gameMode !== "coach" || gameResult) return;
+    if (drawOffer?.status !== "pending" || drawOffer.nodeId !== gameTree.currentId) return;
+
+    let cancelled = false;
+    const aiColor = playerColor === "w" ? "b" : "w";
+    fetchAnalysis(game.fen(), { eloSelf: opponentElo + 200, eloOppo: opponentElo + 200 })
+      .then((result) => {
+        if (cancelled || !isMounted.current) return;
+        if (shouldAcceptDraw(result.winProbability, calculateMaterial(game).advantage, aiColor)) {
+          setGameResult(DRAW_BY_AGREEMENT);
+        } else {
+          setDrawOffer({ ...drawOffer, status: "declined" });
+        }
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error("Failed to answer draw offer:", error);
+        if (isMounted.current) setDrawOffer({ ...drawOffer, status: "declined" });
+      });
+    return () => { cancelled = true; };
+  }, [drawOffer, game, gameTree.currentId, gameMode, gameResult, playerColor, opponentElo]);
+
+  // Auto-dismiss the coach toast shown for inaccuracies
+  useEffect(() => {
+    if (!coachToast) return;
+    const timeout = setTimeout(() => setCoachToast(null), COACH_TOAST_MS);
+    return () => clearTimeout(timeout);
+  }, [coachToast]);
+
+  // Ghost Mode auto-play — step through the better line one move at a time
+  useEffect(() => {
+    if (!ghostLine || ghostStep >= ghostLine.length) return;
+    const timeout = setTimeout(() => setGhostStep((step) => step + 1), GHOST_STEP_MS);
+    return () => clearTimeout(timeout);
+  }, [ghostLine, ghostStep]);
+
+  // Puzzle mode — after a correct answer, Maia plays the follow-up move
+  const isPuzzleSolved = puzzleSession?.result?.correct ?? false;
+  useEffect(() => {
+    if (gameMode !== "puzzle" || !isPuzzleSolved) return;
+    if (game.turn() === playerColor || game.isGameOver()) return;
+    
+    let cancelled = false;
+    fetchAnalysis(game.fen(), { eloSelf: aiElo + 200, eloOppo: aiElo + 200 })
+      .then((result) => {
+        if (cancelled || !isMounted.current) return;
+        const newGame = cloneGame(game);
+        const move = newGame.move({ from: result.from, to: result.to, promotion: result.bestMove[4] });
+        setGame(newGame);
+        setGameTree((tree) => addMove(tree, move));
+      })
+      .catch((error) => {
+        if (!cancelled) console.error("Failed to fetch puzzle reply:", error);
+      });
+    return () => { cancelled = true; };
+  }, [gameMode, isPuzzleSolved, game, playerColor, aiElo]);
+
+  // Move list navigation — arrow keys step through the game, read-only
+  useEffect(() => {
+    if (showSetup || intervention.isActive || ghostLine !== null || exercise) return;
+    
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== "ArrowLeft" && event.key !== "ArrowRight") return;
+      event.preventDefault();
+      const shownId = viewId ?? gameTree.currentId;
+      let nextId: number | null = shownId;
+      if (event.key === "ArrowLeft") {
+        nextId = gameTree.nodes[shownId].parentId ?? shownId;
+      } else if (viewId !== null) {
+        nextId = getMainlineChild(gameTree, shownId)?.id ?? shownId;
+      }
+      // Stepping onto the live position leaves review
+      setViewId(nextId === gameTree.currentId ? null : nextId);
+    };
+    
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [showSetup, intervention.isActive, ghostLine, exercise, viewId, gameTree]);
+
+  const handleSelectMove = useCallback((id: number) => {
+    setViewId(id === gameTree.currentId ? null : id);
+  }, [gameTree.currentId]);
+
+  // Play the user's move: an exercise answer is scored, a puzzle answer
+  // graded, otherwise the move is made (and blunder-checked against Maia)
+  const playUserMove = useCallback((from: Square, to: Square, promotion?: PromotionPiece) => {
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setPendingPromotion(null);
+
+    // An exercise answer is scored, not played
+    if (exercise) {
+      const move = new Chess(exercise.moment.fen).move({ from, to, promotion });
+      setExercise({ ...exercise, result: scoreExerciseMove(exercise.moment, `${move.from}${move.to}${move.promotion ?? ""}`) });
+      return;
+    }
+
+    const newGame = cloneGame(game);
+    const move = newGame.move({ from, to, promotion });
+
+    if (move && gameMode === "puzzle" && puzzleSession) {
+      // Grade the answer; only a correct one stays on the board
+      const puzzle = puzzleSession.queue[puzzleSession.index];
+      const result = gradePuzzleMove(puzzle, `${move.from}${move.to}${move.promotion ?? ""}`);
+      // Only the first answer counts towards the review schedule
+      if (!puzzleSession.reviewed) savePuzzles(recordPuzzleReview(loadPuzzles(), puzzle.id, getReviewGrade(puzzle, result)));
+      setPuzzleSession({ ...puzzleSession, result, reviewed: true });
+      if (result.correct) {
+        setGame(newGame);
+        setGameTree((tree) => addMove(tree, move));
+      }
+      return;
+    }
+
+    if (move) {
+      // In coach mode, store the pre-move eval for blunder detection
+      if (gameMode === "coach" && game.turn() === playerColor && evaluation) {
+        preMoveEval.current = evaluation.winProbability;
+        preMoveFen.current = game.fen();
+        setIsBlunderCheckPending(true);
+      }
+      
+      setGame(newGame);
+      const clock = pressGameClock();
+      setGameTree((tree) => addMove(tree, move, { clock }));
+      
+      // Start the clock on first move
+      if (!gameStarted) {
+        setGameStarted(true);
+      }
+      
+      // Check for game over
+      const result = getBoardResult(newGame);
+      if (result) setGameResult(result);
+    }
+  }, [game, exercise, puzzleSession, gameStarted, gameMode, playerColor, evaluation, pressGameClock]);
 
   const handleSquareClick = useCallback((square: Square) => {
-    if (gameOver) return;
+    if (gameResult && !exercise) return;
     if (intervention.isActive) return; // Block during intervention
+    if (gameMode === "puzzle" && puzzleSession?.result) return; // Answered — wait for retry or next
     
-    const piece = game.get(square);
+    // A critical-moment exercise is played on its own position
+    const position = exercise ? new Chess(exercise.moment.fen) : game;
+    const piece = position.get(square);
 
-    // If clicking on a valid move square, make the move
+    // If clicking on a valid move square, make the move — a promotion waits
+    // for the piece to be chosen
     if (selectedSquare && validMoves.includes(square)) {
-      const newGame = new Chess(game.fen());
-      const move = newGame.move({
-        from: selectedSquare,
-        to: square,
-        promotion: "q",
-      });
-
-      if (move) {
-        // In coach mode, store the pre-move eval for blunder detection
-        if (gameMode === "coach" && game.turn() === playerColor && evaluation) {
-          preMoveEval.current = evaluation.winProbability;
-          preMoveFen.current = game.fen();
-          setIsBlunderCheckPending(true);
-        }
-        
-        setGame(newGame);
-        setSelectedSquare(null);
-        setValidMoves([]);
-        
-        // Start the clock on first move
-        if (!gameStarted) {
-          setGameStarted(true);
-        }
-        
-        // Check for game over
-        if (newGame.isCheckmate()) {
-          setGameOver(`Checkmate! ${newGame.turn() === "w" ? "Black" : "White"} wins!`);
-        } else if (newGame.isDraw()) {
-          setGameOver("Draw!");
-        }
-        return;
+      if (isPromotionMove(position, selectedSquare, square)) {
+        setPendingPromotion({ from: selectedSquare, to: square, color: position.turn() });
+      } else {
+        playUserMove(selectedSquare, square);
       }
+      return;
     }
 
     // If clicking on own piece, select it and show valid moves
-    if (piece && piece.color === game.turn()) {
-      const moves = game.moves({ square, verbose: true });
+    if (piece && piece.color === position.turn()) {
+      const moves = position.moves({ square, verbose: true });
       setSelectedSquare(square);
       setValidMoves(moves.map((m) => m.to as Square));
       return;
@@ -634,67 +911,190 @@ export default function Home() {
     // Otherwise, clear selection
     setSelectedSquare(null);
     setValidMoves([]);
-  }, [game, selectedSquare, validMoves, gameStarted, gameOver, intervention.isActive, gameMode, playerColor, evaluation]);
+  }, [game, exercise, puzzleSession, selectedSquare, validMoves, gameResult, intervention.isActive, gameMode, playUserMove]);
+
+  const handlePromotionSelect = (piece: PromotionPiece) => {
+    if (pendingPromotion) playUserMove(pendingPromotion.from, pendingPromotion.to, piece);
+  };
+
+  const handlePromotionCancel = () => {
+    setPendingPromotion(null);
+    setSelectedSquare(null);
+    setValidMoves([]);
+  };
+
+  // Drop any explanation and cancel a stream still in flight
+  const resetExplanation = useCallback(() => {
+    explainAbort.current?.abort();
+    explainAbort.current = null;
+    setExplanation(null);
+    setIsExplaining(false);
+    setExplanationError(null);
+    setExplanationLatency(null);
+  }, []);
 
   // Intervention handlers
   const handleRetry = useCallback(() => {
-    // Undo the blundered move by restoring the pre-move FEN from intervention state
+    // Take the move back on a copy of the game so its history survives, and
+    // keep the rejected move in the game tree as a side variation
     if (intervention.fenBeforeMove) {
-      setGame(new Chess(intervention.fenBeforeMove));
+      const newGame = cloneGame(game);
+      newGame.undo();
+      setGame(newGame.fen() === intervention.fenBeforeMove ? newGame : new Chess(intervention.fenBeforeMove));
+      setGameTree((tree) => rejectCurrentMove(tree));
+      // The taken-back move doesn't earn its increment
+      gameClock.current = takeBackMove(gameClock.current, performance.now());
+      setClockTimes(getClockTimes(gameClock.current, performance.now()));
     }
     setIntervention(createInitialInterventionState());
     setIsBlunderCheckPending(false);
+    resetExplanation();
+    setCandidates(null);
+    setPreviewCandidate(null);
     preMoveFen.current = null;
     preMoveEval.current = null;
-  }, [intervention.fenBeforeMove]);
+  }, [game, intervention.fenBeforeMove, resetExplanation]);
 
-  const handleExplain = useCallback(() => {
-    // Phase 4 will add LLM explanation here.
-    // For now, dismiss the modal and let the game continue with the move intact.
-    setIntervention(createInitialInterventionState());
-    setIsBlunderCheckPending(false);
-    preMoveFen.current = null;
-    preMoveEval.current = null;
+  const handleExplain = useCallback(async () => {
+    // Stream the coach's explanation into the modal; the modal stays open
+    const payload = buildNarratorPayload(intervention);
+    if (!payload) return;
+    
+    explainAbort.current?.abort();
+    const controller = new AbortController();
+    explainAbort.current = controller;
+    setExplanation(null);
+    setIsExplaining(true);
+    setExplanationError(null);
+    setExplanationLatency(null);
+    try {
+      await streamExplanation(payload, {
+        signal: controller.signal,
+        onToken: (chunk) => {
+          if (isMounted.current) setExplanation((prev) => (prev ?? "") + chunk);
+        },
+        onFirstToken: (ms) => {
+          if (isMounted.current) setExplanationLatency(ms);
+        },
+      });
+    } catch (error) {
+      console.error("Failed to stream explanation:", error);
+      if (isMounted.current && !controller.signal.aborted) {
+        setExplanationError("The coach couldn't explain this one. Try again or continue.");
+      }
+    } finally {
+      if (isMounted.current && !controller.signal.aborted) {
+        setIsExplaining(false);
+      }
+    }
+  }, [intervention]);
+
+  const handleShowLine = useCallback(async () => {
+    // Enter Ghost Mode: build the better line from the pre-move position
+    const { fenBeforeMove, bestMove } = intervention;
+    if (!fenBeforeMove || !bestMove) return;
+    
+    const request = ++ghostRequest.current;
+    setGhostLine([]);
+    setGhostStep(0);
+    setIsGhostLoading(true);
+    try {
+      const line = await buildGhostLine(fenBeforeMove, bestMove);
+      if (isMounted.current && ghostRequest.current === request) setGhostLine(line);
+    } finally {
+      if (isMounted.current && ghostRequest.current === request) setIsGhostLoading(false);
+    }
+  }, [intervention]);
+
+  const handleReplayLine = useCallback(() => {
+    setGhostStep(0);
   }, []);
 
+  const handleGotIt = useCallback(() => {
+    // Leave Ghost Mode and take the move back — the user must find a better one
+    ghostRequest.current++;
+    setGhostLine(null);
+    setGhostStep(0);
+    setIsGhostLoading(false);
+    handleRetry();
+  }, [handleRetry]);
+
   const handleContinue = useCallback(() => {
     // User accepts the move and continues playing
     setIntervention(createInitialInterventionState());
     setIsBlunderCheckPending(false);
+    resetExplanation();
+    setCandidates(null);
+    setPreviewCandidate(null);
     preMoveFen.current = null;
     preMoveEval.current = null;
-  }, []);
+  }, [resetExplanation]);
 
   const resetGame = () => {
     setShowSetup(true);
+    setViewId(null);
+    setReplay(null);
+    setExercise(null);
+    setPuzzleSession(null);
     setEvaluation(null);
     setIsAiThinking(false);
     setIntervention(createInitialInterventionState());
     setIsBlunderCheckPending(false);
+    resetExplanation();
+    setCandidates(null);
+    setPreviewCandidate(null);
+    ghostRequest.current++;
+    setGhostLine(null);
+    setGhostStep(0);
+    setIsGhostLoading(false);
+    setCoachToast(null);
     preMoveFen.current = null;
     preMoveEval.current = null;
   };
 
-  const startGame = (color: "w" | "b" | "random", mode: GameMode = "pass-and-play", elo: number = 1000) => {
+  const startGame = (
+    color: "w" | "b" | "random",
+    mode: GameMode = "pass-and-play",
+    elo: number = 1000,
+    start?: { game: Chess; tree: GameTree }, // continue from a replayed position instead of a new game
+  ) => {
     const orientation = color === "random" 
       ? (Math.random() < 0.5 ? "w" : "b") 
       : color;
     
-    setGame(new Chess());
+    const board = start?.game ?? new Chess();
+    setGame(board);
+    setGameTree(start?.tree ?? createGameTree());
+    setViewId(null);
+    setReplay(null);
+    setExercise(null);
+    setPuzzleSession(null);
+    setGameDate(new Date());
     setSelectedSquare(null);
     setValidMoves([]);
-    setWhiteTime(INITIAL_TIME);
-    setBlackTime(INITIAL_TIME);
+    const control = mode === "puzzle" ? UNTIMED : setupTimeControl;
+    setTimeControl(control);
+    resetClock(createClock(control, board.turn()));
     setGameStarted(false);
-    setGameOver(null);
+    setGameResult(null);
+    setDrawOffer(null);
     setBoardOrientation(orientation);
     setGameMode(mode);
     setPlayerColor(orientation);
     setAiElo(elo);
+    setAdaptiveTarget(null);
     setEvaluation(null);
     setIsAiThinking(false);
     setIntervention(createInitialInterventionState());
     setIsBlunderCheckPending(false);
+    resetExplanation();
+    setCandidates(null);
+    setPreviewCandidate(null);
+    ghostRequest.current++;
+    setGhostLine(null);
+    setGhostStep(0);
+    setIsGhostLoading(false);
+    setCoachToast(null);
     preMoveFen.current = null;
     preMoveEval.current = null;
     setShowSetup(false);
@@ -706,40 +1106,262 @@ export default function Home() {
     }
   };
 
-  const isLight = (col: number, row: number) => (col + row) % 2 === 0;
-  
+  // Pick a saved game back up where it was left, intervention and all
+  const resumeGame = (saved: SavedGame) => {
+    const board = getGameAt(saved.tree);
+    startGame(saved.playerColor, saved.mode, saved.aiElo, { game: board, tree: saved.tree });
+    setBoardOrientation(saved.orientation);
+    setGameDate(new Date(saved.date));
+    setTimeControl(saved.timeControl);
+    resetClock(createClock(saved.timeControl, board.turn(), { w: saved.clocks.w * 1000, b: saved.clocks.b * 1000 }));
+    setGameStarted(saved.gameStarted);
+    setAdaptiveTarget(saved.adaptiveTarget);
+    setIntervention(saved.intervention);
+    
+    // A move that was still being checked is checked again
+    if (saved.pendingCheck) {
+      preMoveFen.current = saved.pendingCheck.fen;
+      preMoveEval.current = saved.pendingCheck.winProbability;
+      setIsBlunderCheckPending(true);
+    }
+    
+    // The alternatives shown with an open intervention aren't saved — analyze them again
+    const { isActive, fenBeforeMove, moveProbs } = saved.intervention;
+    if (isActive && fenBeforeMove) {
+      analyzeCandidates(fenBeforeMove, moveProbs, { elo: saved.aiElo + 200 }).then((analyzed) => {
+        if (isMounted.current) setCandidates(analyzed);
+      });
+    }
+  };
+
+  // Open an imported PGN game in the replay viewer, at its first position or the given move
+  const openReplay = (games: ImportedGame[], index: number, nodeId: number = games[index].tree.rootId) => {
+    const tree = games[index].tree;
+    setGame(getGameAt(tree));
+    setGameTree(tree);
+    setViewId(nodeId === tree.currentId ? null : nodeId);
+    setReplay({ games, index });
+    setExercise(null);
+    setPuzzleSession(null);
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setTimeControl(DEFAULT_TIME_CONTROL);
+    resetClock(createClock(DEFAULT_TIME_CONTROL));
+    setGameStarted(false);
+    setGameResult(null);
+    setDrawOffer(null);
+    setBoardOrientation("w");
+    setGameMode("pass-and-play");
+    setEvaluation(null);
+    setIsAiThinking(false);
+    setIntervention(createInitialInterventionState());
+    setIsBlunderCheckPending(false);
+    resetExplanation();
+    setCandidates(null);
+    setPreviewCandidate(null);
+    ghostRequest.current++;
+    setGhostLine(null);
+    setGhostStep(0);
+    setIsGhostLoading(false);
+    setCoachToast(null);
+    preMoveFen.current = null;
+    preMoveEval.current = null;
+    setShowSetup(false);
+  };
+
+  // Keep the analyzed games, so the move list shows the graded moves and win chances
+  const handleAnalyzed = (report: BatchReport) => {
+    if (!replay) return;
+    const games = replay.games.map((game, i) => {
+      const analyzed = report.games.find((g) => g.index === i);
+      return analyzed ? { ...game, tree: analyzed.tree } : game;
+    });
+    setReplay({ ...replay, games });
+    setGameTree((tree) => ({ ...games[replay.index].tree, currentId: tree.currentId }));
+  };
+
+  // Start (or restart) a critical-moment exercise on the board
+  const handleStartExercise = (moment: CriticalMoment) => {
+    setExercise({ moment, result: null });
+    setViewId(null);
+    setSelectedSquare(null);
+    setValidMoves([]);
+  };
+
+  const handleEndExercise = () => {
+    setExercise(null);
+    setSelectedSquare(null);
+    setValidMoves([]);
+  };
+
+  // Put a puzzle from the session on the board, unanswered
+  const showPuzzle = (queue: Puzzle[], index: number, reviewed = false) => {
+    const puzzle = queue[index];
+    const position = new Chess(puzzle.fen);
+    setGame(position);
+    setGameTree(createGameTree(puzzle.fen));
+    setViewId(null);
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setEvaluation(null);
+    setBoardOrientation(position.turn());
+    setPlayerColor(position.turn());
+    setPuzzleSession({ queue, index, result: null, showSolution: false, reviewed });
+  };
+
+  // Play through a queue — the puzzles due today, or the whole deck
+  const startPuzzles = (queue: Puzzle[]) => {
+    if (queue.length === 0) return;
+    startGame(new Chess(queue[0].fen).turn(), "puzzle", setupElo);
+    showPuzzle(queue, 0);
+  };
+
+  const handleNextPuzzle = () => {
+    if (!puzzleSession) return;
+    const { queue, index } = puzzleSession;
+    if (index + 1 < queue.length) showPuzzle(queue, index + 1);
+    else resetGame();
+  };
+
+  const handleRemovePuzzle = () => {
+    if (!puzzleSession) return;
+    const { queue, index } = puzzleSession;
+    const id = queue[index].id;
+    savePuzzles(removePuzzle(loadPuzzles(), id));
+    const remaining = removePuzzle(queue, id);
+    if (remaining.length > 0) showPuzzle(remaining, Math.min(index, remaining.length - 1));
+    else resetGame();
+  };
+
+  // Play on against Maia from the replayed position, as the side to move
+  const handleTakeOver = () => {
+    const id = viewId ?? gameTree.currentId;
+    const start = getGameAt(gameTree, id);
+    startGame(start.turn(), "coach", setupElo, { game: start, tree: { ...gameTree, currentId: id } });
+  };
+
   const lastMove = game.history({ verbose: true }).slice(-1)[0];
   
   // Calculate material
   const material = calculateMaterial(game);
 
-  // Board orientation - flip arrays if playing as black
-  const displayRows = boardOrientation === "w" ? ROWS : [...ROWS].reverse();
-  const displayCols = boardOrientation === "w" ? COLUMNS : [...COLUMNS].reverse();
-
   // Status message
   const getStatusMessage = () => {
-    if (gameOver) return gameOver;
+    if (puzzleSession) return `Puzzle: find a better move for ${game.turn() === "w" ? "White" : "Black"}`;
+    if (replay) {
+      const { White = "?", Black = "?" } = replay.games[replay.index].headers;
+      return `Replay: ${White} vs ${Black}`;
+    }
+    if (gameResult) return describeGameResult(gameResult);
     if (game.isCheck()) return `${game.turn() === "w" ? "White" : "Black"} is in check!`;
     if (!gameStarted) return "Make a move to start the clock";
     return `${game.turn() === "w" ? "White" : "Black"} to move`;
   };
 
+  // Ending the game early: the side at the board resigns or offers the draw
+  // (the user, against Maia); aborting is only possible before both sides have moved
+  const actingColor = gameMode === "coach" ? playerColor : game.turn();
+  const canAbort = getMainline(gameTree).length < ABORT_PLIES;
+  const currentDrawOffer = drawOffer?.nodeId === gameTree.currentId ? drawOffer : null;
+  const canOfferDraw = gameStarted && !intervention.isActive && !isBlunderCheckPending && game.turn() === actingColor;
+
+  const handleAbort = () => setGameResult(ABORTED_GAME);
+  const handleResign = () => setGameResult(getResignationResult(actingColor));
+  const handleOfferDraw = () => setDrawOffer({ from: actingColor, nodeId: gameTree.currentId, status: "pending" });
+  const handleAnswerDraw = (accept: boolean) => {
+    if (accept) setGameResult(DRAW_BY_AGREEMENT);
+    else setDrawOffer((offer) => offer && { ...offer, status: "declined" });
+  };
+
+  const handleExportPgn = () => {
+    const pgn = exportGamePgn({
+      tree: gameTree,
+      mode: gameMode === "coach" ? "coach" : "pass-and-play",
+      playerColor,
+      aiElo,
+      adaptive: adaptiveTarget !== null,
+      result: gameResult?.result ?? "*",
+      termination: gameResult ? describeGameResult(gameResult) : null,
+      timeControl,
+      date: gameDate,
+    });
+    downloadTextFile(`checkmate-coach-${formatPgnDate(gameDate).replace(/\./g, "-")}.pgn`, pgn, "application/x-chess-pgn");
+  };
+
+  // Open a finished game from the library in the replay viewer
+  const handleOpenLibraryGame = (entry: LibraryGame) => {
+    try {
+      openReplay(importPgn(entry.pgn), 0);
+    } catch (error) {
+      console.error("Failed to open library game:", error);
+    }
+  };
+
+  const handleExportLibrary = (games: LibraryGame[]) => {
+    downloadTextFile(`checkmate-coach-library-${formatPgnDate(new Date()).replace(/\./g, "-")}.pgn`, exportLibraryPgn(games), "application/x-chess-pgn");
+  };
+
   // Setup screen state
   const [setupMode, setSetupMode] = useState<GameMode>("coach");
   const [setupElo, setSetupElo] = useState(800);
+  const [setupTimeControl, setSetupTimeControl] = useState<TimeControl>(DEFAULT_TIME_CONTROL);
+  const [setupAdaptiveTarget, setSetupAdaptiveTarget] = useState<number | null>(null); // null = fixed strength
+  
+  // An adaptive Maia starts where the user's recent adaptive games put it
+  const recentAdaptiveResults = library
+    .filter((g) => g.adaptive && g.aiElo !== null && getLibraryOutcome(g))
+    .map((g) => ({ opponentElo: g.aiElo!, score: OUTCOME_SCORES[getLibraryOutcome(g)!] }));
+  const setupStartElo = setupMode === "coach" && setupAdaptiveTarget !== null
+    ? getAdaptiveStartElo(recentAdaptiveResults, setupElo, ELO_RANGE, setupAdaptiveTarget)
+    : setupElo;
+  
+  const startSetupGame = (color: "w" | "b" | "random") => {
+    startGame(color, setupMode, setupStartElo);
+    if (setupMode === "coach") setAdaptiveTarget(setupAdaptiveTarget);
+  };
   
   // Setup screen
   if (showSetup) {
-    const selectedEloOption = ELO_OPTIONS.find(o => o.elo === setupElo) || ELO_OPTIONS[3];
-    
     return (
       <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-neutral-950 via-neutral-900 to-neutral-950 p-8">
         <h1 className="text-4xl font-bold bg-gradient-to-r from-amber-200 to-yellow-400 bg-clip-text text-transparent mb-2">
           Checkmate Coach
         </h1>
-        <p className="text-neutral-400 text-lg mb-8">10 Minute Game</p>
+        <p className="text-neutral-400 text-lg mb-8">
+          {setupTimeControl.initial === null
+            ? "Untimed Game"
+            : `${formatTimeControl(setupTimeControl)} ${TIME_CONTROL_CATEGORY_LABELS[getTimeControlCategory(setupTimeControl)]} Game`}
+        </p>
         
+        {/* Resume the game left in progress */}
+        {savedGame && (
+          <div className="bg-neutral-800/50 rounded-2xl px-8 py-5 max-w-md w-full mb-6 flex items-center justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-white">Game in progress</h2>
+              <p className="text-sm text-neutral-400">
+                {savedGame.mode === "coach"
+                  ? `vs ${savedGame.adaptiveTarget !== null ? "adaptive " : ""}Maia ${savedGame.aiElo} as ${savedGame.playerColor === "w" ? "White" : "Black"}`
+                  : "Pass & Play"}
+                {" · "}move {savedGame.tree.nodes[savedGame.tree.currentId].moveNumber}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={clearSavedGame}
+                className="text-sm text-neutral-500 hover:text-neutral-300 transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                onClick={() => resumeGame(savedGame)}
+                className="px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white text-sm font-semibold rounded-lg transition-colors"
+              >
+                Resume game
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="bg-neutral-800/50 rounded-2xl p-8 max-w-md w-full">
           {/* Game Mode Selection */}
           <div className="mb-6">
@@ -765,11 +1387,24 @@ export default function Home() {
               >
                 Pass & Play
               </button>
+              <button
+                onClick={() => setSetupMode("puzzle")}
+                className={`flex-1 px-4 py-3 rounded-xl font-medium transition-all ${
+                  setupMode === "puzzle"
+                    ? "bg-amber-600 text-white"
+                    : "bg-neutral-700 text-neutral-300 hover:bg-neutral-600"
+                }`}
+              >
+                Puzzles
+                {duePuzzles.length > 0 && (
+                  <span className="ml-2 px-1.5 py-0.5 text-xs rounded-full bg-orange-500 text-white">{duePuzzles.length}</span>
+                )}
+              </button>
             </div>
           </div>
           
-          {/* ELO Selection (only in coach mode) */}
-          {setupMode === "coach" && (
+          {/* ELO Selection (Maia plays the computer side, and the puzzle follow-ups) */}
+          {setupMode !== "pass-and-play" && (
             <div className="mb-6">
               <h2 className="text-lg font-semibold text-white text-center mb-4">Computer Strength</h2>
               <select
@@ -783,52 +1418,199 @@ export default function Home() {
                   </option>
                 ))}
               </select>
+              
+              {/* Adaptive strength — Maia adjusts to keep the games close */}
+              {setupMode === "coach" && (
+                <div className="mt-3 flex flex-col gap-2 text-sm text-neutral-300">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={setupAdaptiveTarget !== null}
+                      onChange={(e) => setSetupAdaptiveTarget(e.target.checked ? DEFAULT_TARGET_SCORE : null)}
+                      className="accent-amber-500"
+                    />
+                    Adapt to my results
+                  </label>
+                  {setupAdaptiveTarget !== null && (
+                    <div className="flex items-center justify-between gap-2 text-neutral-400">
+                      <span>
+                        Starts at {setupStartElo}
+                        {recentAdaptiveResults.length > 0 ? " from your recent games" : ""}
+                      </span>
+                      <select
+                        value={setupAdaptiveTarget}
+                        onChange={(e) => setSetupAdaptiveTarget(Number(e.target.value))}
+                        className="px-2 py-1 bg-neutral-700 text-white rounded-lg border border-neutral-600 focus:border-amber-500 focus:outline-none"
+                        title="Share of points Maia aims to let you score"
+                      >
+                        {TARGET_SCORE_OPTIONS.map((target) => (
+                          <option key={target} value={target}>Aim for {Math.round(target * 100)}%</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           )}
           
-          <h2 className="text-lg font-semibold text-white text-center mb-4">
-            {setupMode === "coach" ? "Choose Your Side" : "Choose Starting Side"}
-          </h2>
+          {/* Time control (puzzles are untimed) */}
+          {setupMode !== "puzzle" && (
+            <div className="mb-6">
+              <h2 className="text-lg font-semibold text-white text-center mb-4">Time Control</h2>
+              <TimeControlPicker value={setupTimeControl} onChange={setSetupTimeControl} />
+            </div>
+          )}
+          
+          {setupMode === "puzzle" ? (
+            <div className="flex flex-col gap-3 text-center">
+              <p className="text-neutral-400">
+                {puzzleDeck.length === 0
+                  ? "No puzzles yet — mistakes the coach catches in your games show up here."
+                  : `${puzzleDeck.length} ${puzzleDeck.length === 1 ? "puzzle" : "puzzles"} from your own mistakes — ${duePuzzles.length} due today.`}
+              </p>
+              <button
+                onClick={() => startPuzzles(duePuzzles)}
+                disabled={duePuzzles.length === 0}
+                className="flex items-center justify-center gap-3 px-6 py-4 bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-500 hover:to-orange-500 text-white font-semibold rounded-xl transition-all duration-200 hover:scale-105 disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <span className="text-2xl">🧩</span>
+                <span>Review Due Puzzles ({duePuzzles.length})</span>
+              </button>
+              <button
+                onClick={() => startPuzzles(puzzleDeck)}
+                disabled={puzzleDeck.length === 0}
+                className="px-6 py-3 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 font-medium rounded-xl transition-colors disabled:opacity-40 disabled:pointer-events-none"
+              >
+                Practice All Puzzles
+              </button>
+              <PuzzleDeckTransfer deck={puzzleDeck} />
+            </div>
+          ) : (
+            <>
+              <h2 className="text-lg font-semibold text-white text-center mb-4">
+                {setupMode === "coach" ? "Choose Your Side" : "Choose Starting Side"}
+              </h2>
           
-          <div className="flex flex-col gap-3">
-            <button
-              onClick={() => startGame("w", setupMode, selectedEloOption.elo)}
-              className="flex items-center justify-center gap-3 px-6 py-4 bg-white hover:bg-neutral-100 text-neutral-900 font-semibold rounded-xl transition-all duration-200 hover:scale-105"
-            >
-              <span className="text-2xl">♔</span>
-              <span>Play as White</span>
-            </button>
+              <div className="flex flex-col gap-3">
+                <button
+                  onClick={() => startSetupGame("w")}
+                  className="flex items-center justify-center gap-3 px-6 py-4 bg-white hover:bg-neutral-100 text-neutral-900 font-semibold rounded-xl transition-all duration-200 hover:scale-105"
+                >
+                  <span className="text-2xl">♔</span>
+                  <span>Play as White</span>
+                </button>
             
-            <button
-              onClick={() => startGame("b", setupMode, selectedEloOption.elo)}
-              className="flex items-center justify-center gap-3 px-6 py-4 bg-neutral-900 hover:bg-neutral-800 text-white font-semibold rounded-xl border-2 border-neutral-700 transition-all duration-200 hover:scale-105"
-            >
-              <span className="text-2xl">♚</span>
-              <span>Play as Black</span>
-            </button>
+                <button
+                  onClick={() => startSetupGame("b")}
+                  className="flex items-center justify-center gap-3 px-6 py-4 bg-neutral-900 hover:bg-neutral-800 text-white font-semibold rounded-xl border-2 border-neutral-700 transition-all duration-200 hover:scale-105"
+                >
+                  <span className="text-2xl">♚</span>
+                  <span>Play as Black</span>
+                </button>
             
-            <button
-              onClick={() => startGame("random", setupMode, selectedEloOption.elo)}
-              className="flex items-center justify-center gap-3 px-6 py-4 bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-500 hover:to-orange-500 text-white font-semibold rounded-xl transition-all duration-200 hover:scale-105"
-            >
-              <span className="text-2xl">🎲</span>
-              <span>Random</span>
-            </button>
-          </div>
+                <button
+                  onClick={() => startSetupGame("random")}
+                  className="flex items-center justify-center gap-3 px-6 py-4 bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-500 hover:to-orange-500 text-white font-semibold rounded-xl transition-all duration-200 hover:scale-105"
+                >
+                  <span className="text-2xl">🎲</span>
+                  <span>Random</span>
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* The user's rating against Maia */}
+        <div className="bg-neutral-800/50 rounded-2xl p-8 max-w-md w-full mt-6">
+          <h2 className="text-lg font-semibold text-white text-center mb-4">Your Rating</h2>
+          <RatingPanel
+            player={playerRating}
+            settings={ratingSettings}
+            suggestedElo={suggestOpponentElo(playerRating, ELO_OPTIONS.map((o) => o.elo))}
+            onUseSuggested={(elo) => {
+              setSetupElo(elo);
+              setSetupMode("coach");
+            }}
+          />
+        </div>
+
+        {/* Replay an imported game */}
+        <div className="bg-neutral-800/50 rounded-2xl p-8 max-w-md w-full mt-6">
+          <h2 className="text-lg font-semibold text-white text-center mb-4">Review a Game</h2>
+          <PgnImportPanel onImport={(games) => openReplay(games, 0)} />
+        </div>
+
+        {/* Finished games */}
+        <div className="bg-neutral-800/50 rounded-2xl p-8 max-w-md w-full mt-6">
+          <h2 className="text-lg font-semibold text-white text-center mb-4">Game Library</h2>
+          <GameLibrary
+            games={library}
+            onOpen={handleOpenLibraryGame}
+            onDelete={(id) => saveLibrary(removeLibraryGame(loadLibrary(), id))}
+            onExport={handleExportLibrary}
+          />
         </div>
       </div>
     );
   }
 
-  // Calculate arrow position for best move hint
-  const getSquarePosition = (square: string) => {
-    const col = COLUMNS.indexOf(square[0]);
-    const row = ROWS.indexOf(square[1]);
-    // Adjust for board orientation
-    const displayCol = boardOrientation === "w" ? col : 7 - col;
-    const displayRow = boardOrientation === "w" ? row : 7 - row;
-    return { x: displayCol * 64 + 32, y: displayRow * 64 + 32 };
-  };
+  // What the board shows: the live game, or the ghost line in Ghost Mode
+  const isGhostMode = ghostLine !== null;
+  const isReviewing = viewId !== null && !isGhostMode && !intervention.isActive && !exercise;
+  const isBoardInteractive = exercise ? !exercise.result
+    : puzzleSession ? !puzzleSession.result
+    : !gameResult && !isGhostMode && !isReviewing && !replay;
+  let boardPosition = game;
+  let boardLastMove: { from: string; to: string } | null = lastMove ?? null;
+  const boardArrows: BoardArrow[] = [];
+  let ghostSquares: string[] = [];
+  
+  if (isGhostMode && intervention.fenBeforeMove) {
+    const shown = ghostLine.slice(0, ghostStep);
+    boardPosition = new Chess(shown.length > 0 ? shown[shown.length - 1].fenAfter : intervention.fenBeforeMove);
+    boardLastMove = null;
+    ghostSquares = shown.map((m) => m.to);
+    // The user's mistake, faded out
+    if (intervention.userMoveFrom && intervention.userMoveTo) {
+      boardArrows.push({ from: intervention.userMoveFrom, to: intervention.userMoveTo, color: "#ef4444", opacity: 0.25 });
+    }
+    // The better line, latest move brightest
+    shown.forEach((m, i) => {
+      boardArrows.push({ from: m.from, to: m.to, color: "#22c55e", opacity: i === shown.length - 1 ? 0.85 : 0.35 });
+    });
+  } else if (exercise) {
+    // "Find the best move" — once answered, show the answer and Maia's top move
+    boardPosition = new Chess(exercise.moment.fen);
+    boardLastMove = null;
+    if (exercise.result) {
+      const { uci, verdict } = exercise.result;
+      if (verdict !== "best") {
+        boardArrows.push({ from: uci.slice(0, 2), to: uci.slice(2, 4), color: "#3b82f6", opacity: 0.6 });
+      }
+      boardArrows.push({ from: exercise.moment.bestMove.slice(0, 2), to: exercise.moment.bestMove.slice(2, 4), color: "#22c55e", opacity: 0.85 });
+    }
+  } else if (isReviewing) {
+    // A move picked from the move list, shown read-only
+    const node = gameTree.nodes[viewId];
+    boardPosition = new Chess(node.fen);
+    boardLastMove = node.uci ? { from: node.uci.slice(0, 2), to: node.uci.slice(2, 4) } : null;
+  } else if (previewCandidate && intervention.isActive && intervention.fenBeforeMove) {
+    // Previewing an alternative from the coach modal, on the position before the mistake
+    boardPosition = new Chess(intervention.fenBeforeMove);
+    boardLastMove = null;
+    boardArrows.push({ from: previewCandidate.from, to: previewCandidate.to, color: "#3b82f6", opacity: 0.85 });
+  } else if (puzzleSession?.result && !puzzleSession.result.correct) {
+    // A wrong puzzle answer, and Maia's move once the solution is shown
+    const { result, showSolution, queue, index } = puzzleSession;
+    boardArrows.push({ from: result.uci.slice(0, 2), to: result.uci.slice(2, 4), color: "#ef4444", opacity: 0.6 });
+    if (showSolution) {
+      const { bestMove } = queue[index];
+      boardArrows.push({ from: bestMove.slice(0, 2), to: bestMove.slice(2, 4), color: "#22c55e", opacity: 0.85 });
+    }
+  } else if (showBestMoveArrow && evaluation && !isEvalLoading && gameMode !== "puzzle") {
+    boardArrows.push({ from: evaluation.from, to: evaluation.to, color: "#22c55e" });
+  }
 
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-neutral-950 via-neutral-900 to-neutral-950 p-8">
@@ -840,16 +1622,18 @@ export default function Home() {
         <p className="text-neutral-400 text-lg">{getStatusMessage()}</p>
       </div>
 
-      {/* Top Clock - opponent's clock */}
-      <div className="mb-4">
-        <PlayerClock 
-          time={boardOrientation === "w" ? blackTime : whiteTime} 
-          isActive={gameStarted && !gameOver && game.turn() === (boardOrientation === "w" ? "b" : "w")} 
-          isWhite={boardOrientation !== "w"}
-          materialAdvantage={material.advantage}
-          isThinking={gameMode === "coach" && isAiThinking}
-        />
-      </div>
+      {/* Top Clock - opponent's clock (puzzles are untimed) */}
+      {gameMode !== "puzzle" && timeControl.initial !== null && (
+        <div className="mb-4">
+          <PlayerClock 
+            time={boardOrientation === "w" ? clockTimes.b : clockTimes.w} 
+            isActive={gameStarted && !gameResult && game.turn() === (boardOrientation === "w" ? "b" : "w")} 
+            isWhite={boardOrientation !== "w"}
+            materialAdvantage={material.advantage}
+            isThinking={gameMode === "coach" && isAiThinking}
+          />
+        </div>
+      )}
 
       {/* Board container with eval bar */}
       <div className="flex items-center gap-4">
@@ -860,160 +1644,122 @@ export default function Home() {
         />
         
         {/* Board container */}
-        <div className={`relative transition-all duration-300 ${intervention.isActive ? "opacity-50 pointer-events-none" : ""}`}>
+        <div className={`relative transition-all duration-300 ${intervention.isActive && !isGhostMode ? `pointer-events-none ${previewCandidate ? "" : "opacity-50"}` : ""}`}>
         {/* Board shadow/glow */}
         <div className="absolute -inset-4 bg-gradient-to-br from-amber-500/20 to-orange-600/20 rounded-2xl blur-xl" />
         
-        {/* Board frame */}
-        <div className="relative bg-gradient-to-br from-amber-900 to-amber-950 p-3 rounded-xl shadow-2xl">
-          {/* Coordinates - top */}
-          <div className="flex mb-1">
-            <div className="w-6" />
-            {displayCols.map((col) => (
-              <div key={col} className="w-16 text-center text-amber-600/60 text-xs font-medium uppercase">
-                {col}
-              </div>
-            ))}
-            <div className="w-6" />
-          </div>
+        <ChessBoard
+          position={boardPosition}
+          orientation={exercise?.moment.color ?? boardOrientation}
+          selectedSquare={isGhostMode || isReviewing ? null : selectedSquare}
+          validMoves={isGhostMode || isReviewing ? [] : validMoves}
+          lastMove={boardLastMove}
+          arrows={boardArrows}
+          ghostSquares={ghostSquares}
+          interactive={isBoardInteractive}
+          onSquareClick={handleSquareClick}
+          promotion={
+            // A promotion waits on the pawn still selected on a live board
+            pendingPromotion && pendingPromotion.from === selectedSquare && isBoardInteractive
+              ? { square: pendingPromotion.to, color: pendingPromotion.color }
+              : null
+          }
+          onPromotionSelect={handlePromotionSelect}
+          onPromotionCancel={handlePromotionCancel}
+        />
+        </div>
+        
+        {/* Move list */}
+        <MoveList
+          tree={gameTree}
+          viewId={isReviewing ? viewId : null}
+          onSelect={handleSelectMove}
+          onBackToLive={() => setViewId(null)}
+        />
+      </div>
 
-          <div className="flex">
-            {/* Coordinates - left */}
-            <div className="flex flex-col justify-around w-6">
-              {displayRows.map((row) => (
-                <div key={row} className="h-16 flex items-center justify-center text-amber-600/60 text-xs font-medium">
-                  {row}
-                </div>
-              ))}
-            </div>
+      {/* Replay viewer controls */}
+      {replay && (
+        <ReplayPanel
+          games={replay.games}
+          index={replay.index}
+          onSelectGame={(index) => openReplay(replay.games, index)}
+          elo={setupElo}
+          eloOptions={ELO_OPTIONS}
+          onEloChange={setSetupElo}
+          canTakeOver={!getGameAt(gameTree, viewId ?? gameTree.currentId).isGameOver()}
+          onTakeOver={handleTakeOver}
+          onClose={resetGame}
+        />
+      )}
+      {replay && (
+        <AnalysisReport
+          games={replay.games}
+          elo={setupElo}
+          onAnalyzed={handleAnalyzed}
+          onJump={(index, nodeId) => openReplay(replay.games, index, nodeId)}
+        />
+      )}
 
-            {/* Board */}
-            <div className="grid grid-cols-8 rounded-md overflow-hidden shadow-inner">
-              {displayRows.map((row, rowIndex) =>
-                displayCols.map((col, colIndex) => {
-                  const square = `${col}${row}` as Square;
-                  const piece = game.get(square);
-                  const isSelected = selectedSquare === square;
-                  const isValidMove = validMoves.includes(square);
-                  const isCapture = isValidMove && piece;
-                  const light = isLight(colIndex, rowIndex);
-                  const isLastMoveSquare = lastMove && (lastMove.from === square || lastMove.to === square);
-                  const isKingInCheck = game.isCheck() && piece?.type === "k" && piece?.color === game.turn();
-
-                  return (
-                    <div
-                      key={square}
-                      onClick={() => handleSquareClick(square)}
-                      className={`
-                        w-16 h-16 flex items-center justify-center cursor-pointer relative
-                        transition-all duration-150
-                        ${light 
-                          ? "bg-[#f0d9b5]" 
-                          : "bg-[#b58863]"
-                        }
-                        ${isKingInCheck
-                          ? "!bg-red-500"
-                          : ""
-                        }
-                        ${isSelected 
-                          ? "!bg-[#829769]" 
-                          : ""
-                        }
-                        ${isLastMoveSquare && !isSelected && !isKingInCheck
-                          ? light ? "!bg-[#cdd26a]" : "!bg-[#aaa23a]"
-                          : ""
-                        }
-                        ${isValidMove && !isCapture && !isSelected
-                          ? light ? "!bg-[#e8e4a0]" : "!bg-[#b8b468]"
-                          : ""
-                        }
-                        hover:brightness-110
-                        ${gameOver ? "pointer-events-none" : ""}
-                      `}
-                    >
-                      {/* Valid move dot */}
-                      {isValidMove && !piece && (
-                        <div className="absolute w-4 h-4 rounded-full bg-black/25" />
-                      )}
-                      
-                      {/* Capture ring */}
-                      {isCapture && (
-                        <div className="absolute inset-1 rounded-full border-[3px] border-red-500/70" />
-                      )}
-
-                      {/* Piece */}
-                      {piece && getPiece(piece.color, piece.type)}
-                    </div>
-                  );
-                })
-              )}
-            </div>
-            
-            {/* Best move arrow overlay */}
-            {showBestMoveArrow && evaluation && !isEvalLoading && (
-              <svg 
-                className="absolute top-0 left-6 w-[512px] h-[512px] pointer-events-none"
-                style={{ zIndex: 10 }}
-              >
-                <defs>
-                  <marker
-                    id="arrowhead"
-                    markerWidth="10"
-                    markerHeight="7"
-                    refX="9"
-                    refY="3.5"
-                    orient="auto"
-                  >
-                    <polygon points="0 0, 10 3.5, 0 7" fill="#22c55e" />
-                  </marker>
-                </defs>
-                <line
-                  x1={getSquarePosition(evaluation.from).x}
-                  y1={getSquarePosition(evaluation.from).y}
-                  x2={getSquarePosition(evaluation.to).x}
-                  y2={getSquarePosition(evaluation.to).y}
-                  stroke="#22c55e"
-                  strokeWidth="8"
-                  strokeLinecap="round"
-                  markerEnd="url(#arrowhead)"
-                  opacity="0.8"
-                />
-              </svg>
-            )}
-
-            {/* Coordinates - right */}
-            <div className="flex flex-col justify-around w-6">
-              {displayRows.map((row) => (
-                <div key={row} className="h-16 flex items-center justify-center text-amber-600/60 text-xs font-medium">
-                  {row}
-                </div>
-              ))}
-            </div>
-          </div>
+      {/* Puzzle mode controls */}
+      {puzzleSession && (
+        <PuzzlePanel
+          puzzle={puzzleSession.queue[puzzleSession.index]}
+          index={puzzleSession.index}
+          total={puzzleSession.queue.length}
+          result={puzzleSession.result}
+          showSolution={puzzleSession.showSolution}
+          reply={isPuzzleSolved && game.history().length > 1 ? lastMove?.san ?? null : null}
+          isReplying={isPuzzleSolved && game.turn() !== playerColor && !game.isGameOver()}
+          onRetry={() => showPuzzle(puzzleSession.queue, puzzleSession.index, true)}
+          onShowSolution={() => setPuzzleSession({ ...puzzleSession, showSolution: true })}
+          onNext={handleNextPuzzle}
+          onRemove={handleRemovePuzzle}
+        />
+      )}
 
-          {/* Coordinates - bottom */}
-          <div className="flex mt-1">
-            <div className="w-6" />
-            {displayCols.map((col) => (
-              <div key={col} className="w-16 text-center text-amber-600/60 text-xs font-medium uppercase">
-                {col}
-              </div>
-            ))}
-            <div className="w-6" />
-          </div>
-        </div>
-        </div>
-      </div>
+      {/* Post-game review */}
+      {gameResult && gameResult.reason !== "abort" && !replay && (
+        <GameReview
+          tree={gameTree}
+          selectedId={viewId ?? gameTree.currentId}
+          onSelect={handleSelectMove}
+        />
+      )}
+      {gameResult && gameResult.reason !== "abort" && !replay && (
+        <CriticalMoments
+          key={gameDate.getTime()}
+          tree={gameTree}
+          elo={aiElo + 200}
+          color={gameMode === "coach" ? playerColor : undefined}
+          exercise={exercise}
+          onStartExercise={handleStartExercise}
+          onEndExercise={handleEndExercise}
+        />
+      )}
 
-      {/* Bottom Clock - player's clock */}
-      <div className="mt-4">
-        <PlayerClock 
-          time={boardOrientation === "w" ? whiteTime : blackTime} 
-          isActive={gameStarted && !gameOver && game.turn() === boardOrientation} 
-          isWhite={boardOrientation === "w"}
-          materialAdvantage={material.advantage}
+      {/* Ghost line controls (Phase 5) */}
+      {isGhostMode && (
+        <GhostLinePanel
+          line={ghostLine}
+          step={ghostStep}
+          isLoading={isGhostLoading}
+          onReplay={handleReplayLine}
+          onGotIt={handleGotIt}
         />
-      </div>
+      )}
+
+      {/* Bottom Clock - player's clock */}
+      {gameMode !== "puzzle" && timeControl.initial !== null && (
+        <div className="mt-4">
+          <PlayerClock 
+            time={boardOrientation === "w" ? clockTimes.w : clockTimes.b} 
+            isActive={gameStarted && !gameResult && game.turn() === boardOrientation} 
+            isWhite={boardOrientation === "w"}
+            materialAdvantage={material.advantage}
+          />
+        </div>
+      )}
 
       {/* Controls */}
       <div className="mt-6 flex items-center gap-4">
@@ -1036,21 +1782,72 @@ export default function Home() {
         >
           {showBestMoveArrow ? "🎯 Hints On" : "🎯 Hints Off"}
         </button>
+        
+        {/* PGN export */}
+        <button
+          onClick={handleExportPgn}
+          disabled={gameTree.nodes[gameTree.rootId].children.length === 0}
+          className="px-4 py-3 rounded-lg font-medium bg-neutral-700 text-neutral-300 hover:bg-neutral-600 transition-all disabled:opacity-40 disabled:pointer-events-none"
+          title="Download the game as PGN"
+        >
+          ⬇️ Export PGN
+        </button>
       </div>
 
+      {/* Resign, draw offer and abort */}
+      {!gameResult && !replay && gameMode !== "puzzle" && !intervention.isActive && !isGhostMode && (
+        <GameActions
+          canAbort={canAbort}
+          canOfferDraw={canOfferDraw}
+          drawOffer={currentDrawOffer}
+          opponentName={gameMode === "coach" ? "Maia" : actingColor === "w" ? "Black" : "White"}
+          canAnswerDraw={gameMode !== "coach"}
+          onAbort={handleAbort}
+          onResign={handleResign}
+          onOfferDraw={handleOfferDraw}
+          onAnswerDraw={handleAnswerDraw}
+        />
+      )}
+
       {/* Move count */}
       <p className="mt-3 text-neutral-500 text-sm">
-        Move {Math.floor(game.history().length / 2) + 1} • {gameMode === "coach" ? `vs Computer (${ELO_OPTIONS.find(o => o.elo === aiElo)?.label || "Custom"})` : "Pass & Play"} • 10 min
+        {gameMode === "puzzle"
+          ? `Puzzle mode • ${puzzleDeck.length} in your deck`
+          : <>Move {Math.floor(game.history().length / 2) + 1} • {gameMode !== "coach"
+            ? "Pass & Play"
+            : adaptiveTarget !== null
+              ? `vs Computer (adaptive, now ${opponentElo})`
+              : `vs Computer (${ELO_OPTIONS.find(o => o.elo === aiElo)?.label || "Custom"})`} • {formatTimeControl(timeControl)}</>}
       </p>
 
-      {/* Coach Modal (Phase 3) */}
-      <CoachModal
-        intervention={intervention}
-        playerColor={playerColor}
-        onRetry={handleRetry}
-        onExplain={handleExplain}
-        onContinue={handleContinue}
-      />
+      {/* Coach toast for inaccuracies */}
+      {coachToast && (
+        <CoachToast
+          severity={coachToast.severity}
+          move={coachToast.move}
+          motifs={coachToast.motifs}
+          onDismiss={() => setCoachToast(null)}
+        />
+      )}
+
+      {/* Coach Modal (Phase 3) — hidden while the better line plays */}
+      {!isGhostMode && (
+        <CoachModal
+          intervention={intervention}
+          playerColor={playerColor}
+          explanation={explanation}
+          isExplaining={isExplaining}
+          explanationError={explanationError}
+          explanationLatency={explanationLatency}
+          candidates={candidates}
+          previewMove={previewCandidate?.uci ?? null}
+          onHoverCandidate={setPreviewCandidate}
+          onRetry={handleRetry}
+          onExplain={handleExplain}
+          onShowLine={handleShowLine}
+          onContinue={handleContinue}
+        />
+      )}
     </div>
   );
 }
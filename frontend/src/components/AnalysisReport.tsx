@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { type BatchProgress, type BatchReport, analyzeGames } from "../lib/batch-analysis";
+import { SEVERITY_LABELS } from "../lib/intervention";
+import type { ImportedGame } from "../lib/pgn";
+
+const SEVERITY_TEXT_CLASSES = {
+  inaccuracy: "text-sky-400",
+  mistake: "text-amber-400",
+  blunder: "text-red-400",
+  "missed-win": "text-purple-400",
+} as const;
+
+interface AnalysisReportProps {
+  games: ImportedGame[];
+  /** ELO used for the analysis and the severity bands */
+  elo: number;
+  /** Called once a run finishes (or is cancelled) with the annotated games */
+  onAnalyzed: (report: BatchReport) => void;
+  /** Show a move on the board */
+  onJump: (gameIndex: number, nodeId: number) => void;
+}
+
+/**
+ * Post-game analysis of imported games: runs the whole file through Maia2
+ * and lists each game's mistakes with the recommended move.
+ */
+export function AnalysisReport({ games, elo, onAnalyzed, onJump }: AnalysisReportProps) {
+  const [player, setPlayer] = useState("");
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [report, setReport] = useState<BatchReport | null>(null);
+  const abort = useRef<AbortController | null>(null);
+  // Latest callback, so a long run reports into the viewer as it is when the run ends
+  const onAnalyzedRef = useRef(onAnalyzed);
+
+  useEffect(() => {
+    onAnalyzedRef.current = onAnalyzed;
+  });
+
+  // Stop a running analysis when the viewer closes, and drop its result
+  useEffect(() => () => {
+    abort.current?.abort();
+    abort.current = null;
+  }, []);
+
+  const players = [...new Set(games.flatMap((game) => [game.headers.White, game.headers.Black]))]
+    .filter((name): name is string => !!name && name !== "?")
+    .sort();
+
+  const handleAnalyze = async () => {
+    const controller = new AbortController();
+    abort.current = controller;
+    setReport(null);
+    setProgress({ gameIndex: 0, gameCount: games.length, done: 0, total: 1 });
+    const result = await analyzeGames(games, {
+      elo,
+      player: player || undefined,
+      signal: controller.signal,
+      onProgress: setProgress,
+    });
+    if (abort.current !== controller) return;
+    abort.current = null;
+    setProgress(null);
+    setReport(result);
+    onAnalyzedRef.current(result);
+  };
+
+  const isRunning = progress !== null;
+
+  return (
+    <div className="mt-4 w-full max-w-xl bg-neutral-900/80 border border-neutral-700 rounded-xl px-4 py-3 flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <select
+          value={player}
+          onChange={(e) => setPlayer(e.target.value)}
+          disabled={isRunning}
+          className="flex-1 px-3 py-2 bg-neutral-800 text-neutral-200 text-sm rounded-lg border border-neutral-700 focus:border-amber-500 focus:outline-none"
+          title="Whose moves to grade"
+        >
+          <option value="">Both sides</option>
+          {players.map((name) => (
+            <option key={name} value={name}>
+              {name}&apos;s moves
+            </option>
+          ))}
+        </select>
+        {isRunning ? (
+          <button
+            onClick={() => abort.current?.abort()}
+            className="px-4 py-2 text-sm font-semibold bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={handleAnalyze}
+            className="px-4 py-2 text-sm font-semibold bg-amber-600 hover:bg-amber-500 text-white rounded-lg transition-colors"
+          >
+            Analyze {games.length > 1 ? `${games.length} games` : "game"}
+          </button>
+        )}
+      </div>
+
+      {progress && (
+        <div>
+          <div className="h-1.5 bg-neutral-800 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-amber-500 transition-all"
+              style={{ width: `${Math.round((progress.done / progress.total) * 100)}%` }}
+            />
+          </div>
+          <p className="mt-1 text-xs text-neutral-500">
+            Game {progress.gameIndex + 1} of {progress.gameCount} • {progress.done}/{progress.total} positions
+          </p>
+        </div>
+      )}
+
+      {report && (
+        <div className="flex flex-col gap-3 max-h-64 overflow-y-auto text-sm">
+          {report.cancelled && (
+            <p className="text-xs text-neutral-500">
+              Analysis cancelled after {report.games.length} of {games.length} games.
+            </p>
+          )}
+          {report.games.map((game) => (
+            <div key={game.index}>
+              <div className="text-neutral-300 font-semibold">
+                {game.index + 1}. {game.headers.White ?? "?"} vs {game.headers.Black ?? "?"}
+                <span className="ml-2 text-xs font-normal text-neutral-500">
+                  {game.mistakes.length === 0 ? "no mistakes found" : `${game.mistakes.length} to review`}
+                  {game.failedPositions > 0 && ` • ${game.failedPositions} positions not analyzed`}
+                </span>
+              </div>
+              {game.mistakes.map((mistake) => (
+                <button
+                  key={mistake.nodeId}
+                  onClick={() => onJump(game.index, mistake.nodeId)}
+                  className="w-full flex items-center justify-between gap-2 px-2 py-0.5 rounded text-left hover:bg-neutral-800"
+                >
+                  <span className="font-mono text-neutral-200">
+                    {mistake.moveNumber}
+                    {mistake.color === "w" ? ". " : "... "}
+                    {mistake.san}
+                    <span className={`ml-2 font-sans text-xs ${SEVERITY_TEXT_CLASSES[mistake.severity]}`}>
+                      {SEVERITY_LABELS[mistake.severity]}
+                    </span>
+                  </span>
+                  {mistake.bestMoveSan && (
+                    <span className="text-xs text-neutral-500">
+                      Best: <span className="font-mono text-green-400">{mistake.bestMoveSan}</span>
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
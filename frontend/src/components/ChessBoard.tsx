@@ -0,0 +1,435 @@
+"use client";
+
+import { useEffect } from "react";
+import { Chess, Square } from "chess.js";
+import { PROMOTION_PIECES, type PromotionPiece, getPromotionPieceForKey } from "../lib/chess-utils";
+
+const COLUMNS = ["a", "b", "c", "d", "e", "f", "g", "h"];
+const ROWS = ["8", "7", "6", "5", "4", "3", "2", "1"];
+const SQUARE_SIZE = 64; // px — matches the w-16/h-16 squares
+
+/** An arrow drawn over the board (e.g. best-move hint, ghost line) */
+export interface BoardArrow {
+  from: string;
+  to: string;
+  /** Stroke color (CSS) */
+  color: string;
+  opacity?: number;
+}
+
+interface ChessBoardProps {
+  /** Position to render */
+  position: Chess;
+  /** "w" = white at the bottom */
+  orientation: "w" | "b";
+  selectedSquare?: Square | null;
+  validMoves?: Square[];
+  /** Squares of the last move, highlighted */
+  lastMove?: { from: string; to: string } | null;
+  arrows?: BoardArrow[];
+  /** Squares whose pieces are drawn as semi-transparent "ghost" pieces */
+  ghostSquares?: string[];
+  /** When false, squares ignore clicks */
+  interactive?: boolean;
+  onSquareClick?: (square: Square) => void;
+  /** A pawn promoting on this square waits for the piece to be chosen */
+  promotion?: { square: Square; color: "w" | "b" } | null;
+  onPromotionSelect?: (piece: PromotionPiece) => void;
+  onPromotionCancel?: () => void;
+}
+
+// SVG Chess Pieces
+const pieces: Record<string, React.ReactNode> = {
+  wK: (
+    <svg viewBox="0 0 45 45" className="w-14 h-14">
+      <g fill="none" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
+        <path strokeLinejoin="miter" d="M22.5 11.63V6M20 8h5"/>
+        <path fill="#fff" strokeLinecap="butt" strokeLinejoin="miter" d="M22.5 25s4.5-7.5 3-10.5c0 0-1-2.5-3-2.5s-3 2.5-3 2.5c-1.5 3 3 10.5 3 10.5"/>
+        <path fill="#fff" d="M12.5 37c5.5 3.5 14.5 3.5 20 0v-7s9-4.5 6-10.5c-4-6.5-13.5-3.5-16 4V27v-3.5c-2.5-7.5-12-10.5-16-4-3 6 6 10.5 6 10.5v7"/>
+        <path d="M12.5 30c5.5-3 14.5-3 20 0M12.5 33.5c5.5-3 14.5-3 20 0M12.5 37c5.5-3 14.5-3 20 0"/>
+      </g>
+    </svg>
+  ),
+  wQ: (
+    <svg viewBox="0 0 45 45" className="w-14 h-14">
+      <g fill="#fff" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
+        <path d="M9 26c8.5-1.5 21-1.5 27 0l2.5-12.5L31 25l-.3-14.1-5.2 13.6-3-14.5-3 14.5-5.2-13.6L14 25 6.5 13.5 9 26z"/>
+        <path d="M9 26c0 2 1.5 2 2.5 4 1 1.5 1 1 .5 3.5-1.5 1-1 2.5-1 2.5-1.5 1.5 0 2.5 0 2.5 6.5 1 16.5 1 23 0 0 0 1.5-1 0-2.5 0 0 .5-1.5-1-2.5-.5-2.5-.5-2 .5-3.5 1-2 2.5-2 2.5-4-8.5-1.5-18.5-1.5-27 0z"/>
+        <path fill="none" d="M11.5 30c3.5-1 18.5-1 22 0M12 33.5c6-1 15-1 21 0"/>
+        <circle cx="6" cy="12" r="2"/>
+        <circle cx="14" cy="9" r="2"/>
+        <circle cx="22.5" cy="8" r="2"/>
+        <circle cx="31" cy="9" r="2"/>
+        <circle cx="39" cy="12" r="2"/>
+      </g>
+    </svg>
+  ),
+  wR: (
+    <svg viewBox="0 0 45 45" className="w-14 h-14">
+      <g fill="#fff" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
+        <path strokeLinecap="butt" d="M9 39h27v-3H9v3zM12 36v-4h21v4H12zM11 14V9h4v2h5V9h5v2h5V9h4v5"/>
+        <path d="M34 14l-3 3H14l-3-3"/>
+        <path strokeLinecap="butt" strokeLinejoin="miter" d="M31 17v12.5H14V17"/>
+        <path d="M31 29.5l1.5 2.5h-20l1.5-2.5"/>
+        <path fill="none" strokeLinejoin="miter" d="M11 14h23"/>
+      </g>
+    </svg>
+  ),
+  wB: (
+    <svg viewBox="0 0 45 45" className="w-14 h-14">
+      <g fill="none" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
+        <g fill="#fff" strokeLinecap="butt">
+          <path d="M9 36c3.39-.97 10.11.43 13.5-2 3.39 2.43 10.11 1.03 13.5 2 0 0 1.65.54 3 2-.68.97-1.65.99-3 .5-3.39-.97-10.11.46-13.5-1-3.39 1.46-10.11.03-13.5 1-1.35.49-2.32.47-3-.5 1.35-1.46 3-2 3-2z"/>
+          <path d="M15 32c2.5 2.5 12.5 2.5 15 0 .5-1.5 0-2 0-2 0-2.5-2.5-4-2.5-4 5.5-1.5 6-11.5-5-15.5-11 4-10.5 14-5 15.5 0 0-2.5 1.5-2.5 4 0 0-.5.5 0 2z"/>
+          <path d="M25 8a2.5 2.5 0 1 1-5 0 2.5 2.5 0 1 1 5 0z"/>
+        </g>
+        <path strokeLinejoin="miter" d="M17.5 26h10M15 30h15m-7.5-14.5v5M20 18h5"/>
+      </g>
+    </svg>
+  ),
+  wN: (
+    <svg viewBox="0 0 45 45" className="w-14 h-14">
+      <g fill="none" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
+        <path fill="#fff" d="M22 10c10.5 1 16.5 8 16 29H15c0-9 10-6.5 8-21"/>
+        <path fill="#fff" d="M24 18c.38 2.91-5.55 7.37-8 9-3 2-2.82 4.34-5 4-1.042-.94 1.41-3.04 0-3-1 0 .19 1.23-1 2-1 0-4.003 1-4-4 0-2 6-12 6-12s1.89-1.9 2-3.5c-.73-.994-.5-2-.5-3 1-1 3 2.5 3 2.5h2s.78-1.992 2.5-3c1 0 1 3 1 3"/>
+        <path fill="#000" d="M9.5 25.5a.5.5 0 1 1-1 0 .5.5 0 1 1 1 0zM14.933 15.75a.5 1.5 30 1 1-.866-.5.5 1.5 30 1 1 .866.5z"/>
+      </g>
+    </svg>
+  ),
+  wP: (
+    <svg viewBox="0 0 45 45" className="w-14 h-14">
+      <path fill="#fff" stroke="#000" strokeLinecap="round" strokeWidth="1.5" d="M22.5 9c-2.21 0-4 1.79-4 4 0 .89.29 1.71.78 2.38C17.33 16.5 16 18.59 16 21c0 2.03.94 3.84 2.41 5.03-3 1.06-7.41 5.55-7.41 13.47h23c0-7.92-4.41-12.41-7.41-13.47 1.47-1.19 2.41-3 2.41-5.03 0-2.41-1.33-4.5-3.28-5.62.49-.67.78-1.49.78-2.38 0-2.21-1.79-4-4-4z"/>
+    </svg>
+  ),
+  bK: (
+    <svg viewBox="0 0 45 45" className="w-14 h-14">
+      <g fill="none" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
+        <path strokeLinejoin="miter" d="M22.5 11.63V6"/>
+        <path fill="#000" strokeLinejoin="miter" d="M22.5 25s4.5-7.5 3-10.5c0 0-1-2.5-3-2.5s-3 2.5-3 2.5c-1.5 3 3 10.5 3 10.5"/>
+        <path fill="#000" d="M12.5 37c5.5 3.5 14.5 3.5 20 0v-7s9-4.5 6-10.5c-4-6.5-13.5-3.5-16 4V27v-3.5c-2.5-7.5-12-10.5-16-4-3 6 6 10.5 6 10.5v7"/>
+        <path strokeLinejoin="miter" d="M20 8h5"/>
+        <path stroke="#fff" d="M12.5 30c5.5-3 14.5-3 20 0m-20 3.5c5.5-3 14.5-3 20 0m-20 3.5c5.5-3 14.5-3 20 0"/>
+      </g>
+    </svg>
+  ),
+  bQ: (
+    <svg viewBox="0 0 45 45" className="w-14 h-14">
+      <g fill="#000" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
+        <g stroke="none">
+          <circle cx="6" cy="12" r="2.75"/>
+          <circle cx="14" cy="9" r="2.75"/>
+          <circle cx="22.5" cy="8" r="2.75"/>
+          <circle cx="31" cy="9" r="2.75"/>
+          <circle cx="39" cy="12" r="2.75"/>
+        </g>
+        <path strokeLinecap="butt" d="M9 26c8.5-1.5 21-1.5 27 0l2.5-12.5L31 25l-.3-14.1-5.2 13.6-3-14.5-3 14.5-5.2-13.6L14 25 6.5 13.5 9 26z"/>
+        <path strokeLinecap="butt" d="M9 26c0 2 1.5 2 2.5 4 1 1.5 1 1 .5 3.5-1.5 1-1 2.5-1 2.5-1.5 1.5 0 2.5 0 2.5 6.5 1 16.5 1 23 0 0 0 1.5-1 0-2.5 0 0 .5-1.5-1-2.5-.5-2.5-.5-2 .5-3.5 1-2 2.5-2 2.5-4-8.5-1.5-18.5-1.5-27 0z"/>
+        <path fill="none" stroke="#fff" d="M11.5 30c3.5-1 18.5-1 22 0M12 33.5c6-1 15-1 21 0"/>
+      </g>
+    </svg>
+  ),
+  bR: (
+    <svg viewBox="0 0 45 45" className="w-14 h-14">
+      <g fill="#000" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
+        <path strokeLinecap="butt" d="M9 39h27v-3H9v3zM12.5 32l1.5-2.5h17l1.5 2.5h-20zM12 36v-4h21v4H12z"/>
+        <path strokeLinecap="butt" strokeLinejoin="miter" d="M14 29.5v-13h17v13H14z"/>
+        <path strokeLinecap="butt" d="M14 16.5L11 14h23l-3 2.5H14zM11 14V9h4v2h5V9h5v2h5V9h4v5H11z"/>
+        <path fill="none" stroke="#fff" strokeLinejoin="miter" strokeWidth="1" d="M12 35.5h21M13 31.5h19M14 29.5h17M14 16.5h17M11 14h23"/>
+      </g>
+    </svg>
+  ),
+  bB: (
+    <svg viewBox="0 0 45 45" className="w-14 h-14">
+      <g fill="none" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
+        <g fill="#000" strokeLinecap="butt">
+          <path d="M9 36c3.39-.97 10.11.43 13.5-2 3.39 2.43 10.11 1.03 13.5 2 0 0 1.65.54 3 2-.68.97-1.65.99-3 .5-3.39-.97-10.11.46-13.5-1-3.39 1.46-10.11.03-13.5 1-1.35.49-2.32.47-3-.5 1.35-1.46 3-2 3-2z"/>
+          <path d="M15 32c2.5 2.5 12.5 2.5 15 0 .5-1.5 0-2 0-2 0-2.5-2.5-4-2.5-4 5.5-1.5 6-11.5-5-15.5-11 4-10.5 14-5 15.5 0 0-2.5 1.5-2.5 4 0 0-.5.5 0 2z"/>
+          <path d="M25 8a2.5 2.5 0 1 1-5 0 2.5 2.5 0 1 1 5 0z"/>
+        </g>
+        <path stroke="#fff" strokeLinejoin="miter" d="M17.5 26h10M15 30h15m-7.5-14.5v5M20 18h5"/>
+      </g>
+    </svg>
+  ),
+  bN: (
+    <svg viewBox="0 0 45 45" className="w-14 h-14">
+      <g fill="none" fillRule="evenodd" stroke="#000" strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5">
+        <path fill="#000" d="M22 10c10.5 1 16.5 8 16 29H15c0-9 10-6.5 8-21"/>
+        <path fill="#000" d="M24 18c.38 2.91-5.55 7.37-8 9-3 2-2.82 4.34-5 4-1.042-.94 1.41-3.04 0-3-1 0 .19 1.23-1 2-1 0-4.003 1-4-4 0-2 6-12 6-12s1.89-1.9 2-3.5c-.73-.994-.5-2-.5-3 1-1 3 2.5 3 2.5h2s.78-1.992 2.5-3c1 0 1 3 1 3"/>
+        <path fill="#fff" d="M9.5 25.5a.5.5 0 1 1-1 0 .5.5 0 1 1 1 0z"/>
+        <path fill="#fff" stroke="#fff" d="M14.933 15.75a.5 1.5 30 1 1-.866-.5.5 1.5 30 1 1 .866.5z"/>
+        <path fill="none" stroke="#fff" strokeLinejoin="miter" d="M24.55 10.4l-.45 1.45.5.15c3.15 1 5.65 2.49 7.9 6.75S35.75 29.06 35.25 39l-.05.5h2.25l.05-.5c.5-10.06-.88-16.85-3.25-21.34-2.37-4.49-5.79-6.64-9.19-7.16l-.51-.1z"/>
+      </g>
+    </svg>
+  ),
+  bP: (
+    <svg viewBox="0 0 45 45" className="w-14 h-14">
+      <path fill="#000" stroke="#000" strokeLinecap="round" strokeWidth="1.5" d="M22.5 9c-2.21 0-4 1.79-4 4 0 .89.29 1.71.78 2.38C17.33 16.5 16 18.59 16 21c0 2.03.94 3.84 2.41 5.03-3 1.06-7.41 5.55-7.41 13.47h23c0-7.92-4.41-12.41-7.41-13.47 1.47-1.19 2.41-3 2.41-5.03 0-2.41-1.33-4.5-3.28-5.62.49-.67.78-1.49.78-2.38 0-2.21-1.79-4-4-4z"/>
+    </svg>
+  ),
+};
+
+const getPiece = (color: string, type: string) => {
+  const key = `${color}${type.toUpperCase()}`;
+  return pieces[key] || null;
+};
+
+const isLight = (col: number, row: number) => (col + row) % 2 === 0;
+
+// Piece chooser over the promotion square, running towards the middle of the
+// board; keys Q/N/R/B (or 1-4) choose, Escape or a click elsewhere cancels
+function PromotionPicker({
+  color,
+  left,
+  fromTop,
+  onSelect,
+  onCancel,
+}: {
+  color: "w" | "b";
+  /** Left edge of the promotion square's file, in board pixels */
+  left: number;
+  /** Whether the promotion square is on the top edge of the board as shown */
+  fromTop: boolean;
+  onSelect: (piece: PromotionPiece) => void;
+  onCancel: () => void;
+}) {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        event.preventDefault();
+        onCancel();
+        return;
+      }
+      const piece = getPromotionPieceForKey(event.key);
+      if (piece) {
+        event.preventDefault();
+        onSelect(piece);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onSelect, onCancel]);
+
+  return (
+    <>
+      <div className="absolute inset-0 bg-black/40 rounded-md" style={{ zIndex: 20 }} onClick={onCancel} />
+      <div
+        className={`absolute flex ${fromTop ? "flex-col top-0" : "flex-col-reverse bottom-0"} shadow-2xl rounded-md overflow-hidden`}
+        style={{ left, zIndex: 30 }}
+        role="group"
+        aria-label="Promote to"
+      >
+        {PROMOTION_PIECES.map((piece, i) => (
+          <button
+            key={piece}
+            onClick={() => onSelect(piece)}
+            className="relative w-16 h-16 flex items-center justify-center bg-neutral-100 hover:bg-amber-300 transition-colors"
+            title={`${piece.toUpperCase()} or ${i + 1}`}
+          >
+            {getPiece(color, piece)}
+            <span className="absolute bottom-0.5 right-1 text-[10px] font-bold text-neutral-500">{piece.toUpperCase()}</span>
+          </button>
+        ))}
+      </div>
+    </>
+  );
+}
+
+export function ChessBoard({
+  position,
+  orientation,
+  selectedSquare = null,
+  validMoves = [],
+  lastMove = null,
+  arrows = [],
+  ghostSquares = [],
+  interactive = true,
+  onSquareClick,
+  promotion = null,
+  onPromotionSelect,
+  onPromotionCancel,
+}: ChessBoardProps) {
+  // Board orientation - flip arrays if playing as black
+  const displayRows = orientation === "w" ? ROWS : [...ROWS].reverse();
+  const displayCols = orientation === "w" ? COLUMNS : [...COLUMNS].reverse();
+
+  // Center of a square in board pixels, adjusted for orientation
+  const getSquarePosition = (square: string) => {
+    const col = COLUMNS.indexOf(square[0]);
+    const row = ROWS.indexOf(square[1]);
+    const displayCol = orientation === "w" ? col : 7 - col;
+    const displayRow = orientation === "w" ? row : 7 - row;
+    return {
+      x: displayCol * SQUARE_SIZE + SQUARE_SIZE / 2,
+      y: displayRow * SQUARE_SIZE + SQUARE_SIZE / 2,
+    };
+  };
+
+  return (
+    <div className="relative bg-gradient-to-br from-amber-900 to-amber-950 p-3 rounded-xl shadow-2xl">
+      {/* Coordinates - top */}
+      <div className="flex mb-1">
+        <div className="w-6" />
+        {displayCols.map((col) => (
+          <div key={col} className="w-16 text-center text-amber-600/60 text-xs font-medium uppercase">
+            {col}
+          </div>
+        ))}
+        <div className="w-6" />
+      </div>
+
+      <div className="flex">
+        {/* Coordinates - left */}
+        <div className="flex flex-col justify-around w-6">
+          {displayRows.map((row) => (
+            <div key={row} className="h-16 flex items-center justify-center text-amber-600/60 text-xs font-medium">
+              {row}
+            </div>
+          ))}
+        </div>
+
+        <div className="relative">
+          {/* Board */}
+          <div className="grid grid-cols-8 rounded-md overflow-hidden shadow-inner">
+            {displayRows.map((row, rowIndex) =>
+              displayCols.map((col, colIndex) => {
+                const square = `${col}${row}` as Square;
+                const piece = position.get(square);
+                const isSelected = selectedSquare === square;
+                const isValidMove = validMoves.includes(square);
+                const isCapture = isValidMove && piece;
+                const light = isLight(colIndex, rowIndex);
+                const isLastMoveSquare = lastMove && (lastMove.from === square || lastMove.to === square);
+                const isKingInCheck = position.isCheck() && piece?.type === "k" && piece?.color === position.turn();
+                const isGhost = ghostSquares.includes(square);
+
+                return (
+                  <div
+                    key={square}
+                    onClick={() => onSquareClick?.(square)}
+                    className={`
+                      w-16 h-16 flex items-center justify-center cursor-pointer relative
+                      transition-all duration-150
+                      ${light 
+                        ? "bg-[#f0d9b5]" 
+                        : "bg-[#b58863]"
+                      }
+                      ${isKingInCheck
+                        ? "!bg-red-500"
+                        : ""
+                      }
+                      ${isSelected 
+                        ? "!bg-[#829769]" 
+                        : ""
+                      }
+                      ${isLastMoveSquare && !isSelected && !isKingInCheck
+                        ? light ? "!bg-[#cdd26a]" : "!bg-[#aaa23a]"
+                        : ""
+                      }
+                      ${isValidMove && !isCapture && !isSelected
+                        ? light ? "!bg-[#e8e4a0]" : "!bg-[#b8b468]"
+                        : ""
+                      }
+                      hover:brightness-110
+                      ${interactive ? "" : "pointer-events-none"}
+                    `}
+                  >
+                    {/* Valid move dot */}
+                    {isValidMove && !piece && (
+                      <div className="absolute w-4 h-4 rounded-full bg-black/25" />
+                    )}
+                    
+                    {/* Capture ring */}
+                    {isCapture && (
+                      <div className="absolute inset-1 rounded-full border-[3px] border-red-500/70" />
+                    )}
+
+                    {/* Piece — ghost pieces are semi-transparent with a green glow */}
+                    {piece && (isGhost ? (
+                      <div className="opacity-50 drop-shadow-[0_0_6px_rgba(34,197,94,0.9)]">
+                        {getPiece(piece.color, piece.type)}
+                      </div>
+                    ) : getPiece(piece.color, piece.type))}
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          {/* Promotion picker */}
+          {promotion && onPromotionSelect && onPromotionCancel && (
+            <PromotionPicker
+              color={promotion.color}
+              left={getSquarePosition(promotion.square).x - SQUARE_SIZE / 2}
+              fromTop={getSquarePosition(promotion.square).y < SQUARE_SIZE}
+              onSelect={onPromotionSelect}
+              onCancel={onPromotionCancel}
+            />
+          )}
+
+          {/* Arrow overlay */}
+          {arrows.length > 0 && (
+            <svg
+              className="absolute inset-0 w-[512px] h-[512px] pointer-events-none"
+              style={{ zIndex: 10 }}
+            >
+              <defs>
+                {arrows.map((arrow, i) => (
+                  <marker
+                    key={i}
+                    id={`arrowhead-${i}`}
+                    markerWidth="10"
+                    markerHeight="7"
+                    refX="9"
+                    refY="3.5"
+                    orient="auto"
+                  >
+                    <polygon points="0 0, 10 3.5, 0 7" fill={arrow.color} />
+                  </marker>
+                ))}
+              </defs>
+              {arrows.map((arrow, i) => {
+                const from = getSquarePosition(arrow.from);
+                const to = getSquarePosition(arrow.to);
+                return (
+                  <line
+                    key={`${arrow.from}${arrow.to}-${i}`}
+                    x1={from.x}
+                    y1={from.y}
+                    x2={to.x}
+                    y2={to.y}
+                    stroke={arrow.color}
+                    strokeWidth="8"
+                    strokeLinecap="round"
+                    markerEnd={`url(#arrowhead-${i})`}
+                    opacity={arrow.opacity ?? 0.8}
+                  />
+                );
+              })}
+            </svg>
+          )}
+        </div>
+
+        {/* Coordinates - right */}
+        <div className="flex flex-col justify-around w-6">
+          {displayRows.map((row) => (
+            <div key={row} className="h-16 flex items-center justify-center text-amber-600/60 text-xs font-medium">
+              {row}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Coordinates - bottom */}
+      <div className="flex mt-1">
+        <div className="w-6" />
+        {displayCols.map((col) => (
+          <div key={col} className="w-16 text-center text-amber-600/60 text-xs font-medium uppercase">
+            {col}
+          </div>
+        ))}
+        <div className="w-6" />
+      </div>
+    </div>
+  );
+}
@@ -1,26 +1,78 @@
 "use client";
 
+import { useMemo } from "react";
 import {
   type InterventionState,
+  type MistakeSeverity,
   calculateWinProbDrop,
   getInterventionMessage,
+  SEVERITY_LABELS,
 } from "../lib/intervention";
+import { detectInterventionMotifs } from "../lib/motifs";
+import { type CandidateMove, getTopCandidates } from "../lib/candidates";
+import { uciToSan } from "../lib/chess-utils";
+import { EXPLANATION_LATENCY_TARGET_MS } from "../lib/explain";
+
+const SEVERITY_ICONS: Record<MistakeSeverity, string> = {
+  inaccuracy: "🤔",
+  mistake: "⚠️",
+  blunder: "🛑",
+  "missed-win": "😬",
+};
+
+const SEVERITY_BADGE_CLASSES: Record<MistakeSeverity, string> = {
+  inaccuracy: "bg-sky-900/60 text-sky-300",
+  mistake: "bg-amber-900/60 text-amber-300",
+  blunder: "bg-red-900/60 text-red-300",
+  "missed-win": "bg-purple-900/60 text-purple-300",
+};
 
 interface CoachModalProps {
   intervention: InterventionState;
   playerColor: "w" | "b";
+  /** Coach explanation text streamed so far */
+  explanation: string | null;
+  /** Whether an explanation is currently streaming in */
+  isExplaining: boolean;
+  /** Error message if the explanation could not be loaded */
+  explanationError: string | null;
+  /** Time to the first explanation text (ms), shown in development builds */
+  explanationLatency: number | null;
+  /** Top alternatives with win probabilities; null while they are being analyzed */
+  candidates: CandidateMove[] | null;
+  /** UCI of the candidate being previewed on the board, if any */
+  previewMove: string | null;
+  /** Called when a candidate is hovered (null when the pointer leaves) */
+  onHoverCandidate: (candidate: CandidateMove | null) => void;
   onRetry: () => void;
   onExplain: () => void;
+  /** Enter Ghost Mode to see the better line */
+  onShowLine: () => void;
   onContinue: () => void;
 }
 
 export function CoachModal({
   intervention,
   playerColor,
+  explanation,
+  isExplaining,
+  explanationError,
+  explanationLatency,
+  candidates,
+  previewMove,
+  onHoverCandidate,
   onRetry,
   onExplain,
+  onShowLine,
   onContinue,
 }: CoachModalProps) {
+  // Motif detection plays through the position, so don't redo it on every clock tick
+  const { fenBeforeMove, userMove, bestMove } = intervention;
+  const motifs = useMemo(
+    () => detectInterventionMotifs({ fenBeforeMove, userMove, bestMove }),
+    [fenBeforeMove, userMove, bestMove]
+  );
+
   if (!intervention.isActive) return null;
 
   const drop =
@@ -32,7 +84,16 @@ export function CoachModal({
         )
       : 0;
 
-  const message = getInterventionMessage();
+  // Until the analysis arrives, list Maia2's top moves without win chances
+  const alternatives =
+    candidates ??
+    (intervention.fenBeforeMove
+      ? getTopCandidates(intervention.fenBeforeMove, intervention.moveProbs)
+      : []);
+  const toMoverPercent = (wp: number) =>
+    Math.round((playerColor === "w" ? wp : 1 - wp) * 100);
+  const message = getInterventionMessage(intervention.severity, motifs);
+  const severity = intervention.severity;
 
   const dropPercent = Math.round(drop * 100);
   const beforePercent =
@@ -53,16 +114,21 @@ export function CoachModal({
       : null;
 
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center">
-      {/* Backdrop */}
-      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+    <div className={`fixed inset-0 z-50 flex items-center ${previewMove ? "justify-end lg:pr-8" : "justify-center"}`}>
+      {/* Backdrop — cleared while a candidate is previewed on the board */}
+      <div className={`absolute inset-0 transition-colors duration-200 ${previewMove ? "bg-black/10" : "bg-black/60 backdrop-blur-sm"}`} />
 
       {/* Modal */}
       <div className="relative bg-neutral-900 border border-neutral-700 rounded-2xl shadow-2xl max-w-md w-full mx-4 p-6 animate-in fade-in slide-in-from-bottom-4 duration-300">
         {/* Header */}
         <div className="text-center mb-5">
-          <div className="text-4xl mb-3">⚠️</div>
-          <h2 className="text-xl font-bold text-white">{message}</h2>
+          <div className="text-4xl mb-3">{severity ? SEVERITY_ICONS[severity] : "⚠️"}</div>
+          {severity && (
+            <span className={`inline-block mb-2 px-2 py-0.5 rounded-full text-xs font-semibold uppercase tracking-wide ${SEVERITY_BADGE_CLASSES[severity]}`}>
+              {SEVERITY_LABELS[severity]}
+            </span>
+          )}
+          <h2 className="text-lg font-bold text-white">{message}</h2>
         </div>
 
         {/* Move info */}
@@ -79,7 +145,9 @@ export function CoachModal({
             <div className="flex items-center justify-between text-sm">
               <span className="text-neutral-400">Consider instead</span>
               <span className="font-mono font-bold text-green-400 text-base">
-                {intervention.bestMove}
+                {intervention.fenBeforeMove
+                  ? uciToSan(intervention.fenBeforeMove, intervention.bestMove)
+                  : intervention.bestMove}
               </span>
             </div>
           )}
@@ -95,6 +163,71 @@ export function CoachModal({
           )}
         </div>
 
+        {/* Top alternatives — hover to see each one on the board */}
+        {alternatives.length > 0 && (
+          <div className="mb-5" onMouseLeave={() => onHoverCandidate(null)}>
+            <div className="flex items-center justify-between text-xs uppercase tracking-wide text-neutral-500 px-1 mb-1">
+              <span>Top moves</span>
+              <span>Played by humans · Win chance after</span>
+            </div>
+            <ul className="space-y-1">
+              {alternatives.map((candidate) => (
+                <li
+                  key={candidate.uci}
+                  onMouseEnter={() => onHoverCandidate(candidate)}
+                  className={`flex items-center justify-between text-sm px-3 py-1.5 rounded-lg cursor-default ${candidate.uci === previewMove ? "bg-neutral-800" : ""}`}
+                >
+                  <span className={`font-mono font-bold ${candidate.uci === intervention.bestMove ? "text-green-400" : "text-neutral-200"}`}>
+                    {candidate.san}
+                  </span>
+                  <span className="text-neutral-400">
+                    {Math.round(candidate.probability * 100)}%
+                    <span className="inline-block w-12 text-right text-neutral-200">
+                      {candidate.winProbAfter !== null
+                        ? `${toMoverPercent(candidate.winProbAfter)}%`
+                        : "…"}
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Coach explanation */}
+        {(isExplaining || explanation || explanationError) && (
+          <div className="bg-neutral-800/60 border border-neutral-700 rounded-xl p-4 mb-5 text-sm leading-relaxed">
+            {isExplaining && !explanation && (
+              <div className="space-y-2 animate-pulse" aria-label="Loading explanation">
+                <div className="h-3 bg-neutral-700 rounded w-full" />
+                <div className="h-3 bg-neutral-700 rounded w-5/6" />
+                <div className="h-3 bg-neutral-700 rounded w-2/3" />
+              </div>
+            )}
+            {explanation && (
+              <p className="text-neutral-200">
+                {explanation}
+                {isExplaining && (
+                  <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-neutral-400 animate-pulse" />
+                )}
+              </p>
+            )}
+            {explanationError && !explanation && (
+              <p className="text-red-400">{explanationError}</p>
+            )}
+            {process.env.NODE_ENV === "development" && explanationLatency !== null && (
+              <p
+                className={`mt-2 text-xs ${
+                  explanationLatency > EXPLANATION_LATENCY_TARGET_MS ? "text-amber-400" : "text-neutral-500"
+                }`}
+              >
+                First words after {(explanationLatency / 1000).toFixed(1)}s (target{" "}
+                {EXPLANATION_LATENCY_TARGET_MS / 1000}s)
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex flex-col gap-2">
           <div className="flex gap-3">
@@ -106,11 +239,20 @@ export function CoachModal({
             </button>
             <button
               onClick={onExplain}
-              className="flex-1 px-4 py-3 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 font-semibold rounded-xl transition-all duration-200 hover:scale-105 active:scale-95"
+              disabled={isExplaining || explanation !== null}
+              className="flex-1 px-4 py-3 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 font-semibold rounded-xl transition-all duration-200 hover:scale-105 active:scale-95 disabled:opacity-50 disabled:pointer-events-none"
             >
               Explain why
             </button>
           </div>
+          {intervention.bestMove && intervention.fenBeforeMove && (
+            <button
+              onClick={onShowLine}
+              className="w-full px-4 py-3 bg-green-700/80 hover:bg-green-600 text-white font-semibold rounded-xl transition-all duration-200 hover:scale-[1.02] active:scale-95"
+            >
+              See the better line
+            </button>
+          )}
           <button
             onClick={onContinue}
             className="w-full px-4 py-2 text-neutral-500 hover:text-neutral-300 text-sm font-medium transition-colors duration-200"
@@ -0,0 +1,46 @@
+"use client";
+
+import {
+  type MistakeSeverity,
+  getInterventionMessage,
+  SEVERITY_LABELS,
+} from "../lib/intervention";
+import type { Motif } from "../lib/motifs";
+
+/** How long the toast stays on screen (ms) */
+export const COACH_TOAST_MS = 4000;
+
+interface CoachToastProps {
+  severity: MistakeSeverity;
+  /** SAN of the move that triggered the toast */
+  move: string | null;
+  /** Tactical motifs behind the move, if any were detected */
+  motifs?: Motif[];
+  onDismiss: () => void;
+}
+
+/**
+ * Non-blocking coach note for minor slips — the game keeps going.
+ */
+export function CoachToast({ severity, move, motifs = [], onDismiss }: CoachToastProps) {
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="flex items-center gap-3 bg-neutral-900 border border-sky-700/60 rounded-xl shadow-xl px-4 py-3">
+        <span className="text-xs font-semibold uppercase tracking-wide text-sky-400">
+          {SEVERITY_LABELS[severity]}
+        </span>
+        <span className="text-sm text-neutral-200">
+          {move && <span className="font-mono font-bold mr-1">{move}</span>}
+          {getInterventionMessage(severity, motifs)}
+        </span>
+        <button
+          onClick={onDismiss}
+          className="text-neutral-500 hover:text-neutral-300 text-sm"
+          aria-label="Dismiss"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
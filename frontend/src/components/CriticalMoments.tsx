@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  type CriticalMoment,
+  type ExerciseResult,
+  CRITICAL_MOMENT_LABELS,
+  EXERCISE_VERDICT_LABELS,
+  findCriticalMoments,
+} from "../lib/critical-moments";
+import type { GameTree } from "../lib/game-tree";
+
+const VERDICT_CLASSES = {
+  best: "text-green-400",
+  good: "text-green-300",
+  playable: "text-amber-300",
+  miss: "text-red-400",
+} as const;
+
+interface CriticalMomentsProps {
+  /** The finished game — analyzed once, as it was when the panel opened */
+  tree: GameTree;
+  /** ELO passed to the model */
+  elo: number;
+  /** Only look at this side's moves (the user's side vs the computer) */
+  color?: "w" | "b";
+  /** The exercise on the board, if any */
+  exercise: { moment: CriticalMoment; result: ExerciseResult | null } | null;
+  onStartExercise: (moment: CriticalMoment) => void;
+  onEndExercise: () => void;
+}
+
+/**
+ * The game's turning points, each offered as a "find the best move"
+ * exercise played on the main board.
+ */
+export function CriticalMoments({ tree, elo, color, exercise, onStartExercise, onEndExercise }: CriticalMomentsProps) {
+  const [initialTree] = useState(tree);
+  const [moments, setMoments] = useState<CriticalMoment[] | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    findCriticalMoments(initialTree, { elo, color, signal: controller.signal }).then((found) => {
+      if (!controller.signal.aborted) setMoments(found);
+    });
+    return () => controller.abort();
+  }, [initialTree, elo, color]);
+
+  return (
+    <div className="mt-4 w-full max-w-xl bg-neutral-900/80 border border-neutral-700 rounded-xl px-4 py-3 flex flex-col gap-3">
+      <h2 className="text-sm uppercase tracking-wide text-neutral-500 font-semibold">Critical Moments</h2>
+
+      {moments === null && <p className="text-sm text-neutral-500 animate-pulse">Looking for turning points...</p>}
+      {moments?.length === 0 && <p className="text-sm text-neutral-500">No turning points found in this game.</p>}
+
+      {moments?.map((moment) => {
+        const isActive = exercise?.moment.nodeId === moment.nodeId;
+        const result = isActive ? exercise!.result : null;
+
+        return (
+          <div
+            key={moment.nodeId}
+            className={`rounded-lg px-3 py-2 text-sm ${isActive ? "bg-neutral-800 border border-amber-600/50" : "bg-neutral-800/50"}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs font-semibold uppercase tracking-wide text-amber-400">
+                {CRITICAL_MOMENT_LABELS[moment.type]}
+              </span>
+              {!isActive && (
+                <button
+                  onClick={() => onStartExercise(moment)}
+                  className="px-3 py-1 text-xs font-semibold bg-amber-600 hover:bg-amber-500 text-white rounded-lg transition-colors"
+                >
+                  Find the best move
+                </button>
+              )}
+            </div>
+            <p className="mt-1 text-neutral-300">{moment.description}</p>
+
+            {isActive && !result && (
+              <p className="mt-2 text-neutral-400">
+                {moment.color === "w" ? "White" : "Black"} to move — what would you play?
+              </p>
+            )}
+            {result && (
+              <div className="mt-2 flex flex-col gap-1">
+                <p className={`font-semibold ${VERDICT_CLASSES[result.verdict]}`}>
+                  {EXERCISE_VERDICT_LABELS[result.verdict]}
+                  <span className="ml-2 font-normal text-neutral-400">
+                    {result.san} — Maia plays it {Math.round(result.probability * 100)}% of the time
+                  </span>
+                </p>
+                <p className="text-neutral-400">
+                  Best: <span className="font-mono text-green-400">{moment.bestMoveSan}</span>
+                  {" • "}In the game: <span className="font-mono text-neutral-200">{moment.playedSan}</span>
+                </p>
+              </div>
+            )}
+            {isActive && (
+              <div className="mt-2 flex gap-2">
+                {result && (
+                  <button
+                    onClick={() => onStartExercise(moment)}
+                    className="px-3 py-1 text-xs font-semibold bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded-lg transition-colors"
+                  >
+                    Try again
+                  </button>
+                )}
+                <button
+                  onClick={onEndExercise}
+                  className="px-3 py-1 text-xs font-semibold bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded-lg transition-colors"
+                >
+                  {result ? "Done" : "Cancel"}
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
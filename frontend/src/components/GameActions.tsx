@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+
+export interface DrawOffer {
+  /** The side offering the draw */
+  from: "w" | "b";
+  /** Game tree node the offer was made at — it lapses once a move is played */
+  nodeId: number;
+  status: "pending" | "declined";
+}
+
+interface GameActionsProps {
+  /** Whether the game can still be aborted (before both sides have moved) */
+  canAbort: boolean;
+  canOfferDraw: boolean;
+  /** The current draw offer, if one was made at this move */
+  drawOffer: DrawOffer | null;
+  /** Name of the side answering draw offers, e.g. "Maia" or "Black" */
+  opponentName: string;
+  /** Whether the opponent answers here (pass & play) or decides by itself (Maia) */
+  canAnswerDraw: boolean;
+  onAbort: () => void;
+  onResign: () => void;
+  onOfferDraw: () => void;
+  onAnswerDraw: (accept: boolean) => void;
+}
+
+const buttonClass =
+  "px-3 py-1.5 rounded-lg text-sm font-medium bg-neutral-800 text-neutral-300 hover:bg-neutral-700 transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+/**
+ * Ending a game early: abort it before both sides have moved, resign (asked
+ * twice), or offer a draw and see it answered.
+ */
+export function GameActions({
+  canAbort,
+  canOfferDraw,
+  drawOffer,
+  opponentName,
+  canAnswerDraw,
+  onAbort,
+  onResign,
+  onOfferDraw,
+  onAnswerDraw,
+}: GameActionsProps) {
+  const [confirmResign, setConfirmResign] = useState(false);
+
+  return (
+    <div className="mt-3 flex flex-col items-center gap-2">
+      <div className="flex items-center gap-2">
+        {canAbort ? (
+          <button onClick={onAbort} className={buttonClass}>
+            ✕ Abort
+          </button>
+        ) : confirmResign ? (
+          <>
+            <span className="text-sm text-neutral-400">Resign this game?</span>
+            <button
+              onClick={() => {
+                setConfirmResign(false);
+                onResign();
+              }}
+              className={`${buttonClass} !bg-red-700 !text-white hover:!bg-red-600`}
+            >
+              Resign
+            </button>
+            <button onClick={() => setConfirmResign(false)} className={buttonClass}>
+              Keep playing
+            </button>
+          </>
+        ) : (
+          <button onClick={() => setConfirmResign(true)} className={buttonClass}>
+            🏳️ Resign
+          </button>
+        )}
+        {!confirmResign && (
+          <button onClick={onOfferDraw} disabled={!canOfferDraw || drawOffer !== null} className={buttonClass}>
+            ½ Offer draw
+          </button>
+        )}
+      </div>
+
+      {drawOffer?.status === "pending" && (
+        canAnswerDraw ? (
+          <div className="flex items-center gap-2 text-sm text-neutral-300">
+            {drawOffer.from === "w" ? "White" : "Black"} offers a draw.
+            <button onClick={() => onAnswerDraw(true)} className={buttonClass}>
+              Accept
+            </button>
+            <button onClick={() => onAnswerDraw(false)} className={buttonClass}>
+              Decline
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-neutral-400 animate-pulse">{opponentName} is considering your draw offer…</p>
+        )
+      )}
+      {drawOffer?.status === "declined" && (
+        <p className="text-sm text-neutral-400">{opponentName} declines the draw.</p>
+      )}
+    </div>
+  );
+}
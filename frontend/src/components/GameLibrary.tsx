@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import {
+  type LibraryGame,
+  type LibraryOutcome,
+  filterLibrary,
+  getLibraryOutcome,
+} from "../lib/game-library";
+import type { SavedGameMode } from "../lib/saved-game";
+import { formatTimeControl } from "../lib/time-control";
+
+interface GameLibraryProps {
+  games: LibraryGame[];
+  onOpen: (game: LibraryGame) => void;
+  onDelete: (id: string) => void;
+  /** Download the given games as one PGN file */
+  onExport: (games: LibraryGame[]) => void;
+}
+
+const OUTCOME_STYLES: Record<LibraryOutcome, string> = {
+  win: "text-green-400",
+  loss: "text-red-400",
+  draw: "text-neutral-300",
+};
+
+const selectClass =
+  "px-2 py-2 bg-neutral-900 text-neutral-200 text-sm rounded-lg border border-neutral-700 focus:border-amber-500 focus:outline-none";
+
+/**
+ * Finished games, newest first: search and filter them, open one in the
+ * replay viewer, delete it, or export the shown games as PGN.
+ */
+export function GameLibrary({ games, onOpen, onDelete, onExport }: GameLibraryProps) {
+  const [query, setQuery] = useState("");
+  const [mode, setMode] = useState<SavedGameMode | "">("");
+  const [outcome, setOutcome] = useState<LibraryOutcome | "">("");
+
+  if (games.length === 0) {
+    return <p className="text-sm text-neutral-400 text-center">Finished games show up here.</p>;
+  }
+
+  const shown = filterLibrary(games, { query, mode: mode || undefined, outcome: outcome || undefined });
+
+  return (
+    <div className="flex flex-col gap-3">
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search openings, endings, dates..."
+        className="w-full px-3 py-2 bg-neutral-900 text-neutral-200 text-sm rounded-lg border border-neutral-700 focus:border-amber-500 focus:outline-none"
+      />
+      <div className="flex gap-2">
+        <select value={mode} onChange={(e) => setMode(e.target.value as SavedGameMode | "")} className={`flex-1 ${selectClass}`}>
+          <option value="">All modes</option>
+          <option value="coach">vs Computer</option>
+          <option value="pass-and-play">Pass & Play</option>
+        </select>
+        <select value={outcome} onChange={(e) => setOutcome(e.target.value as LibraryOutcome | "")} className={`flex-1 ${selectClass}`}>
+          <option value="">All results</option>
+          <option value="win">Wins</option>
+          <option value="loss">Losses</option>
+          <option value="draw">Draws</option>
+        </select>
+      </div>
+
+      <ul className="flex flex-col gap-1 max-h-72 overflow-y-auto">
+        {shown.map((game) => {
+          const gameOutcome = getLibraryOutcome(game);
+          return (
+            <li key={game.id} className="group flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-neutral-700/50">
+              <button onClick={() => onOpen(game)} className="flex-1 min-w-0 text-left">
+                <div className="flex items-baseline justify-between gap-2">
+                  <span className="text-sm text-neutral-200 truncate">
+                    {game.opening ? `${game.opening.eco} ${game.opening.name}` : "Unknown opening"}
+                  </span>
+                  <span className={`text-sm font-mono ${gameOutcome ? OUTCOME_STYLES[gameOutcome] : "text-neutral-400"}`}>
+                    {game.result}
+                  </span>
+                </div>
+                <div className="text-xs text-neutral-500">
+                  {new Date(game.date).toLocaleDateString()} ·{" "}
+                  {game.mode === "coach"
+                    ? `${game.playerColor === "w" ? "White" : "Black"} vs ${game.adaptive ? "adaptive " : ""}Maia ${game.aiElo}`
+                    : "Pass & Play"}{" "}
+                  · {formatTimeControl(game.timeControl)} · {game.moveCount} moves
+                  {game.interventions > 0 && ` · ${game.interventions} coach ${game.interventions === 1 ? "stop" : "stops"}`}
+                </div>
+              </button>
+              <button
+                onClick={() => onDelete(game.id)}
+                aria-label="Delete game"
+                className="text-neutral-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                ✕
+              </button>
+            </li>
+          );
+        })}
+        {shown.length === 0 && <li className="text-sm text-neutral-500 text-center py-2">No games match.</li>}
+      </ul>
+
+      <button
+        onClick={() => onExport(shown)}
+        disabled={shown.length === 0}
+        className="px-4 py-2 text-sm font-medium bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded-xl transition-colors disabled:opacity-40 disabled:pointer-events-none"
+      >
+        Export {shown.length === games.length ? "all" : shown.length} as PGN
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { uciToSan } from "../lib/chess-utils";
+import type { GameTree } from "../lib/game-tree";
+import { type MistakeSeverity, SEVERITY_LABELS } from "../lib/intervention";
+import { reviewGame } from "../lib/review";
+import { WinProbabilityChart } from "./WinProbabilityChart";
+
+const COUNTED_SEVERITIES: MistakeSeverity[] = ["inaccuracy", "mistake", "blunder", "missed-win"];
+
+interface GameReviewProps {
+  tree: GameTree;
+  /** Position shown on the board */
+  selectedId: number | null;
+  onSelect: (nodeId: number) => void;
+}
+
+/**
+ * "Review My Game": the post-game summary shown once a game ends — win
+ * probability over time, accuracy and mistake counts per side, and the
+ * moves where the coach stepped in.
+ */
+export function GameReview({ tree, selectedId, onSelect }: GameReviewProps) {
+  const review = reviewGame(tree);
+
+  return (
+    <div className="mt-4 w-full max-w-xl bg-neutral-900/80 border border-neutral-700 rounded-xl px-4 py-3 flex flex-col gap-4">
+      <h2 className="text-sm uppercase tracking-wide text-neutral-500 font-semibold">Game Review</h2>
+
+      <WinProbabilityChart
+        points={review.points}
+        moments={review.moments}
+        selectedId={selectedId}
+        onSelect={onSelect}
+      />
+
+      <table className="w-full text-sm text-neutral-300">
+        <thead>
+          <tr className="text-xs text-neutral-500">
+            <th className="text-left font-normal" />
+            <th className="text-right font-normal">Accuracy</th>
+            {COUNTED_SEVERITIES.map((severity) => (
+              <th key={severity} className="text-right font-normal">{SEVERITY_LABELS[severity]}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {(["w", "b"] as const).map((color) => (
+            <tr key={color}>
+              <td className="font-semibold">{color === "w" ? "White" : "Black"}</td>
+              <td className="text-right font-mono">
+                {review.accuracy[color] === null ? "–" : `${review.accuracy[color]!.toFixed(1)}%`}
+              </td>
+              {COUNTED_SEVERITIES.map((severity) => (
+                <td key={severity} className="text-right font-mono">{review.counts[color][severity]}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {review.moments.length > 0 && (
+        <div className="flex flex-col gap-0.5 text-sm">
+          <h3 className="text-xs text-neutral-500">Coach moments</h3>
+          {review.moments.map((moment) => {
+            const parentFen = tree.nodes[tree.nodes[moment.nodeId].parentId!].fen;
+            return (
+              <button
+                key={moment.nodeId}
+                onClick={() => onSelect(moment.nodeId)}
+                className={`flex items-center justify-between gap-2 px-2 py-0.5 rounded text-left transition-colors ${
+                  moment.nodeId === selectedId ? "bg-amber-600/30" : "hover:bg-neutral-800"
+                }`}
+              >
+                <span className="font-mono text-neutral-200">
+                  {moment.moveNumber}
+                  {moment.color === "w" ? ". " : "... "}
+                  {moment.san}
+                  <span className="ml-2 font-sans text-xs text-neutral-400">
+                    {SEVERITY_LABELS[moment.severity]}
+                    {moment.retried && " • retried"}
+                  </span>
+                </span>
+                {moment.bestMove && (
+                  <span className="text-xs text-neutral-500">
+                    Best: <span className="font-mono text-green-400">{uciToSan(parentFen, moment.bestMove)}</span>
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import type { GhostMove } from "../lib/ghost-line";
+
+interface GhostLinePanelProps {
+  /** The better line being shown */
+  line: GhostMove[];
+  /** Number of ghost moves currently on the board */
+  step: number;
+  /** Whether the line is still being built */
+  isLoading: boolean;
+  onReplay: () => void;
+  onGotIt: () => void;
+}
+
+/**
+ * Format a ghost move with its move number, e.g. "12. Nf3" or "12... Nc6".
+ */
+function formatGhostMove(move: GhostMove, index: number): string {
+  const fullmove = parseInt(move.fenAfter.split(" ")[5], 10);
+  // fenAfter's fullmove number has already advanced after a black move
+  if (move.color === "w") return `${fullmove}. ${move.san}`;
+  return index === 0 ? `${fullmove - 1}... ${move.san}` : move.san;
+}
+
+export function GhostLinePanel({ line, step, isLoading, onReplay, onGotIt }: GhostLinePanelProps) {
+  const isPlaying = step < line.length;
+
+  return (
+    <div className="mt-4 w-full max-w-xl bg-neutral-900/80 border border-green-700/50 rounded-xl px-4 py-3 flex items-center gap-4">
+      <div className="flex-1 min-w-0">
+        <div className="text-xs uppercase tracking-wide text-green-400 font-semibold mb-1">
+          The better line
+        </div>
+        {isLoading && line.length === 0 ? (
+          <p className="text-sm text-neutral-400 animate-pulse">Finding the best continuation...</p>
+        ) : line.length === 0 ? (
+          <p className="text-sm text-neutral-400">No continuation available for this position.</p>
+        ) : (
+          <p className="font-mono text-sm flex flex-wrap gap-x-2">
+            {line.map((move, i) => (
+              <span
+                key={i}
+                className={i < step ? "text-green-300" : "text-neutral-600"}
+              >
+                {formatGhostMove(move, i)}
+              </span>
+            ))}
+          </p>
+        )}
+      </div>
+      <button
+        onClick={onReplay}
+        disabled={isPlaying || line.length === 0}
+        className="px-3 py-2 text-sm text-neutral-300 hover:text-white bg-neutral-800 hover:bg-neutral-700 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none"
+      >
+        Replay
+      </button>
+      <button
+        onClick={onGotIt}
+        className="px-4 py-2 bg-green-600 hover:bg-green-500 text-white font-semibold rounded-lg transition-all duration-200 hover:scale-105 active:scale-95"
+      >
+        Got it
+      </button>
+    </div>
+  );
+}
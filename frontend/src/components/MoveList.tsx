@@ -0,0 +1,124 @@
+"use client";
+
+import { formatClock } from "../lib/chess-clock";
+import { type MistakeSeverity, SEVERITY_LABELS } from "../lib/intervention";
+import {
+  type GameTree,
+  type GameTreeNode,
+  getLineFrom,
+  getMainline,
+  getVariations,
+  toMoveRows,
+} from "../lib/game-tree";
+
+const SEVERITY_DOT_CLASSES: Record<MistakeSeverity, string> = {
+  inaccuracy: "bg-sky-400",
+  mistake: "bg-amber-400",
+  blunder: "bg-red-500",
+  "missed-win": "bg-purple-400",
+};
+
+interface MoveListProps {
+  tree: GameTree;
+  /** Node shown on the board, or null when following the live game */
+  viewId: number | null;
+  onSelect: (id: number) => void;
+  onBackToLive: () => void;
+}
+
+interface MoveCellProps {
+  node: GameTreeNode | null;
+  isSelected: boolean;
+  onSelect: (id: number) => void;
+}
+
+function MoveCell({ node, isSelected, onSelect }: MoveCellProps) {
+  if (!node) return <span className="flex-1 px-2 text-neutral-600">…</span>;
+
+  return (
+    <button
+      onClick={() => onSelect(node.id)}
+      className={`flex-1 flex items-center justify-between gap-2 px-2 py-0.5 rounded text-left transition-colors ${
+        isSelected ? "bg-amber-600/30 text-amber-200" : "text-neutral-200 hover:bg-neutral-800"
+      }`}
+    >
+      <span className="flex items-center gap-1.5 font-mono font-semibold">
+        {node.san}
+        {node.severity && (
+          <span
+            className={`inline-block w-2 h-2 rounded-full ${SEVERITY_DOT_CLASSES[node.severity]}`}
+            title={SEVERITY_LABELS[node.severity]}
+          />
+        )}
+      </span>
+      {node.clock !== null && (
+        <span className="font-mono text-xs text-neutral-500">{formatClock(node.clock * 1000)}</span>
+      )}
+    </button>
+  );
+}
+
+/**
+ * Move list sidebar: the game in SAN with clock times and intervention
+ * markers. Retried moves and other variations appear under the move they
+ * are an alternative to.
+ */
+export function MoveList({ tree, viewId, onSelect, onBackToLive }: MoveListProps) {
+  const rows = toMoveRows(getMainline(tree));
+  const selectedId = viewId ?? tree.currentId;
+
+  return (
+    <div className="w-64 h-[560px] flex flex-col bg-neutral-900/80 border border-neutral-800 rounded-xl overflow-hidden">
+      <div className="px-4 py-2 border-b border-neutral-800 text-xs uppercase tracking-wide text-neutral-500 font-semibold">
+        Moves
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-2 py-1 text-sm">
+        {rows.length === 0 && (
+          <p className="px-2 py-3 text-neutral-600">No moves yet.</p>
+        )}
+        {rows.map((row) => {
+          const variations = [row.white, row.black]
+            .filter((node): node is GameTreeNode => node !== null && node.parentId !== null)
+            .flatMap((node) => getVariations(tree, node.parentId!));
+
+          return (
+            <div key={row.white?.id ?? row.black?.id}>
+              <div className="flex items-center gap-1">
+                <span className="w-8 text-right text-neutral-600 font-mono">{row.moveNumber}.</span>
+                <MoveCell node={row.white} isSelected={row.white?.id === selectedId} onSelect={onSelect} />
+                <MoveCell node={row.black} isSelected={row.black?.id === selectedId} onSelect={onSelect} />
+              </div>
+              {variations.map((variation) => (
+                <div key={variation.id} className="ml-9 px-2 font-mono text-xs text-neutral-500 flex flex-wrap gap-x-1">
+                  (
+                  {getLineFrom(tree, variation.id).map((node, i) => (
+                    <button
+                      key={node.id}
+                      onClick={() => onSelect(node.id)}
+                      className={`rounded ${node.id === selectedId ? "bg-amber-600/30 text-amber-200" : "hover:text-neutral-300"}`}
+                      title={node.rejected ? "Retried move" : "Variation"}
+                    >
+                      {node.color === "w" ? `${node.moveNumber}. ` : i === 0 ? `${node.moveNumber}... ` : ""}
+                      {node.san}
+                    </button>
+                  ))}
+                  )
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      {viewId !== null && (
+        <button
+          onClick={onBackToLive}
+          className="m-2 px-3 py-2 text-sm font-semibold text-neutral-900 bg-amber-400 hover:bg-amber-300 rounded-lg transition-colors"
+        >
+          Back to live position
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { type ImportedGame, importPgn } from "../lib/pgn";
+
+interface PgnImportPanelProps {
+  /** Called with the parsed games once a PGN is opened */
+  onImport: (games: ImportedGame[]) => void;
+}
+
+/**
+ * Paste or upload a PGN (one or many games) to open it in the replay viewer.
+ */
+export function PgnImportPanel({ onImport }: PgnImportPanelProps) {
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const open = (pgn: string) => {
+    try {
+      onImport(importPgn(pgn));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not read this PGN.");
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    open(content);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Paste a PGN here..."
+        rows={5}
+        className="w-full px-3 py-2 bg-neutral-900 text-neutral-200 font-mono text-xs rounded-xl border border-neutral-700 focus:border-amber-500 focus:outline-none resize-none"
+      />
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <div className="flex gap-2">
+        <label className="flex-1 px-4 py-2 text-center text-sm font-medium bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded-xl cursor-pointer transition-colors">
+          Upload file
+          <input
+            type="file"
+            accept=".pgn,text/plain"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </label>
+        <button
+          onClick={() => open(text)}
+          disabled={!text.trim()}
+          className="flex-1 px-4 py-2 text-sm font-semibold bg-amber-600 hover:bg-amber-500 text-white rounded-xl transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        >
+          Open PGN
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { downloadTextFile } from "../lib/download";
+import { type Puzzle, exportPuzzleDeck, importPuzzleDeck, loadPuzzles, savePuzzles } from "../lib/puzzles";
+
+interface PuzzleDeckTransferProps {
+  deck: Puzzle[];
+}
+
+/**
+ * Export the puzzle deck with its review schedule as JSON, or merge in a deck
+ * exported on another device.
+ */
+export function PuzzleDeckTransfer({ deck }: PuzzleDeckTransferProps) {
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadTextFile(`checkmate-coach-puzzles-${date}.json`, exportPuzzleDeck(deck), "application/json");
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const current = loadPuzzles();
+      const merged = importPuzzleDeck(await file.text(), current);
+      savePuzzles(merged);
+      const added = merged.length - current.length;
+      setMessage({ text: `Deck imported — ${added} new ${added === 1 ? "puzzle" : "puzzles"}.`, error: false });
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : "Could not read this file.", error: true });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex justify-center gap-4 text-sm">
+        <button
+          onClick={handleExport}
+          disabled={deck.length === 0}
+          className="text-neutral-400 hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        >
+          Export deck
+        </button>
+        <label className="text-neutral-400 hover:text-white cursor-pointer transition-colors">
+          Import deck
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      {message && (
+        <p className={`text-xs ${message.error ? "text-red-400" : "text-neutral-400"}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { uciToSan } from "../lib/chess-utils";
+import type { Puzzle, PuzzleResult } from "../lib/puzzles";
+
+interface PuzzlePanelProps {
+  puzzle: Puzzle;
+  /** Position of the puzzle in the session */
+  index: number;
+  total: number;
+  /** The graded answer, once the user has moved */
+  result: PuzzleResult | null;
+  /** Whether Maia's best move is drawn on the board */
+  showSolution: boolean;
+  /** Maia's follow-up move after a correct answer (SAN), once played */
+  reply: string | null;
+  isReplying: boolean;
+  onRetry: () => void;
+  onShowSolution: () => void;
+  onNext: () => void;
+  onRemove: () => void;
+}
+
+/**
+ * Puzzle mode controls: the task, correct/incorrect feedback from Maia's
+ * probabilities, and moving on through the deck.
+ */
+export function PuzzlePanel({
+  puzzle,
+  index,
+  total,
+  result,
+  showSolution,
+  reply,
+  isReplying,
+  onRetry,
+  onShowSolution,
+  onNext,
+  onRemove,
+}: PuzzlePanelProps) {
+  const side = puzzle.fen.split(" ")[1] === "w" ? "White" : "Black";
+  const border = !result ? "border-neutral-700" : result.correct ? "border-green-700/50" : "border-red-700/50";
+
+  return (
+    <div className={`mt-4 w-full max-w-xl bg-neutral-900/80 border ${border} rounded-xl px-4 py-3 flex flex-col gap-3`}>
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-xs uppercase tracking-wide text-amber-400 font-semibold">
+          Puzzle {index + 1} of {total}
+        </div>
+        <button onClick={onRemove} className="text-xs text-neutral-500 hover:text-neutral-300 transition-colors">
+          Remove from deck
+        </button>
+      </div>
+
+      {!result && (
+        <p className="text-sm text-neutral-300">
+          In your game you played <span className="font-mono text-red-300">{puzzle.userMove}</span> here.
+          Find a better move for {side}.
+        </p>
+      )}
+
+      {result?.correct && (
+        <p className="text-sm text-green-300">
+          <span className="font-semibold">Correct!</span> {result.san} — Maia plays it{" "}
+          {Math.round(result.probability * 100)}% of the time.
+          {isReplying && <span className="ml-1 text-neutral-400 animate-pulse">Maia is replying...</span>}
+          {reply && <span className="ml-1 text-neutral-400">Maia answers {reply}.</span>}
+        </p>
+      )}
+
+      {result && !result.correct && (
+        <p className="text-sm text-red-300">
+          <span className="font-semibold">Not quite.</span> {result.san}
+          {result.san === puzzle.userMove
+            ? " is the move from your game."
+            : ` — Maia only plays it ${Math.round(result.probability * 100)}% of the time.`}
+          {showSolution && (
+            <span className="ml-1 text-neutral-300">
+              Best: <span className="font-mono text-green-400">{uciToSan(puzzle.fen, puzzle.bestMove)}</span>
+            </span>
+          )}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {result && !result.correct && (
+          <>
+            <button
+              onClick={onRetry}
+              className="px-3 py-2 text-sm text-neutral-300 hover:text-white bg-neutral-800 hover:bg-neutral-700 rounded-lg transition-colors"
+            >
+              Try again
+            </button>
+            {!showSolution && (
+              <button
+                onClick={onShowSolution}
+                className="px-3 py-2 text-sm text-neutral-300 hover:text-white bg-neutral-800 hover:bg-neutral-700 rounded-lg transition-colors"
+              >
+                Show solution
+              </button>
+            )}
+          </>
+        )}
+        <button
+          onClick={onNext}
+          className="px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white text-sm font-semibold rounded-lg transition-colors"
+        >
+          {index + 1 < total ? "Next puzzle" : "Finish"}
+        </button>
+      </div>
+    </div>
+  );
+}
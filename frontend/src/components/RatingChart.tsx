@@ -0,0 +1,61 @@
+"use client";
+
+import type { RatingHistoryEntry } from "../lib/rating";
+
+const WIDTH = 480;
+const HEIGHT = 120;
+
+/** Rating range shown around the history, so small changes stay visible */
+const MIN_SPAN = 200;
+
+interface RatingChartProps {
+  history: RatingHistoryEntry[];
+}
+
+/**
+ * The user's rating after each rated game, with the deviation as a band.
+ */
+export function RatingChart({ history }: RatingChartProps) {
+  if (history.length < 2) {
+    return <p className="text-sm text-neutral-500">Play a few more games against Maia to chart your rating.</p>;
+  }
+
+  const lows = history.map((h) => h.rating - h.deviation);
+  const highs = history.map((h) => h.rating + h.deviation);
+  const middle = (Math.min(...history.map((h) => h.rating)) + Math.max(...history.map((h) => h.rating))) / 2;
+  const span = Math.max(MIN_SPAN, Math.max(...highs) - Math.min(...lows));
+  const top = middle + span / 2;
+
+  const x = (i: number) => (i / (history.length - 1)) * WIDTH;
+  const y = (rating: number) => Math.min(HEIGHT, Math.max(0, ((top - rating) / span) * HEIGHT));
+  const line = history.map((h, i) => `${x(i)},${y(h.rating)}`).join(" ");
+  const band = [
+    ...history.map((h, i) => `${x(i)},${y(h.rating + h.deviation)}`),
+    ...history.map((h, i) => `${x(i)},${y(h.rating - h.deviation)}`).reverse(),
+  ].join(" ");
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto rounded-lg bg-neutral-800"
+      role="img"
+      aria-label="Your rating over time"
+    >
+      <polygon points={band} fill="#f59e0b" opacity={0.15} />
+      <polyline points={line} fill="none" stroke="#f59e0b" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      {history.map((h, i) => (
+        <circle
+          key={h.gameId}
+          cx={x(i)}
+          cy={y(h.rating)}
+          r={3}
+          fill={h.score === 1 ? "#22c55e" : h.score === 0 ? "#ef4444" : "#a3a3a3"}
+          opacity={0.4 + 0.6 * h.weight}
+          vectorEffect="non-scaling-stroke"
+        >
+          <title>{`${Math.round(h.rating)} after ${h.score === 1 ? "a win" : h.score === 0 ? "a loss" : "a draw"} vs Maia ${h.opponentElo}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { RatingChart } from "./RatingChart";
+import {
+  type PlayerRating,
+  type RatingSettings,
+  type RetryPolicy,
+  RETRY_POLICY_LABELS,
+  saveRatingSettings,
+} from "../lib/rating";
+
+interface RatingPanelProps {
+  player: PlayerRating;
+  settings: RatingSettings;
+  /** Opponent level closest to the user's rating, if rated */
+  suggestedElo: number | null;
+  /** Pick the suggested level on the setup screen */
+  onUseSuggested: (elo: number) => void;
+}
+
+/** Deviation above which the rating is still provisional */
+const PROVISIONAL_DEVIATION = 110;
+
+const selectClass =
+  "px-2 py-1 bg-neutral-900 text-neutral-200 text-sm rounded-lg border border-neutral-700 focus:border-amber-500 focus:outline-none";
+
+/**
+ * The user's estimated rating from games against Maia, its history, and the
+ * opponent level to play next. Also where retried games are configured.
+ */
+export function RatingPanel({ player, settings, suggestedElo, onUseSuggested }: RatingPanelProps) {
+  const isRated = player.history.length > 0;
+
+  return (
+    <div className="flex flex-col gap-3">
+      {isRated ? (
+        <div className="flex items-baseline justify-between gap-4">
+          <div>
+            <span className="text-3xl font-bold text-white">{Math.round(player.rating)}</span>
+            <span className="ml-2 text-sm text-neutral-400">
+              ±{Math.round(player.deviation * 2)}
+              {player.deviation > PROVISIONAL_DEVIATION && " · provisional"}
+            </span>
+          </div>
+          <span className="text-sm text-neutral-500">
+            {player.history.length} rated {player.history.length === 1 ? "game" : "games"}
+          </span>
+        </div>
+      ) : (
+        <p className="text-sm text-neutral-400 text-center">Finish a game against Maia to get a rating.</p>
+      )}
+
+      {isRated && <RatingChart history={player.history} />}
+
+      {suggestedElo !== null && (
+        <div className="flex items-center justify-between gap-4 text-sm">
+          <span className="text-neutral-300">
+            Suggested opponent: <span className="font-semibold text-amber-400">Maia {suggestedElo}</span>
+          </span>
+          <button
+            onClick={() => onUseSuggested(suggestedElo)}
+            className="px-3 py-1 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded-lg transition-colors"
+          >
+            Use
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2 text-sm text-neutral-400">
+        <span>Games with retries</span>
+        <div className="flex gap-2">
+          <select
+            value={settings.retryPolicy}
+            onChange={(e) => saveRatingSettings({ ...settings, retryPolicy: e.target.value as RetryPolicy })}
+            className={selectClass}
+          >
+            {Object.entries(RETRY_POLICY_LABELS).map(([policy, label]) => (
+              <option key={policy} value={policy}>{label}</option>
+            ))}
+          </select>
+          {settings.retryPolicy !== "ignore" && (
+            <select
+              value={settings.retryLimit}
+              onChange={(e) => saveRatingSettings({ ...settings, retryLimit: Number(e.target.value) })}
+              className={selectClass}
+              title={settings.retryPolicy === "weight" ? "Retries at which a game stops counting" : "Retries that leave a game out"}
+            >
+              {[1, 2, 3, 4, 5, 6, 8, 10].map((limit) => (
+                <option key={limit} value={limit}>{limit}+</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import type { ImportedGame } from "../lib/pgn";
+
+interface ReplayPanelProps {
+  games: ImportedGame[];
+  /** Index of the game on the board */
+  index: number;
+  onSelectGame: (index: number) => void;
+  /** Maia's strength when taking over */
+  elo: number;
+  eloOptions: { elo: number; label: string }[];
+  onEloChange: (elo: number) => void;
+  /** Whether the shown position can still be played (the game isn't over there) */
+  canTakeOver: boolean;
+  onTakeOver: () => void;
+  onClose: () => void;
+}
+
+/** "Carlsen, Magnus (2830)" */
+function playerLabel(name: string | undefined, elo: string | undefined): string {
+  const player = name && name !== "?" ? name : "Unknown";
+  return elo && elo !== "?" ? `${player} (${elo})` : player;
+}
+
+/**
+ * Replay viewer controls: game headers, game picker for multi-game files,
+ * and "take over from here" against Maia.
+ */
+export function ReplayPanel({
+  games,
+  index,
+  onSelectGame,
+  elo,
+  eloOptions,
+  onEloChange,
+  canTakeOver,
+  onTakeOver,
+  onClose,
+}: ReplayPanelProps) {
+  const { headers } = games[index];
+  const details = [headers.Event, headers.Site, headers.Date]
+    .filter((value) => value && value !== "?" && !value.includes("??"))
+    .join(" • ");
+
+  return (
+    <div className="mt-4 w-full max-w-xl bg-neutral-900/80 border border-neutral-700 rounded-xl px-4 py-3 flex flex-col gap-3">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="text-sm font-semibold text-white truncate">
+            {playerLabel(headers.White, headers.WhiteElo)} vs {playerLabel(headers.Black, headers.BlackElo)}
+          </div>
+          {details && <div className="text-xs text-neutral-500 truncate">{details}</div>}
+        </div>
+        <span className="font-mono text-sm font-bold text-amber-400">{headers.Result ?? "*"}</span>
+      </div>
+
+      {games.length > 1 && (
+        <select
+          value={index}
+          onChange={(e) => onSelectGame(Number(e.target.value))}
+          className="w-full px-3 py-2 bg-neutral-800 text-neutral-200 text-sm rounded-lg border border-neutral-700 focus:border-amber-500 focus:outline-none"
+        >
+          {games.map((game, i) => (
+            <option key={i} value={i}>
+              {i + 1}. {game.headers.White ?? "?"} vs {game.headers.Black ?? "?"} {game.headers.Result ?? ""}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <div className="flex items-center gap-2">
+        <select
+          value={elo}
+          onChange={(e) => onEloChange(Number(e.target.value))}
+          className="px-3 py-2 bg-neutral-800 text-neutral-200 text-sm rounded-lg border border-neutral-700 focus:border-amber-500 focus:outline-none"
+          title="Computer strength"
+        >
+          {eloOptions.map((option) => (
+            <option key={option.elo} value={option.elo}>
+              Maia {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={onTakeOver}
+          disabled={!canTakeOver}
+          className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-500 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none"
+        >
+          Take over from here
+        </button>
+        <button
+          onClick={onClose}
+          className="px-3 py-2 text-sm text-neutral-400 hover:text-white bg-neutral-800 hover:bg-neutral-700 rounded-lg transition-colors"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
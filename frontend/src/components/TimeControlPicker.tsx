@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import {
+  type DelayKind,
+  type TimeControl,
+  DEFAULT_TIME_CONTROL,
+  TIME_CONTROL_CATEGORY_LABELS,
+  TIME_CONTROL_PRESETS,
+  formatTimeControl,
+  getTimeControlCategory,
+  isSameTimeControl,
+} from "../lib/time-control";
+
+interface TimeControlPickerProps {
+  value: TimeControl;
+  onChange: (control: TimeControl) => void;
+}
+
+const inputClass =
+  "w-full px-2 py-1 bg-neutral-900 text-neutral-200 text-sm rounded-lg border border-neutral-700 focus:border-amber-500 focus:outline-none";
+
+/**
+ * Presets from bullet to classical plus untimed, or a custom control with
+ * increment and delay.
+ */
+export function TimeControlPicker({ value, onChange }: TimeControlPickerProps) {
+  const isPreset = TIME_CONTROL_PRESETS.some((preset) => isSameTimeControl(preset, value));
+  const [showCustom, setShowCustom] = useState(!isPreset);
+  const timed = value.initial ?? DEFAULT_TIME_CONTROL.initial!;
+
+  const update = (patch: Partial<TimeControl>) => onChange({ ...value, initial: timed, ...patch });
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="grid grid-cols-4 gap-2">
+        {TIME_CONTROL_PRESETS.map((preset) => {
+          const selected = !showCustom && isSameTimeControl(preset, value);
+          return (
+            <button
+              key={formatTimeControl(preset)}
+              onClick={() => {
+                setShowCustom(false);
+                onChange(preset);
+              }}
+              className={`px-2 py-2 rounded-lg text-sm transition-colors ${
+                selected ? "bg-amber-600 text-white" : "bg-neutral-700 text-neutral-300 hover:bg-neutral-600"
+              }`}
+            >
+              <div className="font-semibold">{formatTimeControl(preset)}</div>
+              <div className="text-[10px] uppercase tracking-wide opacity-70">
+                {TIME_CONTROL_CATEGORY_LABELS[getTimeControlCategory(preset)]}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={() => {
+          setShowCustom(true);
+          if (value.initial === null) onChange(DEFAULT_TIME_CONTROL);
+        }}
+        className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+          showCustom ? "bg-amber-600 text-white" : "bg-neutral-700 text-neutral-300 hover:bg-neutral-600"
+        }`}
+      >
+        Custom{showCustom && ` · ${formatTimeControl(value)} ${TIME_CONTROL_CATEGORY_LABELS[getTimeControlCategory(value)]}`}
+      </button>
+
+      {showCustom && (
+        <div className="grid grid-cols-2 gap-2 text-xs text-neutral-400">
+          <label className="flex flex-col gap-1">
+            Minutes per side
+            <input
+              type="number"
+              min={0.5}
+              max={180}
+              step={0.5}
+              value={timed / 60}
+              onChange={(e) => {
+                const minutes = Number(e.target.value);
+                if (minutes > 0) update({ initial: Math.round(minutes * 60) });
+              }}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Increment (seconds)
+            <input
+              type="number"
+              min={0}
+              max={180}
+              value={value.increment}
+              onChange={(e) => update({ increment: Math.max(0, Number(e.target.value) || 0) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Delay (seconds)
+            <input
+              type="number"
+              min={0}
+              max={60}
+              value={value.delay}
+              onChange={(e) => update({ delay: Math.max(0, Number(e.target.value) || 0) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Delay type
+            <select
+              value={value.delayKind}
+              onChange={(e) => update({ delayKind: e.target.value as DelayKind })}
+              disabled={value.delay === 0}
+              className={`${inputClass} disabled:opacity-40`}
+            >
+              <option value="simple">Simple</option>
+              <option value="bronstein">Bronstein</option>
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
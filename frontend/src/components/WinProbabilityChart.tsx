@@ -0,0 +1,91 @@
+"use client";
+
+import type { MistakeSeverity } from "../lib/intervention";
+import type { ReviewMoment, WinProbabilityPoint } from "../lib/review";
+
+const WIDTH = 480;
+const HEIGHT = 120;
+
+const SEVERITY_COLORS: Record<MistakeSeverity, string> = {
+  inaccuracy: "#38bdf8",
+  mistake: "#fbbf24",
+  blunder: "#ef4444",
+  "missed-win": "#c084fc",
+};
+
+interface WinProbabilityChartProps {
+  points: WinProbabilityPoint[];
+  /** Flagged moves, marked on the curve */
+  moments: ReviewMoment[];
+  /** Position shown on the board */
+  selectedId: number | null;
+  onSelect: (nodeId: number) => void;
+}
+
+/**
+ * White's win probability over the game. White's share fills from the
+ * bottom; clicking anywhere jumps to the nearest position.
+ */
+export function WinProbabilityChart({ points, moments, selectedId, onSelect }: WinProbabilityChartProps) {
+  if (points.length < 2) {
+    return <p className="text-sm text-neutral-500">Not enough analyzed moves to chart.</p>;
+  }
+
+  const lastPly = points[points.length - 1].ply;
+  const x = (ply: number) => (ply / Math.max(lastPly, 1)) * WIDTH;
+  const y = (winProbability: number) => (1 - winProbability) * HEIGHT;
+  const line = points.map((p) => `${x(p.ply)},${y(p.winProbability)}`).join(" ");
+  const area = `0,${HEIGHT} ${line} ${x(lastPly)},${HEIGHT}`;
+  const selected = points.find((p) => p.nodeId === selectedId);
+  const byNode = new Map(points.map((p) => [p.nodeId, p]));
+
+  // Each position owns the strip of the chart nearest to it
+  const bands = points.map((p, i) => {
+    const left = i === 0 ? 0 : (x(points[i - 1].ply) + x(p.ply)) / 2;
+    const right = i === points.length - 1 ? WIDTH : (x(p.ply) + x(points[i + 1].ply)) / 2;
+    return { point: p, left, width: right - left };
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto rounded-lg bg-neutral-800 cursor-pointer"
+      role="img"
+      aria-label="White win probability over the game"
+    >
+      <polygon points={area} fill="#f5f5f5" opacity={0.85} />
+      <line x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} stroke="#737373" strokeDasharray="4 4" strokeWidth={1} />
+      <polyline points={line} fill="none" stroke="#f59e0b" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      {selected && (
+        <line x1={x(selected.ply)} y1={0} x2={x(selected.ply)} y2={HEIGHT} stroke="#f59e0b" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      )}
+      {moments
+        .filter((moment) => !moment.retried && byNode.has(moment.nodeId))
+        .map((moment) => (
+          <circle
+            key={moment.nodeId}
+            cx={x(moment.ply)}
+            cy={y(byNode.get(moment.nodeId)!.winProbability)}
+            r={4}
+            fill={SEVERITY_COLORS[moment.severity]}
+            stroke="#171717"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      {bands.map(({ point, left, width }) => (
+        <rect
+          key={point.nodeId}
+          x={left}
+          y={0}
+          width={width}
+          height={HEIGHT}
+          fill="transparent"
+          onClick={() => onSelect(point.nodeId)}
+        >
+          <title>{`Ply ${point.ply}: White ${Math.round(point.winProbability * 100)}%`}</title>
+        </rect>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * Adaptive Opponent Strength
+ *
+ * Instead of a fixed level, Maia can adapt to the user so they score about
+ * a target share of points. Between games the starting Elo follows the
+ * user's recent adaptive results (via their performance rating); during a
+ * game it drifts up or down with the user's recent win probability.
+ */
+
+import { type GameTree, getMainline } from './game-tree'
+
+/** Share of points the user should score against an adaptive Maia */
+export const DEFAULT_TARGET_SCORE = 0.5
+
+/** Target scores offered on the setup screen */
+export const TARGET_SCORE_OPTIONS = [0.35, 0.5, 0.65]
+
+/** Adaptive games that set the next starting Elo */
+export const RECENT_GAMES = 5
+
+/** Positions averaged for the in-game trend */
+export const TREND_PLIES = 6
+
+/** Furthest Maia drifts from the starting Elo during a game */
+export const MAX_IN_GAME_DRIFT = 200
+
+/** Recent scores are clamped to this margin so one result can't swing too far */
+const SCORE_CLAMP = 0.25
+
+/** Elo settings are rounded to this step */
+const ELO_STEP = 10
+
+export interface EloRange {
+  min: number
+  max: number
+}
+
+export interface RecentResult {
+  opponentElo: number
+  /** 1 for a win, 0.5 for a draw, 0 for a loss */
+  score: number
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const toElo = (elo: number, range: EloRange) => clamp(Math.round(elo / ELO_STEP) * ELO_STEP, range.min, range.max)
+
+/** Elo difference at which the stronger side is expected to score `score` */
+const eloDifference = (score: number) => 400 * Math.log10(score / (1 - score))
+
+/**
+ * Starting Elo for the next adaptive game: the level at which the user's
+ * recent performance would score the target. With no recent games, the
+ * chosen level.
+ */
+export function getAdaptiveStartElo(
+  recent: RecentResult[],
+  fallback: number,
+  range: EloRange,
+  target: number = DEFAULT_TARGET_SCORE
+): number {
+  const games = recent.slice(0, RECENT_GAMES)
+  if (games.length === 0) return toElo(fallback, range)
+
+  const opponentElo = games.reduce((sum, g) => sum + g.opponentElo, 0) / games.length
+  const score = clamp(games.reduce((sum, g) => sum + g.score, 0) / games.length, SCORE_CLAMP, 1 - SCORE_CLAMP)
+  const performance = opponentElo + eloDifference(score)
+  return toElo(performance - eloDifference(target), range)
+}
+
+/**
+ * Maia's Elo right now in an adaptive game: the starting Elo moved towards
+ * the user's recent win probability — up when they are doing better than
+ * the target, down when worse.
+ */
+export function getInGameElo(
+  startElo: number,
+  tree: GameTree,
+  playerColor: 'w' | 'b',
+  range: EloRange,
+  target: number = DEFAULT_TARGET_SCORE
+): number {
+  const recent = getMainline(tree)
+    .filter((node) => node.winProbability !== null)
+    .slice(-TREND_PLIES)
+    .map((node) => (playerColor === 'w' ? node.winProbability! : 1 - node.winProbability!))
+  if (recent.length === 0) return toElo(startElo, range)
+
+  const trend = recent.reduce((sum, wp) => sum + wp, 0) / recent.length
+  const drift = clamp((trend - target) * 2, -1, 1) * MAX_IN_GAME_DRIFT
+  return toElo(startElo + drift, range)
+}
+
+/**
+ * The Elo Maia played a game at on average, from the Elo recorded with its
+ * moves, or the fallback if none was recorded.
+ */
+export function getPlayedElo(tree: GameTree, fallback: number): number {
+  const elos = getMainline(tree)
+    .map((node) => node.elo)
+    .filter((elo): elo is number => typeof elo === 'number')
+  if (elos.length === 0) return fallback
+  return Math.round(elos.reduce((sum, elo) => sum + elo, 0) / elos.length)
+}
@@ -0,0 +1,39 @@
+/**
+ * Computer Think
+ *
+ * Maia answers at once, so her thinking is played out on the clock instead:
+ * each simulated second passes in a third of a real one. The game can end
+ * while she thinks — the user resigns, aborts or accepts a draw, or a clock
+ * runs out — and then her move is dropped.
+ */
+
+/** Real ms per simulated second of thinking (3x speed) */
+export const THINK_TICK_MS = Math.floor(1000 / 3)
+
+export interface SimulateThinkOptions {
+  /** Think time in simulated seconds */
+  seconds: number
+  /** Checked after every wait: true once the move should be dropped, e.g. the game has ended */
+  isCancelled: () => boolean
+  /** Charge one simulated second; return false to stop thinking, e.g. when the clock flags */
+  onSecond: () => boolean
+  /** Real ms per simulated second (default THINK_TICK_MS) */
+  tickMs?: number
+}
+
+/**
+ * Play out the think time. Resolves true if the move should be played, or
+ * false if the think was cut short.
+ */
+export async function simulateThink({
+  seconds,
+  isCancelled,
+  onSecond,
+  tickMs = THINK_TICK_MS,
+}: SimulateThinkOptions): Promise<boolean> {
+  for (let i = 0; i < seconds; i++) {
+    await new Promise((resolve) => setTimeout(resolve, tickMs))
+    if (isCancelled() || !onSecond()) return false
+  }
+  return !isCancelled()
+}
@@ -0,0 +1,236 @@
+/**
+ * Batch Post-Game Analysis
+ *
+ * Runs every position of imported games through Maia2 and grades the user's
+ * moves with the same severity bands the live coach uses, producing a report
+ * of mistakes per game with the move Maia2 recommended instead.
+ *
+ * Requests go out one at a time with a minimum gap between them so a long PGN
+ * file doesn't flood the local model server.
+ */
+
+import { Chess } from 'chess.js'
+import { fetchAnalysis, type AnalysisResult, type FetchAnalysisOptions } from './chess-api'
+import { calculateMaterial, uciToSan } from './chess-utils'
+import { type GameTree, annotateNode, getMainline } from './game-tree'
+import { type MistakeSeverity, classifyMove, getContextualBands } from './intervention'
+import type { ImportedGame } from './pgn'
+
+/** Minimum time between two requests to the model server (ms) */
+export const BATCH_REQUEST_INTERVAL_MS = 150
+
+export interface MoveReport {
+  /** Tree node of the move */
+  nodeId: number
+  moveNumber: number
+  color: 'w' | 'b'
+  /** Move as played, in SAN */
+  san: string
+  severity: MistakeSeverity
+  /** Win probability before and after the move (white's perspective) */
+  winProbBefore: number
+  winProbAfter: number
+  /** Maia2's recommended move in UCI and SAN, or null if unknown */
+  bestMove: string | null
+  bestMoveSan: string | null
+}
+
+export interface GameReport {
+  /** Index of the game in the imported file */
+  index: number
+  headers: Record<string, string>
+  /** Sides whose moves were graded */
+  colors: ('w' | 'b')[]
+  /** The game with win probabilities, severities and best moves annotated */
+  tree: GameTree
+  /** Graded moves, in game order */
+  mistakes: MoveReport[]
+  /** Positions the model server failed to analyze */
+  failedPositions: number
+}
+
+export interface BatchProgress {
+  /** Game being analyzed (index in the file) */
+  gameIndex: number
+  gameCount: number
+  /** Positions analyzed so far, across all games */
+  done: number
+  total: number
+}
+
+export interface BatchReport {
+  games: GameReport[]
+  /** True when the run was stopped early — games holds the finished ones */
+  cancelled: boolean
+}
+
+export interface BatchAnalysisOptions {
+  /** ELO passed to the model and used to scale the severity bands */
+  elo: number
+  /**
+   * The user's name as it appears in the White/Black headers. Only that
+   * player's moves are graded; when omitted (or not found), both sides are.
+   */
+  player?: string
+  /** Minimum gap between requests (default BATCH_REQUEST_INTERVAL_MS) */
+  intervalMs?: number
+  /** Stops the run after the current request */
+  signal?: AbortSignal
+  onProgress?: (progress: BatchProgress) => void
+  /** Position analysis function (default fetchAnalysis) — swappable for tests */
+  analyze?: (fen: string, options?: FetchAnalysisOptions) => Promise<AnalysisResult>
+}
+
+/**
+ * The sides the user played in a game, matched on the player headers.
+ */
+export function getPlayerColors(headers: Record<string, string>, player?: string): ('w' | 'b')[] {
+  const name = player?.trim().toLowerCase()
+  if (!name) return ['w', 'b']
+
+  const colors: ('w' | 'b')[] = []
+  if (headers.White?.trim().toLowerCase() === name) colors.push('w')
+  if (headers.Black?.trim().toLowerCase() === name) colors.push('b')
+  return colors.length > 0 ? colors : ['w', 'b']
+}
+
+/**
+ * Resolves after the delay, or straight away once the signal aborts.
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (ms <= 0 || signal?.aborted) return resolve()
+    const done = () => {
+      clearTimeout(timeout)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const timeout = setTimeout(done, ms)
+    signal?.addEventListener('abort', done)
+  })
+}
+
+/**
+ * Wraps the analysis function so calls are spaced at least intervalMs apart.
+ * Callers are expected to await each call before making the next.
+ */
+export function throttleAnalysis(
+  analyze: NonNullable<BatchAnalysisOptions['analyze']>,
+  intervalMs: number = BATCH_REQUEST_INTERVAL_MS,
+  signal?: AbortSignal
+): NonNullable<BatchAnalysisOptions['analyze']> {
+  let lastRequestAt = -Infinity
+  return async (fen, options) => {
+    await wait(lastRequestAt + intervalMs - Date.now(), signal)
+    lastRequestAt = Date.now()
+    return analyze(fen, options)
+  }
+}
+
+/**
+ * Win probability (white's perspective) and best move for a position.
+ * Finished games are scored directly; a failed request gives null.
+ */
+async function evaluatePosition(
+  fen: string,
+  elo: number,
+  analyze: NonNullable<BatchAnalysisOptions['analyze']>
+): Promise<{ winProbability: number; bestMove: string | null } | null> {
+  const game = new Chess(fen)
+  if (game.isCheckmate()) return { winProbability: game.turn() === 'w' ? 0 : 1, bestMove: null }
+  if (game.isDraw()) return { winProbability: 0.5, bestMove: null }
+
+  try {
+    const result = await analyze(fen, { eloSelf: elo, eloOppo: elo })
+    return { winProbability: result.winProbability, bestMove: result.bestMove }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Analyze every main-line position of the games and report the user's
+ * inaccuracies, mistakes, blunders and missed wins.
+ */
+export async function analyzeGames(
+  games: ImportedGame[],
+  {
+    elo,
+    player,
+    intervalMs = BATCH_REQUEST_INTERVAL_MS,
+    signal,
+    onProgress,
+    analyze = fetchAnalysis,
+  }: BatchAnalysisOptions
+): Promise<BatchReport> {
+  const throttled = throttleAnalysis(analyze, intervalMs, signal)
+  const mainlines = games.map((game) => getMainline(game.tree))
+  // Every move plus the starting position
+  const total = mainlines.reduce((sum, line) => sum + line.length + 1, 0)
+  const reports: GameReport[] = []
+  let done = 0
+
+  for (const [index, game] of games.entries()) {
+    const mainline = mainlines[index]
+    const fens = [game.tree.nodes[game.tree.rootId].fen, ...mainline.map((node) => node.fen)]
+    const evaluations: Awaited<ReturnType<typeof evaluatePosition>>[] = []
+
+    for (const fen of fens) {
+      if (signal?.aborted) return { games: reports, cancelled: true }
+      evaluations.push(await evaluatePosition(fen, elo, throttled))
+      done++
+      onProgress?.({ gameIndex: index, gameCount: games.length, done, total })
+    }
+
+    const colors = getPlayerColors(game.headers, player)
+    const mistakes: MoveReport[] = []
+    let tree = evaluations[0]
+      ? annotateNode(game.tree, game.tree.rootId, { winProbability: evaluations[0].winProbability })
+      : game.tree
+
+    mainline.forEach((node, i) => {
+      const before = evaluations[i]
+      const after = evaluations[i + 1]
+      const color = node.color!
+      if (after) tree = annotateNode(tree, node.id, { winProbability: after.winProbability })
+      if (!before || !after || !colors.includes(color)) return
+
+      // Same bands as the live coach: ELO, game phase and how decided the position was
+      const fenBefore = fens[i]
+      const material = calculateMaterial(new Chess(fenBefore))
+      const bands = getContextualBands({
+        elo,
+        moveNumber: node.moveNumber,
+        totalMaterial: material.whiteMaterial + material.blackMaterial,
+        winProbability: before.winProbability,
+      })
+      const severity = classifyMove(before.winProbability, after.winProbability, color, bands)
+      if (!severity) return
+
+      const bestMove = before.bestMove !== node.uci ? before.bestMove : null
+      tree = annotateNode(tree, node.id, { severity, bestMove })
+      mistakes.push({
+        nodeId: node.id,
+        moveNumber: node.moveNumber,
+        color,
+        san: node.san!,
+        severity,
+        winProbBefore: before.winProbability,
+        winProbAfter: after.winProbability,
+        bestMove,
+        bestMoveSan: bestMove ? uciToSan(fenBefore, bestMove) : null,
+      })
+    })
+
+    reports.push({
+      index,
+      headers: game.headers,
+      colors,
+      tree,
+      mistakes,
+      failedPositions: evaluations.filter((evaluation) => evaluation === null).length,
+    })
+  }
+
+  return { games: reports, cancelled: false }
+}
@@ -0,0 +1,99 @@
+/**
+ * Candidate Moves
+ *
+ * Turns Maia2's move probability distribution for the pre-mistake position
+ * into the "top alternatives" list shown in the coach modal, with the win
+ * probability after each candidate.
+ */
+
+import { Chess } from 'chess.js'
+import { fetchAnalysis, type AnalysisResult, type FetchAnalysisOptions } from './chess-api'
+import { playUci } from './chess-utils'
+
+/** How many alternatives the coach modal lists */
+export const CANDIDATE_COUNT = 3
+
+export interface CandidateMove {
+  /** Move in UCI (e.g. "g1f3") */
+  uci: string
+  /** Move in SAN (e.g. "Nf3") */
+  san: string
+  from: string
+  to: string
+  /** Maia2's probability of a human playing this move (0–1) */
+  probability: number
+  /** Win probability after the move (white's perspective), or null until analyzed */
+  winProbAfter: number | null
+}
+
+export interface AnalyzeCandidatesOptions {
+  /** Number of candidates (default CANDIDATE_COUNT) */
+  count?: number
+  /** ELO passed to the model when evaluating each candidate */
+  elo?: number
+  /** Position analysis function (default fetchAnalysis) — swappable for tests */
+  analyze?: (fen: string, options?: FetchAnalysisOptions) => Promise<AnalysisResult>
+}
+
+/**
+ * The most likely legal moves in the position, in SAN, most probable first.
+ * Win probabilities are left null — see analyzeCandidates.
+ */
+export function getTopCandidates(
+  fen: string,
+  moveProbs: Record<string, number> | null,
+  count = CANDIDATE_COUNT
+): CandidateMove[] {
+  if (!moveProbs) return []
+
+  const candidates: CandidateMove[] = []
+  const ranked = Object.entries(moveProbs).sort(([, a], [, b]) => b - a)
+
+  for (const [uci, probability] of ranked) {
+    if (candidates.length >= count) break
+    const move = playUci(new Chess(fen), uci)
+    if (!move) continue // Skip moves that are not legal here
+    candidates.push({ uci, san: move.san, from: move.from, to: move.to, probability, winProbAfter: null })
+  }
+
+  return candidates
+}
+
+/**
+ * Win probability (white's perspective) of the position after a candidate.
+ * Finished games are scored directly; a failed request gives null.
+ */
+async function evaluateAfter(
+  fen: string,
+  uci: string,
+  elo: number | undefined,
+  analyze: NonNullable<AnalyzeCandidatesOptions['analyze']>
+): Promise<number | null> {
+  const game = new Chess(fen)
+  playUci(game, uci)
+
+  if (game.isCheckmate()) return game.turn() === 'w' ? 0 : 1
+  if (game.isDraw()) return 0.5
+
+  try {
+    const options = elo !== undefined ? { eloSelf: elo, eloOppo: elo } : undefined
+    const result = await analyze(game.fen(), options)
+    return result.winProbability
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The top candidates with the win probability after each one, evaluated in
+ * parallel.
+ */
+export async function analyzeCandidates(
+  fen: string,
+  moveProbs: Record<string, number> | null,
+  { count = CANDIDATE_COUNT, elo, analyze = fetchAnalysis }: AnalyzeCandidatesOptions = {}
+): Promise<CandidateMove[]> {
+  const candidates = getTopCandidates(fen, moveProbs, count)
+  const winProbs = await Promise.all(candidates.map(c => evaluateAfter(fen, c.uci, elo, analyze)))
+  return candidates.map((c, i) => ({ ...c, winProbAfter: winProbs[i] }))
+}
@@ -0,0 +1,160 @@
+/**
+ * Chess Clock
+ *
+ * Remaining time for both sides in milliseconds, kept from monotonic
+ * timestamps (performance.now()) rather than counted down tick by tick — so
+ * the clock doesn't drift with a late timer, and each move is charged
+ * exactly the time it took, fractions of a second included. Only the side to
+ * move has a running clock; pausing it (for a coach intervention) keeps the
+ * time already spent on the move.
+ *
+ * The state is a plain value: every function returns a new clock, and the
+ * current time is passed in so tests can drive it with fake timers.
+ */
+
+import { type TimeControl, getClockAfterMove, getTimeCharged } from './time-control'
+
+/** How often a running clock is redrawn (ms) — often enough for tenths */
+export const CLOCK_TICK_MS = 100
+
+/** Below this much time (ms) the clock shows tenths of a second */
+export const TENTHS_THRESHOLD_MS = 10_000
+
+type Color = 'w' | 'b'
+
+export interface ChessClock {
+  control: TimeControl
+  /** Remaining ms per side, not counting the move being timed */
+  remaining: Record<Color, number>
+  /** The side whose move is being timed */
+  turn: Color
+  /** When the clock was last started, or null while it is stopped */
+  runningSince: number | null
+  /** Ms spent on the current move up to runningSince */
+  moveElapsed: number
+  /** Increment and delay credited for the last move, taken back with it */
+  lastBonus: number
+}
+
+const opponent = (color: Color): Color => (color === 'w' ? 'b' : 'w')
+
+/**
+ * A stopped clock with both sides at the control's starting time (or the
+ * given times), `turn` to move.
+ */
+export function createClock(
+  control: TimeControl,
+  turn: Color = 'w',
+  remaining: Record<Color, number> = { w: (control.initial ?? 0) * 1000, b: (control.initial ?? 0) * 1000 }
+): ChessClock {
+  return { control, remaining: { ...remaining }, turn, runningSince: null, moveElapsed: 0, lastBonus: 0 }
+}
+
+export function isClockRunning(clock: ChessClock): boolean {
+  return clock.runningSince !== null
+}
+
+/** Ms spent so far on the move being timed */
+export function getMoveElapsed(clock: ChessClock, now: number): number {
+  return clock.moveElapsed + (clock.runningSince === null ? 0 : Math.max(0, now - clock.runningSince))
+}
+
+/** Ms taken off the mover's clock for the move being timed */
+const getCharged = (clock: ChessClock, now: number) =>
+  Math.round(getTimeCharged(clock.control, getMoveElapsed(clock, now) / 1000) * 1000)
+
+/**
+ * A side's remaining time in ms right now.
+ */
+export function getRemaining(clock: ChessClock, color: Color, now: number): number {
+  if (color !== clock.turn) return clock.remaining[color]
+  return Math.max(0, clock.remaining[color] - getCharged(clock, now))
+}
+
+export function getClockTimes(clock: ChessClock, now: number): Record<Color, number> {
+  return { w: getRemaining(clock, 'w', now), b: getRemaining(clock, 'b', now) }
+}
+
+/**
+ * The side that has run out of time, or null. Untimed games never flag.
+ */
+export function getFlaggedSide(clock: ChessClock, now: number): Color | null {
+  if (clock.control.initial === null) return null
+  return getRemaining(clock, clock.turn, now) <= 0 ? clock.turn : null
+}
+
+/**
+ * Start (or resume) timing the side to move. Untimed clocks never run.
+ */
+export function startClock(clock: ChessClock, now: number): ChessClock {
+  if (clock.runningSince !== null || clock.control.initial === null) return clock
+  return { ...clock, runningSince: now }
+}
+
+/**
+ * Stop the clock, keeping the time spent on the move so far.
+ */
+export function stopClock(clock: ChessClock, now: number): ChessClock {
+  if (clock.runningSince === null) return clock
+  return { ...clock, moveElapsed: getMoveElapsed(clock, now), runningSince: null }
+}
+
+/**
+ * Count extra time against the move being timed, e.g. the computer's
+ * fast-forwarded thinking.
+ */
+export function chargeClock(clock: ChessClock, ms: number): ChessClock {
+  return { ...clock, moveElapsed: clock.moveElapsed + Math.max(0, ms) }
+}
+
+/**
+ * The mover completes their move: their clock is charged the time the move
+ * took, then credited any increment and delay, and the opponent's clock
+ * starts if the mover's was running.
+ */
+export function pressClock(clock: ChessClock, now: number): ChessClock {
+  const mover = clock.turn
+  const used = getMoveElapsed(clock, now)
+  const left = getRemaining(clock, mover, now)
+  const after = clock.control.initial === null
+    ? left
+    : Math.round(getClockAfterMove(clock.control, left / 1000, used / 1000) * 1000)
+  return {
+    ...clock,
+    remaining: { ...clock.remaining, [mover]: after },
+    turn: opponent(mover),
+    runningSince: clock.runningSince === null ? null : now,
+    moveElapsed: 0,
+    lastBonus: after - left,
+  }
+}
+
+/**
+ * Take the last move back: it's the mover's turn again, without the bonus
+ * they were credited for it. The time they spent on it stays spent, and the
+ * opponent's unfinished move isn't charged.
+ */
+export function takeBackMove(clock: ChessClock, now: number): ChessClock {
+  const mover = opponent(clock.turn)
+  return {
+    ...clock,
+    remaining: { ...clock.remaining, [mover]: clock.remaining[mover] - clock.lastBonus },
+    turn: mover,
+    runningSince: clock.runningSince === null ? null : now,
+    moveElapsed: 0,
+    lastBonus: 0,
+  }
+}
+
+/**
+ * Clock display: "9:58" — or "0:09.3", with tenths, under ten seconds.
+ */
+export function formatClock(ms: number): string {
+  const total = Math.max(0, ms)
+  if (total < TENTHS_THRESHOLD_MS) {
+    const tenths = Math.floor(total / 100)
+    return `0:0${Math.floor(tenths / 10)}.${tenths % 10}`
+  }
+  const seconds = Math.floor(total / 1000)
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
+}
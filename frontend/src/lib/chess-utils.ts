@@ -1,4 +1,4 @@
-import { Chess } from "chess.js";
+import { Chess, type Move, type Square } from "chess.js";
 
 // Piece values for material calculation
 export const PIECE_VALUES: Record<string, number> = {
@@ -95,3 +95,67 @@ export function formatTime(seconds: number): string {
 export function isLightSquare(col: number, row: number): boolean {
   return (col + row) % 2 === 0;
 }
+
+/**
+ * Play a UCI move (e.g. "g1f3", or "a7a8q" for a promotion) on the game.
+ * Returns the move played, or null if it is not legal in the current position.
+ */
+export function playUci(game: Chess, uci: string): Move | null {
+  try {
+    return game.move({
+      from: uci.slice(0, 2),
+      to: uci.slice(2, 4),
+      promotion: uci.length > 4 ? uci[4] : undefined,
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a UCI move (e.g. "g1f3") to SAN (e.g. "Nf3") for the given position.
+ * Returns the UCI string unchanged if the move is not legal in that position.
+ */
+export function uciToSan(fen: string, uci: string): string {
+  try {
+    return playUci(new Chess(fen), uci)?.san ?? uci;
+  } catch {
+    return uci;
+  }
+}
+
+/**
+ * Copy a game including its move history. `new Chess(game.fen())` keeps only
+ * the position, so undo, last-move highlighting and move numbering would break.
+ */
+export function cloneGame(game: Chess): Chess {
+  const history = game.history({ verbose: true });
+  const copy = new Chess(history.length > 0 ? history[0].before : game.fen());
+  for (const move of history) {
+    copy.move({ from: move.from, to: move.to, promotion: move.promotion });
+  }
+  return copy;
+}
+
+/** Pieces a pawn can promote to, in the order the promotion picker shows them */
+export const PROMOTION_PIECES = ["q", "n", "r", "b"] as const;
+
+export type PromotionPiece = (typeof PROMOTION_PIECES)[number];
+
+/**
+ * Check if moving from one square to another promotes a pawn, so the piece
+ * has to be chosen first
+ */
+export function isPromotionMove(game: Chess, from: Square, to: Square): boolean {
+  return game.moves({ square: from, verbose: true }).some((move) => move.to === to && move.promotion !== undefined);
+}
+
+/**
+ * The promotion piece for a key press: its letter (Q, N, R, B) or its place
+ * in the picker (1-4). Returns null for any other key.
+ */
+export function getPromotionPieceForKey(key: string): PromotionPiece | null {
+  const letter = PROMOTION_PIECES.find((piece) => piece === key.toLowerCase());
+  if (letter) return letter;
+  return /^[1-4]$/.test(key) ? PROMOTION_PIECES[Number(key) - 1] : null;
+}
@@ -0,0 +1,243 @@
+/**
+ * Critical Moments
+ *
+ * Walks a finished game through Maia2 and picks out its turning points, each
+ * one turned into a "find the best move" exercise:
+ *
+ *   - swings: moves after which the mover's win probability fell the most
+ *   - missed opportunities: the opponent slipped and the reply gave it back
+ *   - only moves: Maia2's move distribution is concentrated on one move
+ *
+ * Exercise answers are scored against Maia2's move distribution for the
+ * position, so a reasonable second choice still earns credit.
+ */
+
+import { Chess } from 'chess.js'
+import { fetchAnalysis, type AnalysisResult, type FetchAnalysisOptions } from './chess-api'
+import { uciToSan } from './chess-utils'
+import { throttleAnalysis } from './batch-analysis'
+import { type GameTree, getMainline } from './game-tree'
+import { calculateWinProbDrop } from './intervention'
+
+/** Mover's win-probability loss on a single move that counts as a swing */
+export const SWING_THRESHOLD = 0.15
+
+/** Opponent's loss that counts as an opportunity to punish */
+export const OPPORTUNITY_THRESHOLD = 0.10
+
+/** Top-move probability at which the position counts as an only-move situation */
+export const ONLY_MOVE_PROBABILITY = 0.75
+
+/** Most moments listed for one game */
+export const MAX_CRITICAL_MOMENTS = 6
+
+export type CriticalMomentType = 'missed-opportunity' | 'swing' | 'only-move'
+
+/** When one position qualifies for several types, the first listed wins */
+const TYPE_PRIORITY: CriticalMomentType[] = ['missed-opportunity', 'swing', 'only-move']
+
+export const CRITICAL_MOMENT_LABELS: Record<CriticalMomentType, string> = {
+  'missed-opportunity': 'Missed opportunity',
+  swing: 'Turning point',
+  'only-move': 'Only move',
+}
+
+export interface CriticalMoment {
+  type: CriticalMomentType
+  /** Tree node of the exercise position (before the move) */
+  nodeId: number
+  /** Half-moves played to reach the position */
+  ply: number
+  fen: string
+  /** Side to move — the side solving the exercise */
+  color: 'w' | 'b'
+  moveNumber: number
+  /** What was played in the game, in SAN and UCI */
+  playedSan: string
+  playedUci: string
+  /** Maia2's top move in UCI and SAN */
+  bestMove: string
+  bestMoveSan: string
+  /** Maia2's move distribution, used to score answers */
+  moves: Record<string, number>
+  /** White's win probability before and after the move played */
+  winProbBefore: number
+  winProbAfter: number
+  description: string
+}
+
+export interface FindCriticalMomentsOptions {
+  /** ELO passed to the model */
+  elo: number
+  /** Only look at this side's moves (default both) */
+  color?: 'w' | 'b'
+  /** Most moments to return (default MAX_CRITICAL_MOMENTS) */
+  limit?: number
+  /** Minimum gap between requests (default BATCH_REQUEST_INTERVAL_MS) */
+  intervalMs?: number
+  /** Stops the walk; resolves with no moments */
+  signal?: AbortSignal
+  /** Position analysis function (default fetchAnalysis) — swappable for tests */
+  analyze?: (fen: string, options?: FetchAnalysisOptions) => Promise<AnalysisResult>
+}
+
+const SIDE_NAMES = { w: 'White', b: 'Black' } as const
+
+const percent = (probability: number) => `${Math.round(probability * 100)}%`
+
+/** "14. Nxe5" / "13... Qd7" */
+function moveLabel(moveNumber: number, color: 'w' | 'b', san: string): string {
+  return `${moveNumber}${color === 'w' ? '.' : '...'} ${san}`
+}
+
+/** White's win probability for a finished position, or null if play goes on */
+function getResultProbability(fen: string): number | null {
+  const game = new Chess(fen)
+  if (game.isCheckmate()) return game.turn() === 'w' ? 0 : 1
+  if (game.isDraw()) return 0.5
+  return null
+}
+
+/**
+ * Analyze every main-line position of the game and return its critical
+ * moments in game order, keeping the most costly ones when there are more
+ * than the limit.
+ */
+export async function findCriticalMoments(
+  tree: GameTree,
+  {
+    elo,
+    color,
+    limit = MAX_CRITICAL_MOMENTS,
+    intervalMs,
+    signal,
+    analyze = fetchAnalysis,
+  }: FindCriticalMomentsOptions
+): Promise<CriticalMoment[]> {
+  const throttled = throttleAnalysis(analyze, intervalMs, signal)
+  const root = tree.nodes[tree.rootId]
+  const mainline = getMainline(tree)
+  const positions = [root, ...mainline]
+
+  const analyses: (AnalysisResult | null)[] = []
+  const winProbs: (number | null)[] = []
+  for (const node of positions) {
+    if (signal?.aborted) return []
+    const result = getResultProbability(node.fen)
+    let analysis: AnalysisResult | null = null
+    if (result === null) {
+      try {
+        analysis = await throttled(node.fen, { eloSelf: elo, eloOppo: elo })
+      } catch {
+        // Leave the position out
+      }
+    }
+    analyses.push(analysis)
+    winProbs.push(result ?? analysis?.winProbability ?? null)
+  }
+
+  const found: { moment: CriticalMoment; loss: number }[] = []
+
+  mainline.forEach((move, ply) => {
+    const mover = move.color!
+    const analysis = analyses[ply]
+    const before = winProbs[ply]
+    const after = winProbs[ply + 1]
+    if ((color && mover !== color) || !analysis || before === null || after === null) return
+
+    const loss = calculateWinProbDrop(before, after, mover)
+    const previous = ply > 0 ? mainline[ply - 1] : null
+    const beforePrevious = ply > 0 ? winProbs[ply - 1] : null
+    const opponentLoss =
+      previous && beforePrevious !== null ? calculateWinProbDrop(beforePrevious, before, previous.color!) : 0
+    const topProbability = Math.max(0, ...Object.values(analysis.moves))
+    const legalMoves = new Chess(positions[ply].fen).moves().length
+
+    const types = new Set<CriticalMomentType>()
+    if (opponentLoss >= OPPORTUNITY_THRESHOLD && loss >= opponentLoss / 2) types.add('missed-opportunity')
+    if (loss >= SWING_THRESHOLD) types.add('swing')
+    if (topProbability >= ONLY_MOVE_PROBABILITY && legalMoves > 1) types.add('only-move')
+    const type = TYPE_PRIORITY.find((t) => types.has(t))
+    if (!type) return
+
+    const played = moveLabel(move.moveNumber, mover, move.san!)
+    const bestMoveSan = uciToSan(positions[ply].fen, analysis.bestMove)
+    const moverBefore = mover === 'w' ? before : 1 - before
+    const moverAfter = mover === 'w' ? after : 1 - after
+    let description = `One move stood out here — Maia plays ${bestMoveSan} ${percent(topProbability)} of the time.`
+    if (type === 'missed-opportunity') {
+      const slip = moveLabel(previous!.moveNumber, previous!.color!, previous!.san!)
+      description = `After ${SIDE_NAMES[previous!.color!]}'s slip (${slip}), ${played} let the chance go.`
+    } else if (type === 'swing') {
+      description = `${SIDE_NAMES[mover]}'s win chances went from ${percent(moverBefore)} to ${percent(moverAfter)} after ${played}.`
+    }
+
+    found.push({
+      loss,
+      moment: {
+        type,
+        nodeId: positions[ply].id,
+        ply,
+        fen: positions[ply].fen,
+        color: mover,
+        moveNumber: move.moveNumber,
+        playedSan: move.san!,
+        playedUci: move.uci!,
+        bestMove: analysis.bestMove,
+        bestMoveSan,
+        moves: analysis.moves,
+        winProbBefore: before,
+        winProbAfter: after,
+        description,
+      },
+    })
+  })
+
+  return found
+    .sort((a, b) => b.loss - a.loss)
+    .slice(0, limit)
+    .map(({ moment }) => moment)
+    .sort((a, b) => a.ply - b.ply)
+}
+
+/** How well an exercise answer matched Maia2's distribution */
+export type ExerciseVerdict = 'best' | 'good' | 'playable' | 'miss'
+
+/** Share of the top move's probability needed for each verdict */
+export const EXERCISE_VERDICT_SCORES = { good: 0.5, playable: 0.15 }
+
+export const EXERCISE_VERDICT_LABELS: Record<ExerciseVerdict, string> = {
+  best: 'Best move!',
+  good: 'Good move',
+  playable: 'Playable',
+  miss: 'Not this time',
+}
+
+export interface ExerciseResult {
+  uci: string
+  san: string
+  /** Maia2's probability for the answer (0–1) */
+  probability: number
+  /** The answer's probability relative to the top move (0–1) */
+  score: number
+  verdict: ExerciseVerdict
+}
+
+/**
+ * Score an exercise answer (UCI) against the moment's move distribution.
+ */
+export function scoreExerciseMove(
+  moment: Pick<CriticalMoment, 'fen' | 'bestMove' | 'moves'>,
+  uci: string
+): ExerciseResult {
+  const probability = moment.moves[uci] ?? 0
+  const top = Math.max(0, ...Object.values(moment.moves))
+  const score = top > 0 ? Math.min(probability / top, 1) : 0
+
+  let verdict: ExerciseVerdict = 'miss'
+  if (uci === moment.bestMove) verdict = 'best'
+  else if (score >= EXERCISE_VERDICT_SCORES.good) verdict = 'good'
+  else if (score >= EXERCISE_VERDICT_SCORES.playable) verdict = 'playable'
+
+  return { uci, san: uciToSan(moment.fen, uci), probability, score, verdict }
+}
@@ -0,0 +1,11 @@
+/**
+ * Save text as a file in the browser (e.g. PGN exports).
+ */
+export function downloadTextFile(filename: string, text: string, type = 'text/plain'): void {
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
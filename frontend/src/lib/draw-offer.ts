@@ -0,0 +1,30 @@
+/**
+ * Draw Offers
+ *
+ * Whether Maia takes a draw the user offers, judged from her side of the
+ * board: she accepts when she's clearly worse, agrees in a level position
+ * unless she's ahead on material, and plays on when she's better or a couple
+ * of pawns up.
+ */
+
+/** Below this win probability Maia is glad of the half point */
+export const ACCEPT_BELOW = 0.4
+
+/** Up to this win probability the position counts as level */
+export const LEVEL_UP_TO = 0.55
+
+/** Material lead (pawns) at which Maia plays on regardless */
+export const DECLINE_MATERIAL_LEAD = 2
+
+/**
+ * Whether Maia, playing `aiColor`, accepts a draw. Win probability and
+ * material advantage are from White's side, as Maia2 and calculateMaterial
+ * give them.
+ */
+export function shouldAcceptDraw(winProbability: number, materialAdvantage: number, aiColor: 'w' | 'b'): boolean {
+  const aiWinProbability = aiColor === 'w' ? winProbability : 1 - winProbability
+  const aiMaterial = aiColor === 'w' ? materialAdvantage : -materialAdvantage
+  if (aiMaterial >= DECLINE_MATERIAL_LEAD) return false
+  if (aiWinProbability < ACCEPT_BELOW) return true
+  return aiWinProbability <= LEVEL_UP_TO && aiMaterial <= 0
+}
@@ -0,0 +1,204 @@
+/**
+ * Explanation providers used by the /api/explain route.
+ *
+ * A provider turns a narrator payload into coach text. The OpenAI provider is
+ * used when an API key is configured; the stub provider gives deterministic,
+ * offline text for local development and tests.
+ */
+
+import { uciToSan } from './chess-utils'
+import {
+  type NarratorPayload,
+  COACH_SYSTEM_PROMPT,
+  buildCoachPrompt,
+  getMoverPercents,
+  isNarratorPayload,
+} from './explain'
+
+const OPENAI_URL = 'https://api.openai.com/v1/chat/completions'
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini'
+
+export interface ExplanationProvider {
+  /** Provider name, for logging */
+  name: string
+  /** Stream the explanation for the given payload, chunk by chunk */
+  stream(payload: NarratorPayload, signal?: AbortSignal): AsyncIterable<string>
+}
+
+export interface StubProviderOptions {
+  /** Delay between words, to mimic a real model in development (default 0) */
+  delayMs?: number
+}
+
+/**
+ * Offline provider that fills a fixed template from the payload and streams
+ * it word by word.
+ */
+export function createStubProvider({ delayMs = 0 }: StubProviderOptions = {}): ExplanationProvider {
+  return {
+    name: 'stub',
+    async *stream(payload, signal) {
+      const { before, after } = getMoverPercents(payload)
+      const bestSan = uciToSan(payload.fen, payload.maia2_data.best_move)
+      const facts = payload.tactical_facts ?? []
+      // Motif sentences make the offline explanation concrete; without them, fall back to a nudge
+      const text = [
+        `${payload.user_move} lets your winning chances slip from ${before}% to ${after}%.`,
+        ...facts,
+        `${bestSan} was the stronger choice here.`,
+        ...(facts.length > 0 ? [] : ['Look at what your move allowed before trying again.']),
+      ].join(' ')
+
+      for (const word of text.split(/(?<= )/)) {
+        if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs))
+        if (signal?.aborted) return
+        yield word
+      }
+    },
+  }
+}
+
+export interface OpenAIProviderOptions {
+  apiKey: string
+  /** Chat model name (default "gpt-4o-mini") */
+  model?: string
+}
+
+/** One server-sent chunk of a streamed OpenAI chat completion */
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[]
+}
+
+/**
+ * Provider backed by the OpenAI chat completions API.
+ */
+export function createOpenAIProvider({
+  apiKey,
+  model = DEFAULT_OPENAI_MODEL,
+}: OpenAIProviderOptions): ExplanationProvider {
+  return {
+    name: 'openai',
+    async *stream(payload, signal) {
+      const response = await fetch(OPENAI_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          stream: true,
+          messages: [
+            { role: 'system', content: COACH_SYSTEM_PROMPT },
+            { role: 'user', content: buildCoachPrompt(payload) },
+          ],
+        }),
+        signal,
+      })
+
+      if (!response.ok || !response.body) {
+        throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`)
+      }
+
+      // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+      try {
+        while (true) {
+          const { done, value } = await reader.read()
+          if (done) return
+          buffer += decoder.decode(value, { stream: true })
+
+          const lines = buffer.split('\n')
+          buffer = lines.pop() ?? ''
+          for (const line of lines) {
+            if (!line.startsWith('data:')) continue
+            const data = line.slice(5).trim()
+            if (data === '[DONE]') return
+            const chunk: ChatCompletionChunk = JSON.parse(data)
+            const content = chunk.choices?.[0]?.delta?.content
+            if (content) yield content
+          }
+        }
+      } finally {
+        reader.releaseLock()
+      }
+    },
+  }
+}
+
+/**
+ * Pick a provider from the environment.
+ *   - COACH_PROVIDER=stub forces the offline stub
+ *   - otherwise OpenAI is used when OPENAI_API_KEY is set (model from OPENAI_MODEL)
+ *   - COACH_STUB_DELAY_MS slows the stub down to mimic streaming latency
+ */
+export function getExplanationProvider(
+  env: Record<string, string | undefined> = process.env
+): ExplanationProvider {
+  if (env.COACH_PROVIDER !== 'stub' && env.OPENAI_API_KEY) {
+    return createOpenAIProvider({ apiKey: env.OPENAI_API_KEY, model: env.OPENAI_MODEL })
+  }
+  return createStubProvider({ delayMs: Number(env.COACH_STUB_DELAY_MS) || 0 })
+}
+
+/**
+ * Handles a POST to /api/explain: validates the narrator payload and streams
+ * the provider's explanation back as plain text.
+ *
+ * The first chunk is awaited before responding so that a provider that fails
+ * outright still produces a 502 rather than an empty 200 stream.
+ */
+export async function handleExplainRequest(
+  request: Request,
+  provider: ExplanationProvider
+): Promise<Response> {
+  let payload: unknown
+  try {
+    payload = await request.json()
+  } catch {
+    return Response.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  if (!isNarratorPayload(payload)) {
+    return Response.json({ error: 'Invalid narrator payload' }, { status: 400 })
+  }
+
+  const iterator = provider.stream(payload, request.signal)[Symbol.asyncIterator]()
+  let first: IteratorResult<string>
+  try {
+    first = await iterator.next()
+  } catch (error) {
+    console.error(`Explanation provider "${provider.name}" failed:`, error)
+    return Response.json({ error: 'Explanation unavailable' }, { status: 502 })
+  }
+
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (first.done) controller.close()
+      else controller.enqueue(encoder.encode(first.value))
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next()
+        if (done) controller.close()
+        else controller.enqueue(encoder.encode(value))
+      } catch (error) {
+        console.error(`Explanation provider "${provider.name}" failed mid-stream:`, error)
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  })
+}
@@ -0,0 +1,254 @@
+/**
+ * Phase 4 — Coach Explanations
+ *
+ * Builds the "narrator" payload described in the PRD (section 5.3) from an
+ * intervention, turns it into an LLM prompt, and streams the explanation back
+ * from the /api/explain route.
+ */
+
+import { uciToSan } from './chess-utils'
+import type { InterventionState } from './intervention'
+import { detectInterventionMotifs } from './motifs'
+
+const EXPLAIN_URL = '/api/explain'
+
+/** Payload sent from the client to /api/explain when an intervention fires */
+export interface NarratorPayload {
+  /** FEN of the position before the user's move */
+  fen: string
+  /** SAN of the move the user played (e.g. "h3") */
+  user_move: string
+  maia2_data: {
+    /** Win probability before the move (white's perspective) */
+    win_prob_before: number
+    /** Win probability after the move (white's perspective) */
+    win_prob_after: number
+    /** Maia2's recommended move in UCI (e.g. "g1f3") */
+    best_move: string
+    /** Move probability distribution for the pre-move position */
+    move_probabilities: Record<string, number>
+  }
+  /** Sentences from the tactical motif detector, e.g. "Your knight on f3 is now undefended." */
+  tactical_facts?: string[]
+}
+
+/**
+ * Build the narrator payload from an active intervention.
+ * Returns null if the intervention is missing any of the required fields.
+ */
+export function buildNarratorPayload(intervention: InterventionState): NarratorPayload | null {
+  const {
+    fenBeforeMove,
+    userMove,
+    previousWinProb,
+    newWinProb,
+    bestMove,
+    moveProbs,
+  } = intervention
+
+  if (
+    fenBeforeMove === null ||
+    userMove === null ||
+    previousWinProb === null ||
+    newWinProb === null ||
+    bestMove === null
+  ) {
+    return null
+  }
+
+  return {
+    fen: fenBeforeMove,
+    user_move: userMove,
+    maia2_data: {
+      win_prob_before: previousWinProb,
+      win_prob_after: newWinProb,
+      best_move: bestMove,
+      move_probabilities: moveProbs ?? {},
+    },
+    tactical_facts: detectInterventionMotifs(intervention).map(m => m.description),
+  }
+}
+
+/**
+ * Type guard for payloads received by the route handler.
+ */
+export function isNarratorPayload(value: unknown): value is NarratorPayload {
+  if (typeof value !== 'object' || value === null) return false
+  const payload = value as Partial<NarratorPayload>
+  const data = payload.maia2_data
+  return (
+    typeof payload.fen === 'string' &&
+    typeof payload.user_move === 'string' &&
+    typeof data === 'object' &&
+    data !== null &&
+    typeof data.win_prob_before === 'number' &&
+    typeof data.win_prob_after === 'number' &&
+    typeof data.best_move === 'string' &&
+    typeof data.move_probabilities === 'object' &&
+    data.move_probabilities !== null &&
+    (payload.tactical_facts === undefined ||
+      (Array.isArray(payload.tactical_facts) &&
+        payload.tactical_facts.every(fact => typeof fact === 'string')))
+  )
+}
+
+/** Win probabilities from the moving player's perspective, as whole percents */
+export function getMoverPercents(payload: NarratorPayload): { before: number; after: number } {
+  const moverIsWhite = payload.fen.split(' ')[1] !== 'b'
+  const { win_prob_before, win_prob_after } = payload.maia2_data
+  const toPercent = (wp: number) => Math.round((moverIsWhite ? wp : 1 - wp) * 100)
+  return { before: toPercent(win_prob_before), after: toPercent(win_prob_after) }
+}
+
+/** The system prompt — the LLM only narrates the moves Maia2 provides */
+export const COACH_SYSTEM_PROMPT =
+  'You are a friendly chess coach for amateur players. ' +
+  'Never calculate or invent moves: only narrate the moves given to you. ' +
+  'Be helpful, not scolding.'
+
+/**
+ * Build the user prompt for the narrator (see PRD 5.3 "System Prompt Logic").
+ */
+export function buildCoachPrompt(payload: NarratorPayload): string {
+  const { before, after } = getMoverPercents(payload)
+  const { best_move, move_probabilities } = payload.maia2_data
+  const bestSan = uciToSan(payload.fen, best_move)
+  const bestProb = move_probabilities[best_move]
+  const probText = bestProb !== undefined
+    ? ` (${Math.round(bestProb * 100)}% probability among all moves)`
+    : ''
+  const facts = payload.tactical_facts ?? []
+  const factsText = facts.length > 0
+    ? `Tactical facts (verified, base your explanation on them): ${facts.join(' ')} `
+    : ''
+
+  return (
+    `The user played ${payload.user_move} which dropped their win probability ` +
+    `from ${before}% to ${after}%. ` +
+    `The Maia2 model recommends ${bestSan}${probText}. ` +
+    `Position before the move (FEN): ${payload.fen}. ` +
+    factsText +
+    `Explain to an amateur player why ${payload.user_move} is a mistake ` +
+    `and how ${bestSan} improves on it. Keep it under 50 words.`
+  )
+}
+
+/** Target latency between the bad move and the first explanation text (PRD KPI) */
+export const EXPLANATION_LATENCY_TARGET_MS = 2500
+
+/**
+ * A source of explanation text chunks. The default source streams from
+ * /api/explain; tests and local development can swap in a fake.
+ */
+export type ExplanationSource = (
+  payload: NarratorPayload,
+  signal?: AbortSignal
+) => AsyncIterable<string>
+
+/**
+ * Streams explanation text from /api/explain as it is generated.
+ */
+export async function* httpExplanationSource(
+  payload: NarratorPayload,
+  signal?: AbortSignal
+): AsyncIterable<string> {
+  const response = await fetch(EXPLAIN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+    signal,
+  })
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Explain API error: ${response.status} ${response.statusText}`)
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      const text = decoder.decode(value, { stream: true })
+      if (text) yield text
+    }
+    const rest = decoder.decode()
+    if (rest) yield rest
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Fake source that yields the given chunks, optionally with a delay between
+ * them. Used in tests and when developing the modal without a server.
+ */
+export function createFakeExplanationSource(
+  chunks: string[],
+  delayMs = 0
+): ExplanationSource {
+  return async function* (_payload, signal) {
+    for (const chunk of chunks) {
+      if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs))
+      if (signal?.aborted) return
+      yield chunk
+    }
+  }
+}
+
+export interface StreamExplanationOptions {
+  /** Where the text comes from (default: /api/explain) */
+  source?: ExplanationSource
+  /** Aborts the stream, e.g. when the modal closes */
+  signal?: AbortSignal
+  /** Called with each chunk as it arrives */
+  onToken?: (chunk: string) => void
+  /** Called once with the time to first token (ms) when the first chunk arrives */
+  onFirstToken?: (timeToFirstTokenMs: number) => void
+  /** Clock used for latency measurement (default: performance.now) */
+  now?: () => number
+}
+
+export interface StreamExplanationResult {
+  /** Full explanation text */
+  text: string
+  /** Milliseconds until the first chunk arrived, or null if none did */
+  timeToFirstTokenMs: number | null
+  /** Whether the stream was cancelled before it finished */
+  cancelled: boolean
+}
+
+/**
+ * Streams a coach explanation, reporting chunks as they arrive and measuring
+ * the time to first token.
+ */
+export async function streamExplanation(
+  payload: NarratorPayload,
+  {
+    source = httpExplanationSource,
+    signal,
+    onToken,
+    onFirstToken,
+    now = () => performance.now(),
+  }: StreamExplanationOptions = {}
+): Promise<StreamExplanationResult> {
+  const startedAt = now()
+  let text = ''
+  let timeToFirstTokenMs: number | null = null
+
+  try {
+    for await (const chunk of source(payload, signal)) {
+      if (signal?.aborted) break
+      if (timeToFirstTokenMs === null) {
+        timeToFirstTokenMs = now() - startedAt
+        onFirstToken?.(timeToFirstTokenMs)
+      }
+      text += chunk
+      onToken?.(chunk)
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw error
+  }
+
+  return { text, timeToFirstTokenMs, cancelled: signal?.aborted ?? false }
+}
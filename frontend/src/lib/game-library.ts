@@ -0,0 +1,215 @@
+/**
+ * Game Library
+ *
+ * Finished games kept in localStorage, each as PGN (moves, retries, clocks
+ * and the coach's annotations) with the details the library lists and
+ * filters on: when it was played, mode, side, Maia's Elo, result, how often
+ * the coach stepped in, and the opening.
+ */
+
+import { DEFAULT_POSITION } from 'chess.js'
+import { getPlayedElo } from './adaptive-elo'
+import { type GameTree, getMainline } from './game-tree'
+import { getInterventionAction } from './intervention'
+import { type Opening, identifyOpening } from './openings'
+import { type PgnResult, exportPgn } from './pgn'
+import type { SavedGameMode } from './saved-game'
+import { getStoredItem, writeJson } from './storage'
+import { type TimeControl, DEFAULT_TIME_CONTROL, parseTimeControl, toPgnTimeControl } from './time-control'
+
+/** localStorage key of the library (under STORAGE_PREFIX) */
+export const LIBRARY_STORAGE_KEY = 'library'
+
+/** Most games kept — the oldest are dropped first */
+export const MAX_LIBRARY_GAMES = 200
+
+/** Name of the computer side in exported games */
+const AI_NAME = 'Maia 2'
+
+/** A game as it finished on the board */
+export interface PlayedGame {
+  tree: GameTree
+  mode: SavedGameMode
+  /** The user's side in coach mode */
+  playerColor: 'w' | 'b'
+  /** Maia's Elo when no move recorded one (otherwise the average is used) */
+  aiElo: number
+  /** Whether Maia's strength adapted to the user */
+  adaptive: boolean
+  result: PgnResult
+  /** How the game ended, e.g. "Checkmate! White wins!" */
+  termination: string | null
+  timeControl: TimeControl
+  /** When the game started */
+  date: Date
+}
+
+export interface LibraryGame {
+  /** Stable id — when the game started */
+  id: string
+  pgn: string
+  /** When the game started (ISO 8601) */
+  date: string
+  mode: SavedGameMode
+  /** The user's side, or null in pass & play */
+  playerColor: 'w' | 'b' | null
+  /** Maia's average Elo over the game, or null in pass & play */
+  aiElo: number | null
+  /** Whether Maia's strength adapted to the user */
+  adaptive: boolean
+  timeControl: TimeControl
+  result: PgnResult
+  termination: string | null
+  /** Full moves played on the main line */
+  moveCount: number
+  /** Coach interventions that paused the game */
+  interventions: number
+  opening: Opening | null
+}
+
+export type LibraryOutcome = 'win' | 'loss' | 'draw'
+
+export interface LibraryFilter {
+  /** Matched against the opening, ECO code, ending and date */
+  query?: string
+  mode?: SavedGameMode
+  /** From the user's side; decisive pass & play games have no outcome */
+  outcome?: LibraryOutcome
+}
+
+/**
+ * The PGN of a played game, with "You" and Maia on their sides in coach mode.
+ */
+export function exportGamePgn(game: PlayedGame): string {
+  const isCoach = game.mode === 'coach'
+  const aiElo = getPlayedElo(game.tree, game.aiElo)
+  return exportPgn(game.tree, {
+    white: isCoach ? (game.playerColor === 'w' ? 'You' : AI_NAME) : 'White',
+    black: isCoach ? (game.playerColor === 'b' ? 'You' : AI_NAME) : 'Black',
+    whiteElo: isCoach && game.playerColor === 'b' ? aiElo : undefined,
+    blackElo: isCoach && game.playerColor === 'w' ? aiElo : undefined,
+    timeControl: toPgnTimeControl(game.timeControl),
+    result: game.result,
+    date: game.date,
+  })
+}
+
+/**
+ * Coach interventions in a game, counting moves that were taken back.
+ */
+export function countInterventions(tree: GameTree): number {
+  return Object.values(tree.nodes).filter(
+    (node) => node.severity && getInterventionAction(node.severity) === 'pause'
+  ).length
+}
+
+/**
+ * The library entry for a finished game.
+ */
+export function createLibraryGame(game: PlayedGame): LibraryGame {
+  const mainline = getMainline(game.tree)
+  const isCoach = game.mode === 'coach'
+  const last = mainline[mainline.length - 1]
+  const root = game.tree.nodes[game.tree.rootId]
+  return {
+    id: game.date.toISOString(),
+    pgn: exportGamePgn(game),
+    date: game.date.toISOString(),
+    mode: game.mode,
+    playerColor: isCoach ? game.playerColor : null,
+    aiElo: isCoach ? getPlayedElo(game.tree, game.aiElo) : null,
+    adaptive: isCoach && game.adaptive,
+    timeControl: game.timeControl,
+    result: game.result,
+    termination: game.termination,
+    moveCount: last ? last.moveNumber - root.moveNumber + 1 : 0,
+    interventions: countInterventions(game.tree),
+    opening: root.fen === DEFAULT_POSITION ? identifyOpening(mainline.map((node) => node.san!)) : null,
+  }
+}
+
+/**
+ * The user's outcome, or null for a decisive pass & play game or one
+ * without a result.
+ */
+export function getLibraryOutcome(game: LibraryGame): LibraryOutcome | null {
+  if (game.result === '1/2-1/2') return 'draw'
+  if (game.result === '*' || !game.playerColor) return null
+  return (game.result === '1-0') === (game.playerColor === 'w') ? 'win' : 'loss'
+}
+
+/**
+ * Games matching every given filter, in library order.
+ */
+export function filterLibrary(games: LibraryGame[], filter: LibraryFilter): LibraryGame[] {
+  const query = filter.query?.trim().toLowerCase()
+  return games.filter((game) => {
+    if (filter.mode && game.mode !== filter.mode) return false
+    if (filter.outcome && getLibraryOutcome(game) !== filter.outcome) return false
+    if (!query) return true
+    const text = [game.opening?.eco, game.opening?.name, game.termination, game.date.slice(0, 10)]
+    return text.some((value) => value?.toLowerCase().includes(query))
+  })
+}
+
+function isLibraryGame(value: unknown): value is LibraryGame {
+  if (!value || typeof value !== 'object') return false
+  const g = value as Record<string, unknown>
+  return (
+    typeof g.id === 'string' &&
+    typeof g.pgn === 'string' &&
+    typeof g.date === 'string' &&
+    (g.mode === 'pass-and-play' || g.mode === 'coach') &&
+    typeof g.result === 'string' &&
+    typeof g.moveCount === 'number' &&
+    typeof g.interventions === 'number'
+  )
+}
+
+/**
+ * Parse a stored library, dropping anything that isn't a valid game.
+ */
+export function parseLibrary(json: string | null): LibraryGame[] {
+  if (!json) return []
+  try {
+    const parsed: unknown = JSON.parse(json)
+    // Games saved before adaptive strength or time controls existed were
+    // played at a fixed level, 10 minutes a side
+    return Array.isArray(parsed)
+      ? parsed.filter(isLibraryGame).map((g) => ({
+          ...g,
+          adaptive: g.adaptive === true,
+          timeControl: parseTimeControl(g.timeControl) ?? DEFAULT_TIME_CONTROL,
+        }))
+      : []
+  } catch {
+    return []
+  }
+}
+
+export function loadLibrary(): LibraryGame[] {
+  return parseLibrary(getStoredItem(LIBRARY_STORAGE_KEY))
+}
+
+export function saveLibrary(games: LibraryGame[]): void {
+  writeJson(LIBRARY_STORAGE_KEY, games)
+}
+
+/**
+ * Add a game to the front of the library, replacing an older copy of the
+ * same game and keeping the library within MAX_LIBRARY_GAMES.
+ */
+export function addLibraryGame(games: LibraryGame[], game: LibraryGame): LibraryGame[] {
+  return [game, ...games.filter((g) => g.id !== game.id)].slice(0, MAX_LIBRARY_GAMES)
+}
+
+export function removeLibraryGame(games: LibraryGame[], id: string): LibraryGame[] {
+  return games.filter((g) => g.id !== id)
+}
+
+/**
+ * Several games as one PGN file.
+ */
+export function exportLibraryPgn(games: LibraryGame[]): string {
+  return games.map((game) => game.pgn).join('\n')
+}
@@ -0,0 +1,137 @@
+/**
+ * Game Result
+ *
+ * How a game ended: the PGN result and why. Results on the board come from
+ * the position; a timeout follows the FIDE Laws (6.9) — the side that ran out
+ * of time loses, unless their opponent couldn't checkmate by any series of
+ * legal moves, in which case it's a draw. Games can also end by resignation
+ * or agreement, or be aborted before both sides have moved.
+ */
+
+import type { Chess, Square } from 'chess.js'
+import type { PgnResult } from './pgn'
+
+type Color = 'w' | 'b'
+
+export type TerminationReason =
+  | 'checkmate'
+  | 'stalemate'
+  | 'repetition'
+  | 'fifty-move'
+  | 'insufficient-material'
+  | 'timeout'
+  | 'resignation'
+  | 'agreement'
+  | 'abort'
+
+export interface GameResult {
+  /** "*" for an aborted game */
+  result: PgnResult
+  reason: TerminationReason
+  /** The side that was mated, resigned or ran out of time (even if that's drawn), otherwise null */
+  loser: Color | null
+}
+
+const COLOR_NAMES: Record<Color, string> = { w: 'White', b: 'Black' }
+
+const opponent = (color: Color): Color => (color === 'w' ? 'b' : 'w')
+
+/** A win for the side opposing `loser` */
+const win = (loser: Color, reason: TerminationReason): GameResult => ({
+  result: loser === 'w' ? '0-1' : '1-0',
+  reason,
+  loser,
+})
+
+const draw = (reason: TerminationReason, loser: Color | null = null): GameResult => ({
+  result: '1/2-1/2',
+  reason,
+  loser,
+})
+
+/** Light or dark square, for bishops */
+const squareShade = (square: Square) => (square.charCodeAt(0) + Number(square[1])) % 2
+
+/**
+ * Whether `color` could still checkmate by some series of legal moves, with
+ * any help from the opponent. A bare king can't; neither can a lone knight
+ * against a bare king, nor bishops that all stand on one shade unless the
+ * opponent has something that could block their own king on the other shade.
+ */
+export function hasMatingMaterial(game: Chess, color: Color): boolean {
+  const pieces = game.board().flat().filter((piece) => piece !== null).filter((piece) => piece.type !== 'k')
+  const own = pieces.filter((piece) => piece.color === color)
+  const theirs = pieces.filter((piece) => piece.color !== color)
+  if (own.length === 0) return false
+  if (own.some((piece) => piece.type === 'p' || piece.type === 'r' || piece.type === 'q')) return true
+
+  const bishops = own.filter((piece) => piece.type === 'b')
+  const knights = own.length - bishops.length
+  if (knights > 1 || (knights === 1 && bishops.length > 0)) return true
+  if (knights === 1) return theirs.length > 0
+
+  const shade = squareShade(bishops[0].square)
+  if (bishops.some((piece) => squareShade(piece.square) !== shade)) return true
+  return theirs.some((piece) => piece.type !== 'b' || squareShade(piece.square) !== shade)
+}
+
+/**
+ * The result if the position ends the game, otherwise null.
+ */
+export function getBoardResult(game: Chess): GameResult | null {
+  if (game.isCheckmate()) return win(game.turn(), 'checkmate')
+  if (game.isStalemate()) return draw('stalemate')
+  if (game.isInsufficientMaterial()) return draw('insufficient-material')
+  if (game.isThreefoldRepetition()) return draw('repetition')
+  if (game.isDrawByFiftyMoves()) return draw('fifty-move')
+  return null
+}
+
+/**
+ * `flagged` ran out of time: they lose, or draw if their opponent has no
+ * mating material left.
+ */
+export function getTimeoutResult(flagged: Color, opponentCanMate: boolean): GameResult {
+  return opponentCanMate ? win(flagged, 'timeout') : draw('timeout', flagged)
+}
+
+export function getResignationResult(resigned: Color): GameResult {
+  return win(resigned, 'resignation')
+}
+
+export const DRAW_BY_AGREEMENT: GameResult = draw('agreement')
+
+export const ABORTED_GAME: GameResult = { result: '*', reason: 'abort', loser: null }
+
+/** Plies after which a game can no longer be aborted — once both sides have moved */
+export const ABORT_PLIES = 2
+
+/**
+ * The result for people, e.g. "Checkmate! White wins!" or "Draw by
+ * threefold repetition!"
+ */
+export function describeGameResult({ result, reason, loser }: GameResult): string {
+  const winner = result === '1-0' ? COLOR_NAMES.w : COLOR_NAMES.b
+  switch (reason) {
+    case 'checkmate':
+      return `Checkmate! ${winner} wins!`
+    case 'timeout':
+      return result === '1/2-1/2'
+        ? `Draw! ${COLOR_NAMES[loser!]} ran out of time, but ${COLOR_NAMES[opponent(loser!)]} can't checkmate`
+        : `${winner} wins on time!`
+    case 'resignation':
+      return `${COLOR_NAMES[loser!]} resigns. ${winner} wins!`
+    case 'stalemate':
+      return 'Draw by stalemate!'
+    case 'repetition':
+      return 'Draw by threefold repetition!'
+    case 'fifty-move':
+      return 'Draw by the 50-move rule!'
+    case 'insufficient-material':
+      return 'Draw by insufficient material!'
+    case 'agreement':
+      return 'Draw by agreement!'
+    case 'abort':
+      return 'Game aborted'
+  }
+}
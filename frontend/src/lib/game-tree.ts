@@ -0,0 +1,263 @@
+/**
+ * Game Tree
+ *
+ * Records every move played in a game, including moves the user took back
+ * after a coach intervention. Retried moves stay in the tree as side
+ * variations so the whole game — and what the user originally tried — can be
+ * reviewed and exported later.
+ *
+ * The tree is immutable: every update returns a new tree, so it can live in
+ * React state.
+ */
+
+import { Chess, DEFAULT_POSITION, type Move } from 'chess.js'
+import type { MistakeSeverity } from './intervention'
+
+export interface GameTreeNode {
+  id: number
+  /** Parent node, or null for the root (starting position) */
+  parentId: number | null
+  /** Move that led to this position in SAN, or null at the root */
+  san: string | null
+  /** Move that led to this position in UCI, or null at the root */
+  uci: string | null
+  /** Position after the move */
+  fen: string
+  /** Side that played the move, or null at the root */
+  color: 'w' | 'b' | null
+  /** Fullmove number the move was played on (e.g. 12 for "12. Nf3" and "12... Nc6") */
+  moveNumber: number
+  /** Mover's remaining clock time after the move (seconds), if recorded */
+  clock: number | null
+  /** Elo Maia played the move at, for computer moves */
+  elo: number | null
+  /** Win probability after the move (white's perspective), once analyzed */
+  winProbability: number | null
+  /** Severity of the coach intervention on this move, if there was one */
+  severity: MistakeSeverity | null
+  /** The coach's suggested move instead of this one (UCI), if there was an intervention */
+  bestMove: string | null
+  /** Child nodes — the first one that isn't rejected is the main line */
+  children: number[]
+  /** The user took this move back after a coach intervention */
+  rejected: boolean
+}
+
+export interface GameTree {
+  nodes: Record<number, GameTreeNode>
+  rootId: number
+  /** Node for the position currently on the board */
+  currentId: number
+}
+
+/**
+ * Create a tree for a game starting at the given position.
+ */
+export function createGameTree(fen: string = DEFAULT_POSITION): GameTree {
+  return {
+    nodes: {
+      0: {
+        id: 0,
+        parentId: null,
+        san: null,
+        uci: null,
+        fen,
+        color: null,
+        moveNumber: parseInt(fen.split(' ')[5], 10),
+        clock: null,
+        elo: null,
+        winProbability: null,
+        severity: null,
+        bestMove: null,
+        children: [],
+        rejected: false,
+      },
+    },
+    rootId: 0,
+    currentId: 0,
+  }
+}
+
+/** Children ordered so moves that were kept come before rejected ones */
+function orderChildren(nodes: Record<number, GameTreeNode>, children: number[]): number[] {
+  return [
+    ...children.filter(id => !nodes[id].rejected),
+    ...children.filter(id => nodes[id].rejected),
+  ]
+}
+
+export interface AddMoveOptions {
+  /** Mover's remaining clock time after the move (seconds) */
+  clock?: number | null
+  /** Elo Maia played the move at, for computer moves */
+  elo?: number | null
+  /** Add the move after the existing children instead of as the new main line */
+  variation?: boolean
+}
+
+/**
+ * Record a move played from the current position and make it current.
+ * Playing a move that already exists (even a rejected one) reuses its node
+ * and brings it back into the main line.
+ */
+export function addMove(
+  tree: GameTree,
+  move: Pick<Move, 'san' | 'color' | 'from' | 'to' | 'promotion' | 'before' | 'after'>,
+  { clock = null, elo = null, variation = false }: AddMoveOptions = {}
+): GameTree {
+  const parent = tree.nodes[tree.currentId]
+  const uci = `${move.from}${move.to}${move.promotion ?? ''}`
+  const nodes = { ...tree.nodes }
+
+  const existingId = parent.children.find(id => nodes[id].uci === uci)
+  if (existingId !== undefined) {
+    nodes[existingId] = { ...nodes[existingId], clock, elo, rejected: false }
+    const others = parent.children.filter(id => id !== existingId)
+    nodes[parent.id] = { ...parent, children: orderChildren(nodes, [existingId, ...others]) }
+    return { ...tree, nodes, currentId: existingId }
+  }
+
+  const id = Math.max(...Object.keys(nodes).map(Number)) + 1
+  nodes[id] = {
+    id,
+    parentId: parent.id,
+    san: move.san,
+    uci,
+    fen: move.after,
+    color: move.color,
+    moveNumber: parseInt(move.before.split(' ')[5], 10),
+    clock,
+    elo,
+    winProbability: null,
+    severity: null,
+    bestMove: null,
+    children: [],
+    rejected: false,
+  }
+  const children = variation ? [...parent.children, id] : [id, ...parent.children]
+  nodes[parent.id] = { ...parent, children: orderChildren(nodes, children) }
+  return { ...tree, nodes, currentId: id }
+}
+
+/**
+ * Attach details learned after a move was played, such as its evaluation or
+ * the severity of a coach intervention.
+ */
+export function annotateNode(
+  tree: GameTree,
+  id: number,
+  patch: Partial<Pick<GameTreeNode, 'clock' | 'winProbability' | 'severity' | 'bestMove'>>
+): GameTree {
+  return { ...tree, nodes: { ...tree.nodes, [id]: { ...tree.nodes[id], ...patch } } }
+}
+
+/**
+ * Take back the current move: mark it rejected (keeping it as a side
+ * variation) and move back to its parent.
+ */
+export function rejectCurrentMove(tree: GameTree): GameTree {
+  const current = tree.nodes[tree.currentId]
+  if (current.parentId === null) return tree
+
+  const nodes = { ...tree.nodes }
+  nodes[current.id] = { ...current, rejected: true }
+  const parent = nodes[current.parentId]
+  nodes[parent.id] = { ...parent, children: orderChildren(nodes, parent.children) }
+  return { ...tree, nodes, currentId: parent.id }
+}
+
+/**
+ * The main-line child of a node, or null if every child was rejected.
+ */
+export function getMainlineChild(tree: GameTree, id: number): GameTreeNode | null {
+  const child = tree.nodes[id].children.map(c => tree.nodes[c]).find(c => !c.rejected)
+  return child ?? null
+}
+
+/**
+ * The nodes from the root (exclusive) to the given node, in order.
+ */
+export function getPath(tree: GameTree, id: number = tree.currentId): GameTreeNode[] {
+  const path: GameTreeNode[] = []
+  let node = tree.nodes[id]
+  while (node.parentId !== null) {
+    path.unshift(node)
+    node = tree.nodes[node.parentId]
+  }
+  return path
+}
+
+/**
+ * A line of play starting at the given node and following the main line
+ * from there.
+ */
+export function getLineFrom(tree: GameTree, id: number): GameTreeNode[] {
+  const line: GameTreeNode[] = [tree.nodes[id]]
+  let next = getMainlineChild(tree, id)
+  while (next) {
+    line.push(next)
+    next = getMainlineChild(tree, next.id)
+  }
+  return line
+}
+
+/**
+ * A chess.js game at the given node, with the moves leading to it as history.
+ */
+export function getGameAt(tree: GameTree, id: number = tree.currentId): Chess {
+  const game = new Chess(tree.nodes[tree.rootId].fen)
+  for (const node of getPath(tree, id)) {
+    game.move(node.san!)
+  }
+  return game
+}
+
+/**
+ * The moves of the game as played, following the main line from the root.
+ */
+export function getMainline(tree: GameTree): GameTreeNode[] {
+  const line: GameTreeNode[] = []
+  let next = getMainlineChild(tree, tree.rootId)
+  while (next) {
+    line.push(next)
+    next = getMainlineChild(tree, next.id)
+  }
+  return line
+}
+
+/**
+ * Side variations branching from a node: every child except the main line.
+ */
+export function getVariations(tree: GameTree, id: number): GameTreeNode[] {
+  const mainline = getMainlineChild(tree, id)
+  return tree.nodes[id].children
+    .filter(c => c !== mainline?.id)
+    .map(c => tree.nodes[c])
+}
+
+export interface MoveRow {
+  moveNumber: number
+  white: GameTreeNode | null
+  black: GameTreeNode | null
+}
+
+/**
+ * Pair a line of moves into numbered rows ("12. Nf3 Nc6"). A line starting
+ * with a black move gets an empty white slot.
+ */
+export function toMoveRows(line: GameTreeNode[]): MoveRow[] {
+  const rows: MoveRow[] = []
+  for (const node of line) {
+    const last = rows[rows.length - 1]
+    if (node.color === 'b' && last && last.moveNumber === node.moveNumber && !last.black) {
+      last.black = node
+    } else {
+      rows.push({
+        moveNumber: node.moveNumber,
+        white: node.color === 'w' ? node : null,
+        black: node.color === 'b' ? node : null,
+      })
+    }
+  }
+  return rows
+}
@@ -0,0 +1,98 @@
+/**
+ * Phase 5 — The "Ghost Line"
+ *
+ * Builds the better continuation shown in Ghost Mode: Maia2's best move from
+ * the pre-blunder position, followed by the next few plies, each one found by
+ * asking Maia2 for the best move in the resulting position.
+ */
+
+import { Chess } from 'chess.js'
+import { fetchAnalysis, type AnalysisResult, type FetchAnalysisOptions } from './chess-api'
+import { playUci } from './chess-utils'
+
+/** Plies in a ghost line: the best move plus the next 3 (PRD 4.5) */
+export const GHOST_LINE_PLIES = 4
+
+/** ELO used to pick ghost moves — strong, so the line shows good play */
+export const GHOST_LINE_ELO = 2000
+
+/** Delay between ghost moves when auto-playing (ms) */
+export const GHOST_STEP_MS = 1200
+
+export interface GhostMove {
+  /** Move in UCI (e.g. "g1f3") */
+  uci: string
+  /** Move in SAN (e.g. "Nf3") */
+  san: string
+  from: string
+  to: string
+  /** Side that played the move */
+  color: 'w' | 'b'
+  /** Position after the move */
+  fenAfter: string
+}
+
+export interface BuildGhostLineOptions {
+  /** Total plies including the first move (default GHOST_LINE_PLIES) */
+  plies?: number
+  /** ELO passed to the model for continuation moves (default GHOST_LINE_ELO) */
+  elo?: number
+  /** Position analysis function (default fetchAnalysis) — swappable for tests */
+  analyze?: (fen: string, options?: FetchAnalysisOptions) => Promise<AnalysisResult>
+}
+
+/**
+ * Play a UCI move on the game, returning the resulting GhostMove (or null if illegal).
+ */
+function playGhostMove(game: Chess, uci: string): GhostMove | null {
+  const move = playUci(game, uci)
+  if (!move) return null
+  return {
+    uci,
+    san: move.san,
+    from: move.from,
+    to: move.to,
+    color: move.color,
+    fenAfter: game.fen(),
+  }
+}
+
+/**
+ * Build the ghost line from the position before the mistake.
+ *
+ * The first ply is the given best move; each following ply is Maia2's best
+ * move in the position reached. The line stops early if the game ends or the
+ * model can't be reached, so whatever was built is still shown.
+ *
+ * @param fen - Position before the user's move (intervention.fenBeforeMove)
+ * @param bestMove - Maia2's recommended move in UCI (intervention.bestMove)
+ */
+export async function buildGhostLine(
+  fen: string,
+  bestMove: string,
+  {
+    plies = GHOST_LINE_PLIES,
+    elo = GHOST_LINE_ELO,
+    analyze = fetchAnalysis,
+  }: BuildGhostLineOptions = {}
+): Promise<GhostMove[]> {
+  const game = new Chess(fen)
+  const first = playGhostMove(game, bestMove)
+  if (!first) return []
+
+  const line: GhostMove[] = [first]
+
+  while (line.length < plies && !game.isGameOver()) {
+    let result: AnalysisResult
+    try {
+      result = await analyze(game.fen(), { eloSelf: elo, eloOppo: elo })
+    } catch {
+      break
+    }
+    const next = playGhostMove(game, result.bestMove)
+    if (!next) break
+    line.push(next)
+  }
+
+  return line
+}
@@ -1,13 +1,90 @@
 /**
  * Phase 3 — Intervention Logic (Blunder Detection)
  *
- * Compares win probability before and after a user's move to detect mistakes.
+ * Compares win probability before and after a user's move to detect mistakes
+ * and grade how serious they are.
  * Win probability is always from white's perspective (0–1, from Maia2).
  */
 
+import type { Motif } from './motifs'
+
 /** Win-probability drop that triggers an intervention (10%) */
 export const BLUNDER_THRESHOLD = 0.10
 
+/** How serious a move was, from least to most severe */
+export type MistakeSeverity = 'inaccuracy' | 'mistake' | 'blunder' | 'missed-win'
+
+/** Win-probability drops (from the mover's perspective) that start each category */
+export interface SeverityBands {
+  inaccuracy: number
+  mistake: number
+  blunder: number
+  /** Mover's win probability at or above which the position counts as winning */
+  winning: number
+}
+
+export const DEFAULT_SEVERITY_BANDS: SeverityBands = {
+  inaccuracy: 0.05,
+  mistake: BLUNDER_THRESHOLD,
+  blunder: 0.20,
+  winning: 0.75,
+}
+
+/** Game phase, used to scale how strict the coach is */
+export type GamePhase = 'opening' | 'middlegame' | 'endgame'
+
+/** Moves up to and including this fullmove number count as the opening */
+export const OPENING_MOVES = 10
+
+/** Total non-king material (both sides) at or below which it's an endgame */
+export const ENDGAME_MATERIAL = 26
+
+/** Opening evals are noisy, so be lenient; endgame slips are decisive, so be strict */
+export const PHASE_FACTORS: Record<GamePhase, number> = {
+  opening: 1.25,
+  middlegame: 1,
+  endgame: 0.85,
+}
+
+/** ELO at which bands are used unscaled */
+export const REFERENCE_ELO = 1500
+
+/** Log-odds distance from 0.5 at which the bands have doubled */
+export const DECIDED_LOG_ODDS = 2
+
+/** Bounds on the combined band scale, so mistakes in a lopsided position still count */
+export const MIN_BAND_SCALE = 0.5
+export const MAX_BAND_SCALE = 2.5
+
+/** Everything that shifts the trigger threshold for a single move */
+export interface ThresholdContext {
+  /** ELO the player chose for the game */
+  elo: number
+  /** Fullmove number of the position before the move */
+  moveNumber: number
+  /** Total non-king material on the board, both sides (from calculateMaterial) */
+  totalMaterial: number
+  /** Win probability before the move (white's perspective) */
+  winProbability: number
+}
+
+/** How the coach reacts: a non-blocking toast, or a full pause with the modal */
+export type InterventionAction = 'toast' | 'pause'
+
+export const SEVERITY_ACTIONS: Record<MistakeSeverity, InterventionAction> = {
+  inaccuracy: 'toast',
+  mistake: 'pause',
+  blunder: 'pause',
+  'missed-win': 'pause',
+}
+
+export const SEVERITY_LABELS: Record<MistakeSeverity, string> = {
+  inaccuracy: 'Inaccuracy',
+  mistake: 'Mistake',
+  blunder: 'Blunder',
+  'missed-win': 'Missed win',
+}
+
 export interface InterventionState {
   isActive: boolean
   fenBeforeMove: string | null   // FEN before the blundered move (for undo)
@@ -18,6 +95,7 @@ export interface InterventionState {
   newWinProb: number | null
   bestMove: string | null        // Maia2's recommended move in UCI (e.g. "g1f3")
   moveProbs: Record<string, number> | null // Move probability distribution
+  severity: MistakeSeverity | null
 }
 
 export function createInitialInterventionState(): InterventionState {
@@ -31,6 +109,7 @@ export function createInitialInterventionState(): InterventionState {
     newWinProb: null,
     bestMove: null,
     moveProbs: null,
+    severity: null,
   }
 }
 
@@ -53,6 +132,67 @@ export function calculateWinProbDrop(
   }
 }
 
+/**
+ * Classify the game phase from the move number and the material left.
+ */
+export function getGamePhase(moveNumber: number, totalMaterial: number): GamePhase {
+  if (totalMaterial <= ENDGAME_MATERIAL) return 'endgame'
+  if (moveNumber <= OPENING_MOVES) return 'opening'
+  return 'middlegame'
+}
+
+/**
+ * Log-odds of a probability, clamped so 0 and 1 stay finite.
+ */
+export function logOdds(probability: number): number {
+  const p = Math.min(Math.max(probability, 0.001), 0.999)
+  return Math.log(p / (1 - p))
+}
+
+/**
+ * Lower-rated players get more leeway; stronger players are held to tighter bands.
+ * Ranges from 0.75 (≥ 2000) to 1.5 (≤ 500).
+ */
+export function getEloFactor(elo: number): number {
+  return Math.min(Math.max(1 + (REFERENCE_ELO - elo) / 2000, 0.75), 1.5)
+}
+
+/**
+ * Widens the bands as the position becomes decided. Measured in log-odds, so a
+ * position at 0.95 (or 0.05) is far from the balanced middle of the curve and
+ * ordinary fluctuations there don't trigger interventions, while tight
+ * positions near 0.5 keep the base bands.
+ */
+export function getCurveFactor(winProbability: number): number {
+  return 1 + Math.abs(logOdds(winProbability)) / DECIDED_LOG_ODDS
+}
+
+/**
+ * Scale the severity bands for the player's ELO, the game phase and where the
+ * position sits on the win-probability curve, within MIN_BAND_SCALE and
+ * MAX_BAND_SCALE.
+ */
+export function getContextualBands(
+  context: ThresholdContext,
+  base: SeverityBands = DEFAULT_SEVERITY_BANDS
+): SeverityBands {
+  const phase = getGamePhase(context.moveNumber, context.totalMaterial)
+  const scale = Math.min(
+    Math.max(
+      getEloFactor(context.elo) * PHASE_FACTORS[phase] * getCurveFactor(context.winProbability),
+      MIN_BAND_SCALE
+    ),
+    MAX_BAND_SCALE
+  )
+
+  return {
+    inaccuracy: base.inaccuracy * scale,
+    mistake: base.mistake * scale,
+    blunder: base.blunder * scale,
+    winning: base.winning,
+  }
+}
+
 /**
  * Determine whether the move constitutes a blunder given the threshold.
  */
@@ -67,8 +207,55 @@ export function isBlunder(
 }
 
 /**
- * Returns the intervention message shown in the coach modal.
+ * Grade a move by its win-probability drop.
+ *
+ * Returns null when the drop is below the inaccuracy band. A mistake or worse
+ * that takes the player from a winning position to a non-winning one is a
+ * missed win, whatever its size.
+ */
+export function classifyMove(
+  previousWinProb: number,
+  newWinProb: number,
+  playerColor: 'w' | 'b',
+  bands: SeverityBands = DEFAULT_SEVERITY_BANDS
+): MistakeSeverity | null {
+  const drop = calculateWinProbDrop(previousWinProb, newWinProb, playerColor)
+  if (drop < bands.inaccuracy) return null
+
+  const before = playerColor === 'w' ? previousWinProb : 1 - previousWinProb
+  const after = playerColor === 'w' ? newWinProb : 1 - newWinProb
+  if (drop >= bands.mistake && before >= bands.winning && after < bands.winning) {
+    return 'missed-win'
+  }
+
+  if (drop >= bands.blunder) return 'blunder'
+  if (drop >= bands.mistake) return 'mistake'
+  return 'inaccuracy'
+}
+
+/**
+ * Whether the coach should pause the game or just show a toast.
+ */
+export function getInterventionAction(severity: MistakeSeverity): InterventionAction {
+  return SEVERITY_ACTIONS[severity]
+}
+
+const SEVERITY_MESSAGES: Record<MistakeSeverity, string> = {
+  inaccuracy: 'Not quite — there was something a little better.',
+  mistake: "Hold on, that's a mistake.",
+  blunder: 'Wait, check this out — that move gives up a lot.',
+  'missed-win': 'Hold on! That move gives up your winning advantage.',
+}
+
+/**
+ * Returns the intervention message shown in the coach modal (or toast).
+ * When tactical motifs were detected, the most urgent one is appended so the
+ * message says what actually went wrong.
  */
-export function getInterventionMessage(): string {
-  return "Hold on, that's a mistake."
+export function getInterventionMessage(
+  severity: MistakeSeverity | null = null,
+  motifs: Motif[] = []
+): string {
+  const message = severity ? SEVERITY_MESSAGES[severity] : SEVERITY_MESSAGES.mistake
+  return motifs.length > 0 ? `${message} ${motifs[0].description}` : message
 }
@@ -0,0 +1,325 @@
+/**
+ * Tactical Motif Detector
+ *
+ * Rule-based analysis of a user's move with chess.js: finds the concrete
+ * tactical reasons a move was bad (hanging pieces, forks, pins, skewers,
+ * back-rank weaknesses, missed captures). The descriptions are used directly
+ * by the coach when no LLM is available, and as a grounded fact list for LLM
+ * prompts.
+ */
+
+import { Chess, type Color, type PieceSymbol, type Square } from 'chess.js'
+import { PIECE_VALUES, playUci } from './chess-utils'
+import type { InterventionState } from './intervention'
+
+export type MotifType =
+  | 'back-rank'
+  | 'hanging-piece'
+  | 'fork'
+  | 'missed-capture'
+  | 'pin'
+  | 'skewer'
+
+export interface Motif {
+  type: MotifType
+  /** The square the motif centers on (hanging piece, forking square, pinned piece...) */
+  square: string
+  /** Templated sentence for the player, e.g. "Your knight on f3 is now undefended." */
+  description: string
+}
+
+export interface MotifInput {
+  /** Position before the user's move */
+  fenBeforeMove: string
+  /** The user's move, in SAN or UCI */
+  userMove: string
+  /** Maia2's recommended move in UCI, if known */
+  bestMove: string | null
+}
+
+/** Order motifs are reported in — most urgent first */
+const MOTIF_PRIORITY: MotifType[] = [
+  'back-rank',
+  'hanging-piece',
+  'fork',
+  'missed-capture',
+  'pin',
+  'skewer',
+]
+
+const PIECE_NAMES: Record<PieceSymbol, string> = {
+  p: 'pawn',
+  n: 'knight',
+  b: 'bishop',
+  r: 'rook',
+  q: 'queen',
+  k: 'king',
+}
+
+const FILES = 'abcdefgh'
+
+const DIAGONALS = [[1, 1], [1, -1], [-1, 1], [-1, -1]]
+const ORTHOGONALS = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+const SLIDER_DIRECTIONS: Partial<Record<PieceSymbol, number[][]>> = {
+  b: DIAGONALS,
+  r: ORTHOGONALS,
+  q: [...DIAGONALS, ...ORTHOGONALS],
+}
+
+interface PlacedPiece {
+  square: Square
+  type: PieceSymbol
+  color: Color
+}
+
+/** Value for comparisons — the king outranks everything */
+function rank(type: PieceSymbol): number {
+  return type === 'k' ? 100 : PIECE_VALUES[type]
+}
+
+function piecesOf(game: Chess, color: Color): PlacedPiece[] {
+  return game.board().flat().filter((p): p is PlacedPiece => p !== null && p.color === color)
+}
+
+function opposite(color: Color): Color {
+  return color === 'w' ? 'b' : 'w'
+}
+
+/** Play a move given in SAN or UCI; returns null if it is not legal */
+function playMove(game: Chess, move: string) {
+  if (/^[a-h][1-8][a-h][1-8][qrbn]?$/.test(move)) return playUci(game, move)
+  try {
+    return game.move(move)
+  } catch {
+    return null
+  }
+}
+
+// ——————————————————————————————————————————
+// Hanging pieces
+// ——————————————————————————————————————————
+
+interface HangingPiece extends PlacedPiece {
+  /** Cheapest attacker, or null if the piece is simply undefended */
+  cheapestAttacker: PieceSymbol | null
+}
+
+/**
+ * Pieces (not pawns or king) of `color` that the opponent can win: attacked
+ * and undefended, or attacked by something cheaper.
+ */
+function findHangingPieces(game: Chess, color: Color): HangingPiece[] {
+  const hanging: HangingPiece[] = []
+  for (const piece of piecesOf(game, color)) {
+    if (piece.type === 'k' || piece.type === 'p') continue
+    const attackers = game.attackers(piece.square, opposite(color))
+    if (attackers.length === 0) continue
+
+    const defended = game.attackers(piece.square, color).length > 0
+    const attackerTypes = attackers.map(sq => game.get(sq)!.type)
+    const cheapest = attackerTypes.reduce((a, b) => (rank(a) <= rank(b) ? a : b))
+
+    if (!defended) {
+      hanging.push({ ...piece, cheapestAttacker: null })
+    } else if (rank(cheapest) < rank(piece.type)) {
+      hanging.push({ ...piece, cheapestAttacker: cheapest })
+    }
+  }
+  return hanging
+}
+
+function detectHangingPieces(before: Chess, after: Chess, us: Color): Motif[] {
+  const alreadyHanging = new Set(findHangingPieces(before, us).map(p => `${p.type}${p.square}`))
+  return findHangingPieces(after, us)
+    .filter(p => !alreadyHanging.has(`${p.type}${p.square}`))
+    .map(p => ({
+      type: 'hanging-piece' as const,
+      square: p.square,
+      description: p.cheapestAttacker
+        ? `Your ${PIECE_NAMES[p.type]} on ${p.square} can be won by their ${PIECE_NAMES[p.cheapestAttacker]}.`
+        : `Your ${PIECE_NAMES[p.type]} on ${p.square} is now undefended.`,
+    }))
+}
+
+// ——————————————————————————————————————————
+// Forks and back-rank mates (opponent replies)
+// ——————————————————————————————————————————
+
+function detectReplyMotifs(after: Chess, us: Color): Motif[] {
+  const them = opposite(us)
+  const backRank = us === 'w' ? '1' : '8'
+  const motifs: Motif[] = []
+  let bestFork: { score: number; motif: Motif } | null = null
+
+  for (const reply of after.moves({ verbose: true })) {
+    const game = new Chess(after.fen())
+    game.move(reply)
+
+    if (game.isCheckmate() && (reply.piece === 'r' || reply.piece === 'q') && reply.to[1] === backRank) {
+      motifs.push({
+        type: 'back-rank',
+        square: reply.to,
+        description: `Your back rank is weak: their ${PIECE_NAMES[reply.piece]} can deliver mate on ${reply.to}.`,
+      })
+      continue
+    }
+
+    // A fork: the moved piece attacks two or more pieces worth more than it (or undefended)
+    const forkerValue = rank(reply.piece)
+    const targets = piecesOf(game, us).filter(target =>
+      target.type !== 'p' &&
+      game.attackers(target.square, them).includes(reply.to) &&
+      (rank(target.type) > forkerValue || game.attackers(target.square, us).length === 0)
+    )
+    if (targets.length < 2) continue
+
+    const score = targets.reduce((sum, t) => sum + rank(t.type), 0)
+    if (!bestFork || score > bestFork.score) {
+      targets.sort((a, b) => rank(b.type) - rank(a.type))
+      bestFork = {
+        score,
+        motif: {
+          type: 'fork',
+          square: reply.to,
+          description:
+            `After your move, their ${PIECE_NAMES[reply.piece]} can fork your ` +
+            `${targets.map(t => PIECE_NAMES[t.type]).join(' and ')} from ${reply.to}.`,
+        },
+      }
+    }
+  }
+
+  if (bestFork) motifs.push(bestFork.motif)
+  return motifs
+}
+
+// ——————————————————————————————————————————
+// Pins and skewers (line pieces)
+// ——————————————————————————————————————————
+
+interface LineMotif {
+  type: 'pin' | 'skewer'
+  slider: PlacedPiece
+  front: PlacedPiece
+  back: PlacedPiece
+}
+
+/**
+ * Pins and skewers against `color`: an enemy slider, then one of our pieces,
+ * then another of ours behind it on the same line.
+ */
+function findLineMotifs(game: Chess, color: Color): LineMotif[] {
+  const found: LineMotif[] = []
+
+  for (const slider of piecesOf(game, opposite(color))) {
+    const directions = SLIDER_DIRECTIONS[slider.type]
+    if (!directions) continue
+
+    for (const [df, dr] of directions) {
+      const hits: PlacedPiece[] = []
+      let file = FILES.indexOf(slider.square[0]) + df
+      let row = parseInt(slider.square[1], 10) + dr
+      while (file >= 0 && file < 8 && row >= 1 && row <= 8 && hits.length < 2) {
+        const square = `${FILES[file]}${row}` as Square
+        const piece = game.get(square)
+        if (piece) hits.push({ square, ...piece })
+        file += df
+        row += dr
+      }
+
+      if (hits.length < 2 || hits[0].color !== color || hits[1].color !== color) continue
+      const [front, back] = hits
+      if (front.type === 'p' || back.type === 'p') continue
+
+      if (rank(front.type) < rank(back.type)) {
+        found.push({ type: 'pin', slider, front, back })
+      } else if (rank(front.type) > rank(back.type)) {
+        found.push({ type: 'skewer', slider, front, back })
+      }
+    }
+  }
+
+  return found
+}
+
+function detectLineMotifs(before: Chess, after: Chess, us: Color): Motif[] {
+  const key = (m: LineMotif) => `${m.type}${m.slider.square}${m.front.square}${m.back.square}`
+  const existing = new Set(findLineMotifs(before, us).map(key))
+
+  return findLineMotifs(after, us)
+    .filter(m => !existing.has(key(m)))
+    .map(m => m.type === 'pin'
+      ? {
+          type: 'pin' as const,
+          square: m.front.square,
+          description:
+            `Your ${PIECE_NAMES[m.front.type]} on ${m.front.square} is pinned to your ` +
+            `${PIECE_NAMES[m.back.type]}${m.back.type === 'k' ? '' : ` on ${m.back.square}`} ` +
+            `by their ${PIECE_NAMES[m.slider.type]} on ${m.slider.square}.`,
+        }
+      : {
+          type: 'skewer' as const,
+          square: m.front.square,
+          description:
+            `Their ${PIECE_NAMES[m.slider.type]} on ${m.slider.square} skewers your ` +
+            `${PIECE_NAMES[m.front.type]} on ${m.front.square} and ` +
+            `${PIECE_NAMES[m.back.type]} on ${m.back.square}.`,
+        })
+}
+
+// ——————————————————————————————————————————
+// Missed captures
+// ——————————————————————————————————————————
+
+function detectMissedCapture(fenBeforeMove: string, userUci: string, bestMove: string | null): Motif[] {
+  if (!bestMove || bestMove === userUci) return []
+  const game = new Chess(fenBeforeMove)
+  const best = playMove(game, bestMove)
+  if (!best?.captured) return []
+
+  return [{
+    type: 'missed-capture',
+    square: best.to,
+    description: `You could have captured their ${PIECE_NAMES[best.captured]} on ${best.to} with ${best.san}.`,
+  }]
+}
+
+// ——————————————————————————————————————————
+// Public API
+// ——————————————————————————————————————————
+
+/**
+ * Find the tactical motifs behind a user's move, most urgent first.
+ * Returns an empty list if the move is not legal in the given position.
+ */
+export function detectMotifs({ fenBeforeMove, userMove, bestMove }: MotifInput): Motif[] {
+  const before = new Chess(fenBeforeMove)
+  const us = before.turn()
+  const after = new Chess(fenBeforeMove)
+  const played = playMove(after, userMove)
+  if (!played) return []
+  const userUci = `${played.from}${played.to}${played.promotion ?? ''}`
+
+  const motifs = [
+    ...detectHangingPieces(before, after, us),
+    ...detectReplyMotifs(after, us),
+    ...detectMissedCapture(fenBeforeMove, userUci, bestMove),
+    ...detectLineMotifs(before, after, us),
+  ]
+
+  return motifs.sort((a, b) => MOTIF_PRIORITY.indexOf(a.type) - MOTIF_PRIORITY.indexOf(b.type))
+}
+
+/**
+ * Motifs for an intervention, or an empty list if it lacks the move data.
+ */
+export function detectInterventionMotifs(
+  intervention: Pick<InterventionState, 'fenBeforeMove' | 'userMove' | 'bestMove'>
+): Motif[] {
+  if (!intervention.fenBeforeMove || !intervention.userMove) return []
+  return detectMotifs({
+    fenBeforeMove: intervention.fenBeforeMove,
+    userMove: intervention.userMove,
+    bestMove: intervention.bestMove,
+  })
+}
@@ -0,0 +1,97 @@
+/**
+ * Opening Names
+ *
+ * A compact table of common openings by their main-line moves, for naming
+ * games in the library. The longest line that matches the start of a game
+ * wins, so "1. e4 e5 2. Nf3 Nc6 3. Bb5" is a Ruy Lopez rather than just a
+ * King's Pawn Game.
+ */
+
+export interface Opening {
+  /** ECO code, e.g. "C60" */
+  eco: string
+  name: string
+}
+
+/** [ECO, name, moves in SAN] */
+const OPENINGS: [string, string, string][] = [
+  ['B00', "King's Pawn Opening", 'e4'],
+  ['A40', "Queen's Pawn Opening", 'd4'],
+  ['A04', 'Zukertort Opening', 'Nf3'],
+  ['A10', 'English Opening', 'c4'],
+  ['A02', "Bird's Opening", 'f4'],
+  ['A01', 'Nimzo-Larsen Attack', 'b3'],
+  ['A09', 'Réti Opening', 'Nf3 d5 c4'],
+  ['A20', "English Opening: King's English", 'c4 e5'],
+
+  ['C20', "King's Pawn Game", 'e4 e5'],
+  ['C40', "King's Knight Opening", 'e4 e5 Nf3'],
+  ['C44', "King's Pawn Game: Two Knights", 'e4 e5 Nf3 Nc6'],
+  ['C60', 'Ruy Lopez', 'e4 e5 Nf3 Nc6 Bb5'],
+  ['C68', 'Ruy Lopez: Exchange Variation', 'e4 e5 Nf3 Nc6 Bb5 a6 Bxc6'],
+  ['C50', 'Italian Game', 'e4 e5 Nf3 Nc6 Bc4'],
+  ['C50', 'Italian Game: Giuoco Piano', 'e4 e5 Nf3 Nc6 Bc4 Bc5'],
+  ['C55', 'Italian Game: Two Knights Defense', 'e4 e5 Nf3 Nc6 Bc4 Nf6'],
+  ['C45', 'Scotch Game', 'e4 e5 Nf3 Nc6 d4'],
+  ['C47', 'Four Knights Game', 'e4 e5 Nf3 Nc6 Nc3 Nf6'],
+  ['C42', "Petrov's Defense", 'e4 e5 Nf3 Nf6'],
+  ['C41', 'Philidor Defense', 'e4 e5 Nf3 d6'],
+  ['C30', "King's Gambit", 'e4 e5 f4'],
+  ['C23', "Bishop's Opening", 'e4 e5 Bc4'],
+  ['C25', 'Vienna Game', 'e4 e5 Nc3'],
+  ['C21', 'Center Game', 'e4 e5 d4'],
+
+  ['B20', 'Sicilian Defense', 'e4 c5'],
+  ['B22', 'Sicilian Defense: Alapin Variation', 'e4 c5 c3'],
+  ['B23', 'Sicilian Defense: Closed', 'e4 c5 Nc3'],
+  ['B30', 'Sicilian Defense: Old Sicilian', 'e4 c5 Nf3 Nc6'],
+  ['B40', 'Sicilian Defense: French Variation', 'e4 c5 Nf3 e6'],
+  ['B50', 'Sicilian Defense: Modern Variations', 'e4 c5 Nf3 d6'],
+  ['B70', 'Sicilian Defense: Dragon Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6'],
+  ['B90', 'Sicilian Defense: Najdorf Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6'],
+
+  ['C00', 'French Defense', 'e4 e6'],
+  ['C01', 'French Defense: Exchange Variation', 'e4 e6 d4 d5 exd5'],
+  ['C02', 'French Defense: Advance Variation', 'e4 e6 d4 d5 e5'],
+  ['C03', 'French Defense: Tarrasch Variation', 'e4 e6 d4 d5 Nd2'],
+  ['B10', 'Caro-Kann Defense', 'e4 c6'],
+  ['B12', 'Caro-Kann Defense: Advance Variation', 'e4 c6 d4 d5 e5'],
+  ['B01', 'Scandinavian Defense', 'e4 d5'],
+  ['B07', 'Pirc Defense', 'e4 d6'],
+  ['B06', 'Modern Defense', 'e4 g6'],
+  ['B02', "Alekhine's Defense", 'e4 Nf6'],
+  ['B00', 'Nimzowitsch Defense', 'e4 Nc6'],
+
+  ['D00', "Queen's Pawn Game", 'd4 d5'],
+  ['D00', "Queen's Pawn Game: London System", 'd4 d5 Bf4'],
+  ['D06', "Queen's Gambit", 'd4 d5 c4'],
+  ['D20', "Queen's Gambit Accepted", 'd4 d5 c4 dxc4'],
+  ['D30', "Queen's Gambit Declined", 'd4 d5 c4 e6'],
+  ['D10', 'Slav Defense', 'd4 d5 c4 c6'],
+  ['D43', 'Semi-Slav Defense', 'd4 d5 c4 c6 Nf3 Nf6 Nc3 e6'],
+  ['A45', 'Indian Defense', 'd4 Nf6'],
+  ['A50', 'Indian Defense: Normal Variation', 'd4 Nf6 c4'],
+  ['E60', "King's Indian Defense", 'd4 Nf6 c4 g6'],
+  ['D80', 'Grünfeld Defense', 'd4 Nf6 c4 g6 Nc3 d5'],
+  ['E20', 'Nimzo-Indian Defense', 'd4 Nf6 c4 e6 Nc3 Bb4'],
+  ['E12', "Queen's Indian Defense", 'd4 Nf6 c4 e6 Nf3 b6'],
+  ['A56', 'Benoni Defense', 'd4 Nf6 c4 c5'],
+  ['A57', 'Benko Gambit', 'd4 Nf6 c4 c5 d5 b5'],
+  ['A80', 'Dutch Defense', 'd4 f5'],
+]
+
+/**
+ * The opening a game starts with, from its moves in SAN, or null if it
+ * isn't in the table.
+ */
+export function identifyOpening(moves: string[]): Opening | null {
+  let best: { opening: Opening; length: number } | null = null
+  for (const [eco, name, line] of OPENINGS) {
+    const lineMoves = line.split(' ')
+    if (lineMoves.length > moves.length || (best && lineMoves.length <= best.length)) continue
+    if (lineMoves.every((san, i) => moves[i] === san)) {
+      best = { opening: { eco, name }, length: lineMoves.length }
+    }
+  }
+  return best?.opening ?? null
+}
@@ -0,0 +1,373 @@
+/**
+ * PGN Import and Export
+ *
+ * Writes a game tree as PGN for review in other tools: standard headers,
+ * clock comments ([%clk]), win probabilities from Maia2, NAGs from the coach's
+ * severity grading, and retried moves and coach suggestions as variations.
+ * Reads PGN files (one or many games, with variations) back into game trees
+ * for the replay viewer.
+ */
+
+import { Chess, DEFAULT_POSITION } from 'chess.js'
+import { uciToSan } from './chess-utils'
+import {
+  type GameTree,
+  type GameTreeNode,
+  addMove,
+  annotateNode,
+  createGameTree,
+  getMainline,
+  getMainlineChild,
+  getVariations,
+} from './game-tree'
+import type { MistakeSeverity } from './intervention'
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*'
+
+export interface PgnExportOptions {
+  white: string
+  black: string
+  /** Ratings, e.g. Maia's ELO for the computer side */
+  whiteElo?: number
+  blackElo?: number
+  /** PGN TimeControl value, e.g. "600" or "300+2" ("-" when untimed) */
+  timeControl: string
+  result: PgnResult
+  /** Date the game was played (default: today) */
+  date?: Date
+  /** Event name (default "Checkmate Coach game") */
+  event?: string
+}
+
+/** Annotation glyphs for each severity (PGN "suffix annotations") */
+export const SEVERITY_NAGS: Record<MistakeSeverity, string> = {
+  inaccuracy: '?!',
+  mistake: '?',
+  blunder: '??',
+  'missed-win': '?',
+}
+
+/**
+ * Format a clock time for a [%clk] comment, e.g. 598 -> "0:09:58".
+ */
+export function formatPgnClock(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds))
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = total % 60
+  return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`
+}
+
+/**
+ * Format a date for the PGN Date header, e.g. "2024.03.09".
+ */
+export function formatPgnDate(date: Date): string {
+  const mm = (date.getMonth() + 1).toString().padStart(2, '0')
+  const dd = date.getDate().toString().padStart(2, '0')
+  return `${date.getFullYear()}.${mm}.${dd}`
+}
+
+/** Escape a header value (quotes and backslashes) */
+function headerValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+}
+
+/** Text of a node's comment: clock and win probability */
+function nodeComment(node: GameTreeNode): string {
+  const parts: string[] = []
+  if (node.clock !== null) parts.push(`[%clk ${formatPgnClock(node.clock)}]`)
+  if (node.winProbability !== null) {
+    parts.push(`White win probability ${Math.round(node.winProbability * 100)}%`)
+  }
+  return parts.join(' ')
+}
+
+/** Move number prefix: "12." for white, "12..." for black when needed */
+function movePrefix(color: 'w' | 'b' | null, moveNumber: number, force: boolean): string {
+  if (color === 'w') return `${moveNumber}. `
+  return force ? `${moveNumber}... ` : ''
+}
+
+/**
+ * The coach's suggestions at a position that weren't played, as one-move
+ * variations.
+ */
+function coachSuggestions(tree: GameTree, parent: GameTreeNode): string[] {
+  const played = new Set(parent.children.map(id => tree.nodes[id].uci))
+  const suggestions = new Set<string>()
+  for (const id of parent.children) {
+    const { bestMove } = tree.nodes[id]
+    if (bestMove && !played.has(bestMove)) suggestions.add(bestMove)
+  }
+
+  const moveNumber = parseInt(parent.fen.split(' ')[5], 10)
+  const color = parent.fen.split(' ')[1] === 'b' ? 'b' : 'w'
+  return [...suggestions].map(uci =>
+    `(${movePrefix(color, moveNumber, true)}${uciToSan(parent.fen, uci)} {Coach's suggestion})`
+  )
+}
+
+/**
+ * Write a line starting at `first`, with side variations after each move.
+ * The variations of the first move are left to the caller when the line is
+ * itself a variation.
+ */
+function writeLine(tree: GameTree, first: GameTreeNode, isVariation: boolean): string {
+  const tokens: string[] = []
+  let node: GameTreeNode | null = first
+  let forceNumber = true
+
+  while (node) {
+    const nag = node.severity ? SEVERITY_NAGS[node.severity] : ''
+    tokens.push(`${movePrefix(node.color, node.moveNumber, forceNumber)}${node.san}${nag}`)
+    forceNumber = false
+
+    const comment = nodeComment(node)
+    if (comment) {
+      tokens.push(`{${comment}}`)
+      forceNumber = true
+    }
+
+    if (node.parentId !== null && !(isVariation && node === first)) {
+      const parent = tree.nodes[node.parentId]
+      const alternatives = [
+        ...getVariations(tree, parent.id).map(v => `(${writeLine(tree, v, true)})`),
+        ...coachSuggestions(tree, parent),
+      ]
+      if (alternatives.length > 0) {
+        tokens.push(...alternatives)
+        forceNumber = true
+      }
+    }
+
+    node = getMainlineChild(tree, node.id)
+  }
+
+  return tokens.join(' ')
+}
+
+/** Wrap movetext at 80 columns, as the PGN standard recommends */
+function wrap(text: string, width = 80): string {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(' ')) {
+    if (line && line.length + 1 + word.length > width) {
+      lines.push(line)
+      line = word
+    } else {
+      line = line ? `${line} ${word}` : word
+    }
+  }
+  if (line) lines.push(line)
+  return lines.join('\n')
+}
+
+/**
+ * Export a game tree as PGN.
+ */
+export function exportPgn(tree: GameTree, options: PgnExportOptions): string {
+  const root = tree.nodes[tree.rootId]
+  const headers: [string, string][] = [
+    ['Event', options.event ?? 'Checkmate Coach game'],
+    ['Site', 'Checkmate Coach'],
+    ['Date', formatPgnDate(options.date ?? new Date())],
+    ['Round', '-'],
+    ['White', options.white],
+    ['Black', options.black],
+    ['Result', options.result],
+  ]
+  if (options.whiteElo !== undefined) headers.push(['WhiteElo', String(options.whiteElo)])
+  if (options.blackElo !== undefined) headers.push(['BlackElo', String(options.blackElo)])
+  headers.push(['TimeControl', options.timeControl])
+  if (root.fen !== DEFAULT_POSITION) {
+    headers.push(['SetUp', '1'], ['FEN', root.fen])
+  }
+
+  const first = getMainlineChild(tree, root.id)
+  const movetext = [first ? writeLine(tree, first, false) : '', options.result].filter(Boolean).join(' ')
+
+  const headerText = headers.map(([name, value]) => `[${name} "${headerValue(value)}"]`).join('\n')
+  return `${headerText}\n\n${wrap(movetext)}\n`
+}
+
+// ——————————————————————————————————————————
+// Import
+// ——————————————————————————————————————————
+
+export interface ImportedGame {
+  /** PGN headers, e.g. { White: "Carlsen, M", Result: "1-0" } */
+  headers: Record<string, string>
+  /** The game's moves and variations; currentId is the end of the main line */
+  tree: GameTree
+}
+
+/** Severity implied by move suffixes and numeric NAGs */
+const NAG_SEVERITIES: Record<string, MistakeSeverity> = {
+  '?!': 'inaccuracy',
+  '?': 'mistake',
+  '??': 'blunder',
+  $6: 'inaccuracy',
+  $2: 'mistake',
+  $4: 'blunder',
+}
+
+const TOKEN_PATTERN = new RegExp(
+  [
+    '\\[\\s*(\\w+)\\s+"((?:[^"\\\\]|\\\\.)*)"\\s*\\]', // [Tag "value"]
+    '\\{[^}]*\\}', // {comment}
+    ';[^\\n]*', // ; comment to end of line
+    '[()]', // variation start/end
+    '\\$\\d+', // numeric annotation glyph
+    '1-0|0-1|1\\/2-1\\/2|\\*', // game result
+    '\\d+\\.+', // move number
+    '[^\\s(){}\\[\\];]+', // move
+  ].join('|'),
+  'g'
+)
+
+/** Parse "h:mm:ss" (optionally with fractions) into seconds */
+function parseClock(text: string): number | null {
+  const match = text.match(/\[%clk\s+(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)\]/)
+  if (!match) return null
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Math.floor(Number(match[3]))
+}
+
+/** Parse the win-probability comment written by exportPgn */
+function parseWinProbability(text: string): number | null {
+  const match = text.match(/White win probability (\d+)%/)
+  return match ? Number(match[1]) / 100 : null
+}
+
+type NodePatch = Parameters<typeof annotateNode>[2]
+
+/**
+ * Builds one game from PGN tokens, keeping track of where variations branch.
+ */
+function createGameBuilder(gameNumber: number) {
+  const headers: Record<string, string> = {}
+  let tree: GameTree | null = null
+  let currentId = 0 // position the next move is played from
+  let lastId: number | null = null // the last move played at this nesting level
+  const stack: { currentId: number; lastId: number | null }[] = []
+  let hasMoves = false
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid PGN (game ${gameNumber}): ${reason}`)
+  }
+
+  const getTree = (): GameTree => {
+    if (!tree) {
+      tree = createGameTree(headers.FEN ?? DEFAULT_POSITION)
+      currentId = tree.rootId
+    }
+    return tree
+  }
+
+  const annotate = (patch: NodePatch) => {
+    if (tree && lastId !== null) tree = annotateNode(tree, lastId, patch)
+  }
+
+  return {
+    headers,
+    hasMoves: () => hasMoves,
+
+    move(token: string) {
+      const current = getTree()
+      const [, rawSan, suffix] = token.match(/^(.*?)([?!]{1,2})?$/)!
+      const san = rawSan.replace(/^0-0-0/, 'O-O-O').replace(/^0-0/, 'O-O')
+
+      let move
+      try {
+        move = new Chess(current.nodes[currentId].fen).move(san)
+      } catch {
+        return fail(`illegal move "${san}"`)
+      }
+
+      const variation = current.nodes[currentId].children.length > 0
+      tree = addMove({ ...current, currentId }, move, { variation })
+      lastId = currentId = tree.currentId
+      hasMoves = true
+      if (suffix && NAG_SEVERITIES[suffix]) annotate({ severity: NAG_SEVERITIES[suffix] })
+    },
+
+    annotate,
+
+    comment(text: string) {
+      const clock = parseClock(text)
+      const winProbability = parseWinProbability(text)
+      if (clock !== null) annotate({ clock })
+      if (winProbability !== null) annotate({ winProbability })
+    },
+
+    startVariation() {
+      const current = getTree()
+      if (lastId === null) return fail('variation before any move')
+      stack.push({ currentId, lastId })
+      // A variation replaces the last move, so it starts from the position before it
+      currentId = current.nodes[lastId].parentId!
+      lastId = null
+    },
+
+    endVariation() {
+      const saved = stack.pop() ?? fail('unmatched ")"')
+      currentId = saved.currentId
+      lastId = saved.lastId
+    },
+
+    finish(result: string | null): ImportedGame {
+      if (stack.length > 0) fail('unclosed variation')
+      const final = getTree()
+      const mainline = getMainline(final)
+      const end = mainline.length > 0 ? mainline[mainline.length - 1].id : final.rootId
+      return {
+        headers: result && !headers.Result ? { ...headers, Result: result } : { ...headers },
+        tree: { ...final, currentId: end },
+      }
+    },
+  }
+}
+
+/**
+ * Parse a PGN file with one or more games, including variations.
+ * Throws an Error describing the first problem found.
+ */
+export function importPgn(text: string): ImportedGame[] {
+  const games: ImportedGame[] = []
+  let builder = createGameBuilder(1)
+  let hasContent = false
+
+  const finish = (result: string | null) => {
+    games.push(builder.finish(result))
+    builder = createGameBuilder(games.length + 1)
+    hasContent = false
+  }
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const [token, tag, value] = match
+
+    if (tag !== undefined) {
+      // A header after moves starts the next game (when the result was omitted)
+      if (builder.hasMoves()) finish(null)
+      builder.headers[tag] = value.replace(/\\(.)/g, '$1')
+      hasContent = true
+    } else if (token.startsWith('{') || token.startsWith(';')) {
+      builder.comment(token)
+    } else if (token === '(') {
+      builder.startVariation()
+    } else if (token === ')') {
+      builder.endVariation()
+    } else if (token.startsWith('$')) {
+      const severity = NAG_SEVERITIES[token]
+      if (severity) builder.annotate({ severity })
+    } else if (/^(1-0|0-1|1\/2-1\/2|\*)$/.test(token)) {
+      finish(token)
+    } else if (!/^\d+\.+$/.test(token)) {
+      builder.move(token)
+      hasContent = true
+    }
+  }
+
+  if (hasContent) finish(null)
+  if (games.length === 0) throw new Error('Invalid PGN: no games found')
+  return games
+}
@@ -0,0 +1,226 @@
+/**
+ * Puzzle Deck
+ *
+ * Every coach intervention becomes a personal puzzle: the position before the
+ * mistake, the move the user played, and the move Maia2 recommended. The deck
+ * is kept in localStorage and played back in Puzzle mode, where answers are
+ * graded against Maia2's move probabilities for the position. Each puzzle
+ * carries its own spaced-repetition schedule, and the whole deck can be
+ * exported and imported as JSON to move it between devices.
+ */
+
+import { scoreExerciseMove, type ExerciseVerdict } from './critical-moments'
+import type { InterventionState, MistakeSeverity } from './intervention'
+import { createSchedule, isDue, isReviewSchedule, reviewSchedule, type ReviewGrade, type ReviewSchedule } from './spaced-repetition'
+import { getStoredItem, writeJson } from './storage'
+
+/** localStorage key of the deck (under STORAGE_PREFIX) */
+export const PUZZLE_STORAGE_KEY = 'puzzles'
+
+/** Most puzzles kept — the oldest are dropped first */
+export const MAX_PUZZLES = 200
+
+/** Version of the export file format */
+export const PUZZLE_EXPORT_VERSION = 1
+
+/** Verdicts that count as solving the puzzle */
+const CORRECT_VERDICTS: ExerciseVerdict[] = ['best', 'good']
+
+export interface Puzzle {
+  /** Stable id — the position's FEN, so the same mistake isn't stored twice */
+  id: string
+  /** Position before the mistake; the user is to move */
+  fen: string
+  /** The mistake as played, in SAN */
+  userMove: string
+  /** Maia2's recommended move in UCI */
+  bestMove: string
+  /** Maia2's move probabilities for the position, used for grading */
+  moveProbs: Record<string, number>
+  severity: MistakeSeverity | null
+  /** When the mistake was made (ISO 8601) */
+  createdAt: string
+  /** When the puzzle next comes up for review */
+  schedule: ReviewSchedule
+}
+
+/** A deck as exported to a JSON file */
+export interface PuzzleDeckExport {
+  version: typeof PUZZLE_EXPORT_VERSION
+  exportedAt: string
+  puzzles: Puzzle[]
+}
+
+export interface PuzzleResult {
+  correct: boolean
+  uci: string
+  san: string
+  /** Maia2's probability for the answer (0–1) */
+  probability: number
+  verdict: ExerciseVerdict
+}
+
+/**
+ * The puzzle for an intervention, or null when it lacks the position or a
+ * recommended move.
+ */
+export function puzzleFromIntervention(intervention: InterventionState, now: Date = new Date()): Puzzle | null {
+  const { fenBeforeMove, userMove, bestMove } = intervention
+  if (!fenBeforeMove || !userMove || !bestMove) return null
+
+  return {
+    id: fenBeforeMove,
+    fen: fenBeforeMove,
+    userMove,
+    bestMove,
+    moveProbs: intervention.moveProbs ?? { [bestMove]: 1 },
+    severity: intervention.severity,
+    createdAt: now.toISOString(),
+    schedule: createSchedule(now),
+  }
+}
+
+function isPuzzle(value: unknown): value is Omit<Puzzle, 'schedule'> & { schedule?: unknown } {
+  if (!value || typeof value !== 'object') return false
+  const p = value as Record<string, unknown>
+  return (
+    typeof p.id === 'string' &&
+    typeof p.fen === 'string' &&
+    typeof p.userMove === 'string' &&
+    typeof p.bestMove === 'string' &&
+    !!p.moveProbs &&
+    typeof p.moveProbs === 'object' &&
+    typeof p.createdAt === 'string'
+  )
+}
+
+/**
+ * The valid puzzles in a parsed list. Puzzles saved before scheduling existed
+ * get a new schedule, due from when they were created.
+ */
+function toPuzzles(values: unknown[]): Puzzle[] {
+  return values.filter(isPuzzle).map((p) => ({
+    ...p,
+    schedule: isReviewSchedule(p.schedule) ? p.schedule : createSchedule(new Date(p.createdAt)),
+  }))
+}
+
+/**
+ * Parse a stored deck, dropping anything that isn't a valid puzzle.
+ */
+export function parsePuzzleDeck(json: string | null): Puzzle[] {
+  if (!json) return []
+  try {
+    const parsed: unknown = JSON.parse(json)
+    return Array.isArray(parsed) ? toPuzzles(parsed) : []
+  } catch {
+    return []
+  }
+}
+
+export function loadPuzzles(): Puzzle[] {
+  return parsePuzzleDeck(getStoredItem(PUZZLE_STORAGE_KEY))
+}
+
+export function savePuzzles(deck: Puzzle[]): void {
+  writeJson(PUZZLE_STORAGE_KEY, deck)
+}
+
+/**
+ * Add a puzzle to the front of the deck, replacing an older one for the same
+ * position and keeping the deck within MAX_PUZZLES. A mistake made again in
+ * a position already in the deck keeps its schedule, counted as a failed
+ * review — 0 for the same mistake, 1 for another, as in getReviewGrade.
+ */
+export function addPuzzle(deck: Puzzle[], puzzle: Puzzle): Puzzle[] {
+  const existing = deck.find((p) => p.id === puzzle.id)
+  const added = existing
+    ? {
+        ...puzzle,
+        schedule: reviewSchedule(existing.schedule, existing.userMove === puzzle.userMove ? 0 : 1, new Date(puzzle.createdAt)),
+      }
+    : puzzle
+  return [added, ...deck.filter((p) => p.id !== puzzle.id)].slice(0, MAX_PUZZLES)
+}
+
+export function removePuzzle(deck: Puzzle[], id: string): Puzzle[] {
+  return deck.filter((p) => p.id !== id)
+}
+
+/**
+ * Puzzles due for review by the end of today, most overdue first.
+ */
+export function getDuePuzzles(deck: Puzzle[], now: Date = new Date()): Puzzle[] {
+  return deck
+    .filter((p) => isDue(p.schedule, now))
+    .sort((a, b) => Date.parse(a.schedule.due) - Date.parse(b.schedule.due))
+}
+
+/**
+ * Reschedule a puzzle after a review.
+ */
+export function recordPuzzleReview(deck: Puzzle[], id: string, grade: ReviewGrade, now: Date = new Date()): Puzzle[] {
+  return deck.map((p) => (p.id === id ? { ...p, schedule: reviewSchedule(p.schedule, grade, now) } : p))
+}
+
+/**
+ * Grade an answer (UCI): Maia2's recommended move, or a move Maia2 rates at
+ * least half as likely, solves the puzzle. Repeating the original mistake
+ * never does.
+ */
+export function gradePuzzleMove(puzzle: Puzzle, uci: string): PuzzleResult {
+  const { san, probability, verdict } = scoreExerciseMove(
+    { fen: puzzle.fen, bestMove: puzzle.bestMove, moves: puzzle.moveProbs },
+    uci
+  )
+  const correct = CORRECT_VERDICTS.includes(verdict) && san !== puzzle.userMove
+  return { correct, uci, san, probability, verdict: correct ? verdict : 'miss' }
+}
+
+/**
+ * The review grade for a first answer: 5 for Maia2's move, 4 for a move Maia2
+ * rates nearly as likely, 1 for any other miss and 0 for repeating the
+ * original mistake.
+ */
+export function getReviewGrade(puzzle: Puzzle, result: PuzzleResult): ReviewGrade {
+  if (result.correct) return result.verdict === 'best' ? 5 : 4
+  return result.san === puzzle.userMove ? 0 : 1
+}
+
+/**
+ * The deck and its schedules as a JSON file.
+ */
+export function exportPuzzleDeck(deck: Puzzle[], now: Date = new Date()): string {
+  const data: PuzzleDeckExport = { version: PUZZLE_EXPORT_VERSION, exportedAt: now.toISOString(), puzzles: deck }
+  return JSON.stringify(data, null, 2)
+}
+
+/**
+ * Merge an exported deck into the current one. For a position in both, the
+ * copy reviewed most recently wins. Throws if the file isn't a deck export.
+ */
+export function importPuzzleDeck(json: string, deck: Puzzle[]): Puzzle[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new Error('Invalid puzzle deck: not a JSON file')
+  }
+  const data = parsed as Partial<PuzzleDeckExport> | null
+  if (!data || typeof data !== 'object' || !Array.isArray(data.puzzles)) {
+    throw new Error('Invalid puzzle deck: no puzzles found')
+  }
+  if (data.version !== PUZZLE_EXPORT_VERSION) {
+    throw new Error(`Invalid puzzle deck: unsupported version ${String(data.version)}`)
+  }
+
+  const lastReviewed = (p: Puzzle) => (p.schedule.lastReviewed ? Date.parse(p.schedule.lastReviewed) : 0)
+  const merged = new Map(deck.map((p) => [p.id, p]))
+  for (const puzzle of toPuzzles(data.puzzles)) {
+    const current = merged.get(puzzle.id)
+    if (!current || lastReviewed(puzzle) > lastReviewed(current)) merged.set(puzzle.id, puzzle)
+  }
+  return [...merged.values()]
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+    .slice(0, MAX_PUZZLES)
+}
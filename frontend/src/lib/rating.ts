@@ -0,0 +1,316 @@
+/**
+ * Player Rating (Glicko-2)
+ *
+ * Estimates the user's strength from coach-mode games, with Maia's Elo as
+ * the opponent's rating. Each game is its own rating period. Games where the
+ * user took many moves back after coach interventions say less about their
+ * real strength, so they count for less — or not at all — depending on the
+ * user's settings.
+ *
+ * Glicko-2 as described by Glickman, "Example of the Glicko-2 system" (2013).
+ */
+
+import type { GameTree } from './game-tree'
+import type { LibraryOutcome } from './game-library'
+import { getStoredItem, writeJson } from './storage'
+
+/** localStorage keys (under STORAGE_PREFIX) */
+export const RATING_STORAGE_KEY = 'rating'
+export const RATING_SETTINGS_STORAGE_KEY = 'rating-settings'
+
+export const INITIAL_RATING = 1500
+export const INITIAL_DEVIATION = 350
+export const INITIAL_VOLATILITY = 0.06
+
+/** Constrains how fast the volatility changes (Glickman suggests 0.3–1.2) */
+export const TAU = 0.5
+
+/**
+ * Rating deviation assumed for Maia — its strength at an Elo setting is
+ * fixed, but the calibration against human ratings is approximate.
+ */
+export const MAIA_DEVIATION = 50
+
+/** Glicko-2's conversion between the rating scale and its internal scale */
+const SCALE = 173.7178
+
+/** Convergence tolerance for the volatility iteration */
+const EPSILON = 0.000001
+
+export interface Glicko2Rating {
+  rating: number
+  /** Rating deviation — how uncertain the rating is */
+  deviation: number
+  volatility: number
+}
+
+export interface RatedResult {
+  opponentRating: number
+  opponentDeviation: number
+  /** 1 for a win, 0.5 for a draw, 0 for a loss */
+  score: number
+  /** How much the game counts (0–1, default 1) */
+  weight?: number
+}
+
+/** How games with retried moves are rated */
+export type RetryPolicy = 'weight' | 'exclude' | 'ignore'
+
+export interface RatingSettings {
+  retryPolicy: RetryPolicy
+  /**
+   * Retries at which a game stops counting: with 'weight' each retry takes
+   * 1/retryLimit off the game's weight; with 'exclude' the game is skipped.
+   */
+  retryLimit: number
+}
+
+export const DEFAULT_RATING_SETTINGS: RatingSettings = {
+  retryPolicy: 'weight',
+  retryLimit: 4,
+}
+
+export const RETRY_POLICY_LABELS: Record<RetryPolicy, string> = {
+  weight: 'Count for less',
+  exclude: 'Leave out',
+  ignore: 'Count fully',
+}
+
+/** Scores for each outcome from the user's side */
+export const OUTCOME_SCORES: Record<LibraryOutcome, number> = {
+  win: 1,
+  draw: 0.5,
+  loss: 0,
+}
+
+export interface RatingHistoryEntry {
+  /** The game's id in the library */
+  gameId: string
+  /** When the game was played (ISO 8601) */
+  date: string
+  /** Rating and deviation after the game */
+  rating: number
+  deviation: number
+  opponentElo: number
+  score: number
+  retries: number
+  weight: number
+}
+
+export interface PlayerRating extends Glicko2Rating {
+  /** Rated games, oldest first */
+  history: RatingHistoryEntry[]
+}
+
+/** A finished coach-mode game to rate */
+export interface RatedGame {
+  id: string
+  date: Date
+  opponentElo: number
+  score: number
+  /** Moves taken back after coach interventions */
+  retries: number
+}
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI))
+
+const expectedScore = (mu: number, muJ: number, phiJ: number) => 1 / (1 + Math.exp(-g(phiJ) * (mu - muJ)))
+
+/**
+ * The new volatility, by the Illinois algorithm (step 5 of Glicko-2).
+ */
+function updateVolatility(phi: number, sigma: number, v: number, delta: number, tau: number): number {
+  const a = Math.log(sigma * sigma)
+  const f = (x: number) => {
+    const ex = Math.exp(x)
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * (phi * phi + v + ex) ** 2) - (x - a) / (tau * tau)
+  }
+
+  let A = a
+  let B: number
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v)
+  } else {
+    let k = 1
+    while (f(a - k * tau) < 0) k++
+    B = a - k * tau
+  }
+
+  let fA = f(A)
+  let fB = f(B)
+  while (Math.abs(B - A) > EPSILON) {
+    const C = A + ((A - B) * fA) / (fB - fA)
+    const fC = f(C)
+    if (fC * fB <= 0) {
+      A = B
+      fA = fB
+    } else {
+      fA /= 2
+    }
+    B = C
+    fB = fC
+  }
+  return Math.exp(A / 2)
+}
+
+/**
+ * The rating after one rating period. Weighted results count as that
+ * fraction of a game; with no (weighted) results, only the deviation grows.
+ */
+export function updateRating(player: Glicko2Rating, results: RatedResult[], tau: number = TAU): Glicko2Rating {
+  const mu = (player.rating - INITIAL_RATING) / SCALE
+  const phi = player.deviation / SCALE
+  const counted = results.filter((r) => (r.weight ?? 1) > 0)
+
+  if (counted.length === 0) {
+    const deviation = Math.sqrt(phi * phi + player.volatility * player.volatility) * SCALE
+    return { ...player, deviation }
+  }
+
+  let inverseV = 0
+  let improvement = 0
+  for (const result of counted) {
+    const muJ = (result.opponentRating - INITIAL_RATING) / SCALE
+    const phiJ = result.opponentDeviation / SCALE
+    const weight = result.weight ?? 1
+    const e = expectedScore(mu, muJ, phiJ)
+    inverseV += weight * g(phiJ) ** 2 * e * (1 - e)
+    improvement += weight * g(phiJ) * (result.score - e)
+  }
+  const v = 1 / inverseV
+  const volatility = updateVolatility(phi, player.volatility, v, v * improvement, tau)
+
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility)
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v)
+  const newMu = mu + newPhi * newPhi * improvement
+
+  return {
+    rating: newMu * SCALE + INITIAL_RATING,
+    deviation: newPhi * SCALE,
+    volatility,
+  }
+}
+
+/**
+ * How much a game counts towards the rating, from its retries.
+ */
+export function getGameWeight(retries: number, settings: RatingSettings): number {
+  if (settings.retryPolicy === 'ignore') return 1
+  if (settings.retryPolicy === 'exclude') return retries >= settings.retryLimit ? 0 : 1
+  return Math.max(0, 1 - retries / settings.retryLimit)
+}
+
+/**
+ * Moves the user took back after a coach intervention.
+ */
+export function countRetries(tree: GameTree): number {
+  return Object.values(tree.nodes).filter((node) => node.rejected).length
+}
+
+export function createPlayerRating(): PlayerRating {
+  return {
+    rating: INITIAL_RATING,
+    deviation: INITIAL_DEVIATION,
+    volatility: INITIAL_VOLATILITY,
+    history: [],
+  }
+}
+
+/**
+ * The rating after a game against Maia. A game already rated, or one that
+ * doesn't count under the retry settings, leaves the rating as it is.
+ */
+export function recordRatedGame(player: PlayerRating, game: RatedGame, settings: RatingSettings): PlayerRating {
+  if (player.history.some((entry) => entry.gameId === game.id)) return player
+  const weight = getGameWeight(game.retries, settings)
+  if (weight === 0) return player
+
+  const updated = updateRating(player, [
+    { opponentRating: game.opponentElo, opponentDeviation: MAIA_DEVIATION, score: game.score, weight },
+  ])
+  return {
+    ...updated,
+    history: [
+      ...player.history,
+      {
+        gameId: game.id,
+        date: game.date.toISOString(),
+        rating: updated.rating,
+        deviation: updated.deviation,
+        opponentElo: game.opponentElo,
+        score: game.score,
+        retries: game.retries,
+        weight,
+      },
+    ],
+  }
+}
+
+/**
+ * The opponent level closest to the user's rating, or null before any game
+ * has been rated.
+ */
+export function suggestOpponentElo(player: PlayerRating, levels: number[]): number | null {
+  if (player.history.length === 0 || levels.length === 0) return null
+  return levels.reduce((best, elo) => (Math.abs(elo - player.rating) < Math.abs(best - player.rating) ? elo : best))
+}
+
+/**
+ * Parse a stored rating, or a new one if it is missing or invalid.
+ */
+export function parsePlayerRating(json: string | null): PlayerRating {
+  if (!json) return createPlayerRating()
+  try {
+    const parsed = JSON.parse(json) as Partial<PlayerRating> | null
+    if (
+      !parsed ||
+      typeof parsed.rating !== 'number' ||
+      typeof parsed.deviation !== 'number' ||
+      typeof parsed.volatility !== 'number' ||
+      !Array.isArray(parsed.history)
+    ) {
+      return createPlayerRating()
+    }
+    return parsed as PlayerRating
+  } catch {
+    return createPlayerRating()
+  }
+}
+
+export function loadPlayerRating(): PlayerRating {
+  return parsePlayerRating(getStoredItem(RATING_STORAGE_KEY))
+}
+
+export function savePlayerRating(player: PlayerRating): void {
+  writeJson(RATING_STORAGE_KEY, player)
+}
+
+/**
+ * Parse stored rating settings, falling back to the defaults field by field.
+ */
+export function parseRatingSettings(json: string | null): RatingSettings {
+  if (!json) return DEFAULT_RATING_SETTINGS
+  try {
+    const parsed = JSON.parse(json) as Partial<RatingSettings> | null
+    return {
+      retryPolicy:
+        typeof parsed?.retryPolicy === 'string' && Object.hasOwn(RETRY_POLICY_LABELS, parsed.retryPolicy)
+          ? parsed.retryPolicy
+          : DEFAULT_RATING_SETTINGS.retryPolicy,
+      retryLimit:
+        typeof parsed?.retryLimit === 'number' && parsed.retryLimit >= 1
+          ? parsed.retryLimit
+          : DEFAULT_RATING_SETTINGS.retryLimit,
+    }
+  } catch {
+    return DEFAULT_RATING_SETTINGS
+  }
+}
+
+export function loadRatingSettings(): RatingSettings {
+  return parseRatingSettings(getStoredItem(RATING_SETTINGS_STORAGE_KEY))
+}
+
+export function saveRatingSettings(settings: RatingSettings): void {
+  writeJson(RATING_SETTINGS_STORAGE_KEY, settings)
+}
@@ -0,0 +1,130 @@
+/**
+ * Post-Game Review ("Review My Game")
+ *
+ * Summarizes a finished game from the evaluations stored in its game tree:
+ * the win-probability curve, per-side accuracy, how many inaccuracies,
+ * mistakes and blunders each side made, and where the coach stepped in.
+ */
+
+import { Chess } from 'chess.js'
+import { type GameTree, type GameTreeNode, getMainline } from './game-tree'
+import type { MistakeSeverity } from './intervention'
+
+export interface WinProbabilityPoint {
+  /** Tree node of the position */
+  nodeId: number
+  /** Half-moves played to reach the position (0 = starting position) */
+  ply: number
+  /** White's win probability (0–1) */
+  winProbability: number
+}
+
+/** A move the coach flagged, including moves the user took back */
+export interface ReviewMoment {
+  nodeId: number
+  ply: number
+  moveNumber: number
+  color: 'w' | 'b'
+  san: string
+  severity: MistakeSeverity
+  /** The coach's suggested move in UCI, if known */
+  bestMove: string | null
+  /** The user retried the move, so it isn't part of the final game */
+  retried: boolean
+}
+
+export type SeverityCounts = Record<MistakeSeverity, number>
+
+export interface GameReview {
+  /** Win probability after each main-line ply that was analyzed */
+  points: WinProbabilityPoint[]
+  /** Average move accuracy per side (0–100), or null with no analyzed moves */
+  accuracy: Record<'w' | 'b', number | null>
+  counts: Record<'w' | 'b', SeverityCounts>
+  /** Flagged moves in game order */
+  moments: ReviewMoment[]
+}
+
+/**
+ * White's win probability for a node: the stored evaluation, or the result
+ * itself for positions that ended the game.
+ */
+function getWinProbability(node: GameTreeNode): number | null {
+  if (node.winProbability !== null) return node.winProbability
+  const game = new Chess(node.fen)
+  if (game.isCheckmate()) return game.turn() === 'w' ? 0 : 1
+  if (game.isDraw()) return 0.5
+  return null
+}
+
+/**
+ * Accuracy of a single move (0–100) from the win probability the mover gave
+ * up. Uses the curve popularised by Lichess: a move that keeps the win
+ * chances scores ~100, and the score falls off quickly as the drop grows.
+ */
+export function getMoveAccuracy(winBefore: number, winAfter: number, color: 'w' | 'b'): number {
+  const before = color === 'w' ? winBefore : 1 - winBefore
+  const after = color === 'w' ? winAfter : 1 - winAfter
+  const drop = Math.max(before - after, 0) * 100
+  const accuracy = 103.1668 * Math.exp(-0.04354 * drop) - 3.1669
+  return Math.min(Math.max(accuracy, 0), 100)
+}
+
+function emptyCounts(): SeverityCounts {
+  return { inaccuracy: 0, mistake: 0, blunder: 0, 'missed-win': 0 }
+}
+
+/**
+ * Build the review for a game tree. Moves without an evaluation on either
+ * side are left out of the curve and the accuracy figures.
+ */
+export function reviewGame(tree: GameTree): GameReview {
+  const root = tree.nodes[tree.rootId]
+  const mainline = [root, ...getMainline(tree)]
+  const points: WinProbabilityPoint[] = []
+  const accuracies: Record<'w' | 'b', number[]> = { w: [], b: [] }
+  const counts = { w: emptyCounts(), b: emptyCounts() }
+  const moments: ReviewMoment[] = []
+
+  mainline.forEach((node, ply) => {
+    const winProbability = getWinProbability(node)
+    if (winProbability !== null) points.push({ nodeId: node.id, ply, winProbability })
+
+    if (ply === 0) return
+    const before = getWinProbability(mainline[ply - 1])
+    if (before !== null && winProbability !== null) {
+      accuracies[node.color!].push(getMoveAccuracy(before, winProbability, node.color!))
+    }
+  })
+
+  // Flagged moves: the main line plus the moves the user retried
+  const plies = new Map(mainline.map((node, ply) => [node.id, ply]))
+  for (const [ply, node] of mainline.entries()) {
+    const retried = node.children.map((id) => tree.nodes[id]).filter((child) => child.rejected)
+    const next = mainline[ply + 1]
+    for (const flagged of [...retried, ...(next ? [next] : [])]) {
+      if (!flagged.severity || !flagged.color) continue
+      counts[flagged.color][flagged.severity]++
+      moments.push({
+        nodeId: flagged.id,
+        ply: plies.get(flagged.id) ?? ply + 1,
+        moveNumber: flagged.moveNumber,
+        color: flagged.color,
+        san: flagged.san!,
+        severity: flagged.severity,
+        bestMove: flagged.bestMove,
+        retried: flagged.rejected,
+      })
+    }
+  }
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+
+  return {
+    points,
+    accuracy: { w: average(accuracies.w), b: average(accuracies.b) },
+    counts,
+    moments,
+  }
+}
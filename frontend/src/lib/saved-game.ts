@@ -0,0 +1,109 @@
+/**
+ * Saved Game
+ *
+ * The game in progress, written to localStorage as it is played so a reload
+ * doesn't lose it. The save holds everything needed to put the game back
+ * exactly as it was: the game tree (moves, retries and annotations), the
+ * time control and both clocks, the board orientation, the opponent's Elo
+ * and any coach intervention that was open or still being checked.
+ */
+
+import type { GameTree } from './game-tree'
+import type { InterventionState } from './intervention'
+import { getStoredItem, removeStoredItem, writeJson } from './storage'
+import { type TimeControl, DEFAULT_TIME_CONTROL, parseTimeControl } from './time-control'
+
+/** localStorage key of the game in progress (under STORAGE_PREFIX) */
+export const SAVED_GAME_STORAGE_KEY = 'saved-game'
+
+/** Version of the save format — older saves are ignored */
+export const SAVED_GAME_VERSION = 1
+
+/** Modes a game can be saved in — puzzles and replays aren't */
+export type SavedGameMode = 'pass-and-play' | 'coach'
+
+export interface SavedGame {
+  version: typeof SAVED_GAME_VERSION
+  mode: SavedGameMode
+  tree: GameTree
+  timeControl: TimeControl
+  /** Remaining clock time in seconds */
+  clocks: { w: number; b: number }
+  /** Side shown at the bottom of the board */
+  orientation: 'w' | 'b'
+  /** The user's side against Maia in coach mode */
+  playerColor: 'w' | 'b'
+  /** Maia's starting Elo */
+  aiElo: number
+  /** Target score when Maia's strength adapts to the user, otherwise null */
+  adaptiveTarget: number | null
+  /** Whether the clocks were running */
+  gameStarted: boolean
+  /** The coach intervention, open or not */
+  intervention: InterventionState
+  /** A player move still waiting for its blunder check */
+  pendingCheck: { fen: string; winProbability: number } | null
+  /** When the game started (ISO 8601) */
+  date: string
+  /** When the game was last saved (ISO 8601) */
+  savedAt: string
+}
+
+function isSavedGame(value: unknown): value is SavedGame {
+  if (!value || typeof value !== 'object') return false
+  const s = value as Record<string, unknown>
+  const tree = s.tree as Partial<GameTree> | undefined
+  const clocks = s.clocks as Record<string, unknown> | undefined
+  return (
+    s.version === SAVED_GAME_VERSION &&
+    (s.mode === 'pass-and-play' || s.mode === 'coach') &&
+    !!tree &&
+    typeof tree.nodes === 'object' &&
+    typeof tree.rootId === 'number' &&
+    typeof tree.currentId === 'number' &&
+    !!tree.nodes?.[tree.currentId] &&
+    !!clocks &&
+    typeof clocks.w === 'number' &&
+    typeof clocks.b === 'number' &&
+    (s.orientation === 'w' || s.orientation === 'b') &&
+    (s.playerColor === 'w' || s.playerColor === 'b') &&
+    typeof s.aiElo === 'number' &&
+    typeof s.gameStarted === 'boolean' &&
+    !!s.intervention &&
+    typeof s.intervention === 'object' &&
+    typeof s.date === 'string' &&
+    typeof s.savedAt === 'string'
+  )
+}
+
+/**
+ * Parse a stored game, or null if there is none or it can't be restored.
+ */
+export function parseSavedGame(json: string | null): SavedGame | null {
+  if (!json) return null
+  try {
+    const parsed: unknown = JSON.parse(json)
+    return isSavedGame(parsed)
+      ? {
+          ...parsed,
+          timeControl: parseTimeControl(parsed.timeControl) ?? DEFAULT_TIME_CONTROL,
+          adaptiveTarget: parsed.adaptiveTarget ?? null,
+          pendingCheck: parsed.pendingCheck ?? null,
+        }
+      : null
+  } catch {
+    return null
+  }
+}
+
+export function loadSavedGame(): SavedGame | null {
+  return parseSavedGame(getStoredItem(SAVED_GAME_STORAGE_KEY))
+}
+
+export function saveGame(game: SavedGame): void {
+  writeJson(SAVED_GAME_STORAGE_KEY, game)
+}
+
+export function clearSavedGame(): void {
+  removeStoredItem(SAVED_GAME_STORAGE_KEY)
+}
@@ -0,0 +1,92 @@
+/**
+ * Spaced Repetition (SM-2)
+ *
+ * Schedules mistake puzzles for review with the SuperMemo-2 algorithm: each
+ * review is graded 0–5, good answers push the next review further out by the
+ * card's ease factor, and failed answers send the card back to the start.
+ */
+
+/** Review quality, SM-2 style: 0 = total blackout … 5 = perfect recall */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5
+
+/** Grades below this count as a failed review */
+export const PASSING_GRADE = 3
+
+export const INITIAL_EASE = 2.5
+
+/** SM-2's floor for the ease factor */
+export const MIN_EASE = 1.3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface ReviewSchedule {
+  /** How quickly intervals grow */
+  ease: number
+  /** Days until the next review */
+  interval: number
+  /** Successful reviews in a row */
+  repetitions: number
+  /** When the card is next due (ISO 8601) */
+  due: string
+  /** Last review (ISO 8601), or null for a new card */
+  lastReviewed: string | null
+}
+
+/**
+ * Schedule for a new card — due straight away.
+ */
+export function createSchedule(now: Date = new Date()): ReviewSchedule {
+  return {
+    ease: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    due: now.toISOString(),
+    lastReviewed: null,
+  }
+}
+
+/**
+ * The schedule after a review. Passing reviews go 1 day, 6 days, then the
+ * previous interval times the ease; a failed review restarts at 1 day. The
+ * ease moves with every grade, as in SM-2.
+ */
+export function reviewSchedule(schedule: ReviewSchedule, grade: ReviewGrade, now: Date = new Date()): ReviewSchedule {
+  const ease = Math.max(MIN_EASE, schedule.ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)))
+
+  let repetitions = 0
+  let interval = 1
+  if (grade >= PASSING_GRADE) {
+    repetitions = schedule.repetitions + 1
+    if (repetitions === 2) interval = 6
+    else if (repetitions > 2) interval = Math.round(schedule.interval * schedule.ease)
+  }
+
+  return {
+    ease,
+    interval,
+    repetitions,
+    due: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewed: now.toISOString(),
+  }
+}
+
+/**
+ * Whether the card is due by the end of the given day (local time).
+ */
+export function isDue(schedule: ReviewSchedule, now: Date = new Date()): boolean {
+  const endOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1)
+  return new Date(schedule.due).getTime() < endOfDay.getTime()
+}
+
+export function isReviewSchedule(value: unknown): value is ReviewSchedule {
+  if (!value || typeof value !== 'object') return false
+  const s = value as Record<string, unknown>
+  return (
+    typeof s.ease === 'number' &&
+    typeof s.interval === 'number' &&
+    typeof s.repetitions === 'number' &&
+    typeof s.due === 'string' &&
+    !Number.isNaN(Date.parse(s.due)) &&
+    (s.lastReviewed === null || typeof s.lastReviewed === 'string')
+  )
+}
@@ -0,0 +1,80 @@
+/**
+ * Local Persistence
+ *
+ * JSON values kept in localStorage under a common prefix. Writes notify
+ * subscribers, so components can read stored values through
+ * useSyncExternalStore — which also keeps them empty during server rendering.
+ */
+
+/** Prefix for every key the app stores */
+export const STORAGE_PREFIX = 'checkmate-coach:'
+
+/** Fired on window after the app writes a stored value */
+const CHANGE_EVENT = 'checkmate-coach:storage'
+
+/** localStorage, or undefined on the server or when storage is blocked */
+function getStorage(): Storage | undefined {
+  try {
+    return typeof window === 'undefined' ? undefined : window.localStorage
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * The raw stored string for a key, or null if nothing is stored.
+ */
+export function getStoredItem(key: string): string | null {
+  return getStorage()?.getItem(STORAGE_PREFIX + key) ?? null
+}
+
+/**
+ * Parse a stored value, falling back when it is missing or not valid JSON.
+ */
+export function readJson<T>(key: string, fallback: T): T {
+  const raw = getStoredItem(key)
+  if (raw === null) return fallback
+  try {
+    return JSON.parse(raw) as T
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * Store a value as JSON and notify subscribers. Quota errors are swallowed:
+ * losing a save is better than breaking the game.
+ */
+export function writeJson(key: string, value: unknown): void {
+  const storage = getStorage()
+  if (!storage) return
+  try {
+    storage.setItem(STORAGE_PREFIX + key, JSON.stringify(value))
+  } catch {
+    return
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+/**
+ * Remove a stored value and notify subscribers.
+ */
+export function removeStoredItem(key: string): void {
+  const storage = getStorage()
+  if (!storage) return
+  storage.removeItem(STORAGE_PREFIX + key)
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+/**
+ * Subscribe to stored values changing, in this tab or another one.
+ * Shaped for useSyncExternalStore.
+ */
+export function subscribeStorage(callback: () => void): () => void {
+  window.addEventListener('storage', callback)
+  window.addEventListener(CHANGE_EVENT, callback)
+  return () => {
+    window.removeEventListener('storage', callback)
+    window.removeEventListener(CHANGE_EVENT, callback)
+  }
+}
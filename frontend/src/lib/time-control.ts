@@ -0,0 +1,165 @@
+/**
+ * Time Controls
+ *
+ * How much time each side gets: a starting time, an optional Fischer
+ * increment added after every move, and an optional delay per move —
+ * Bronstein (time used up to the delay is given back after the move) or
+ * simple (the clock waits out the delay before it starts running). Games can
+ * also be untimed.
+ */
+
+export type DelayKind = 'bronstein' | 'simple'
+
+export type TimeControlCategory = 'bullet' | 'blitz' | 'rapid' | 'classical' | 'untimed'
+
+export interface TimeControl {
+  /** Starting time per side in seconds, or null when untimed */
+  initial: number | null
+  /** Fischer increment added after each move (seconds) */
+  increment: number
+  /** Delay per move (seconds) */
+  delay: number
+  delayKind: DelayKind
+}
+
+export const UNTIMED: TimeControl = { initial: null, increment: 0, delay: 0, delayKind: 'simple' }
+
+const minutes = (initial: number, increment = 0): TimeControl => ({
+  initial: initial * 60,
+  increment,
+  delay: 0,
+  delayKind: 'simple',
+})
+
+/** The control games used before there was a choice: 10 minutes, no increment */
+export const DEFAULT_TIME_CONTROL: TimeControl = minutes(10)
+
+export const TIME_CONTROL_PRESETS: TimeControl[] = [
+  minutes(1),
+  minutes(2, 1),
+  minutes(3),
+  minutes(3, 2),
+  minutes(5),
+  minutes(5, 3),
+  minutes(10),
+  minutes(10, 5),
+  minutes(15, 10),
+  minutes(30),
+  minutes(30, 20),
+  UNTIMED,
+]
+
+export const TIME_CONTROL_CATEGORY_LABELS: Record<TimeControlCategory, string> = {
+  bullet: 'Bullet',
+  blitz: 'Blitz',
+  rapid: 'Rapid',
+  classical: 'Classical',
+  untimed: 'Untimed',
+}
+
+/** Moves assumed when estimating a game's length (as Lichess does) */
+const ESTIMATED_MOVES = 40
+
+/** Think times (seconds) for a 10-minute game, by game phase */
+const BASE_THINK_TIMES = {
+  opening: [2, 8],
+  middlegame: [5, 20],
+  endgame: [3, 12],
+} as const
+
+/** The computer never spends more than this share of its remaining time on one move */
+const MAX_THINK_SHARE = 1 / 15
+
+/**
+ * Estimated seconds per side for a game, counting the increment and delay
+ * over ESTIMATED_MOVES moves, or null when untimed.
+ */
+export function getEstimatedDuration(control: TimeControl): number | null {
+  if (control.initial === null) return null
+  return control.initial + ESTIMATED_MOVES * (control.increment + control.delay)
+}
+
+export function getTimeControlCategory(control: TimeControl): TimeControlCategory {
+  const duration = getEstimatedDuration(control)
+  if (duration === null) return 'untimed'
+  if (duration < 180) return 'bullet'
+  if (duration < 480) return 'blitz'
+  if (duration < 1500) return 'rapid'
+  return 'classical'
+}
+
+/**
+ * Short label, e.g. "10+5", "5 d3" (simple delay), "5 b3" (Bronstein), or
+ * "Untimed".
+ */
+export function formatTimeControl(control: TimeControl): string {
+  if (control.initial === null) return 'Untimed'
+  const initial = control.initial % 60 === 0 ? String(control.initial / 60) : (control.initial / 60).toFixed(1)
+  const parts = [control.increment > 0 || control.delay === 0 ? `${initial}+${control.increment}` : initial]
+  if (control.delay > 0) parts.push(`${control.delayKind === 'bronstein' ? 'b' : 'd'}${control.delay}`)
+  return parts.join(' ')
+}
+
+/**
+ * The PGN TimeControl value: "600+5", "600", or "-" when untimed. PGN has no
+ * notation for delays, so they are left out.
+ */
+export function toPgnTimeControl(control: TimeControl): string {
+  if (control.initial === null) return '-'
+  return control.increment > 0 ? `${control.initial}+${control.increment}` : String(control.initial)
+}
+
+export function isSameTimeControl(a: TimeControl, b: TimeControl): boolean {
+  return a.initial === b.initial && a.increment === b.increment && a.delay === b.delay && (a.delay === 0 || a.delayKind === b.delayKind)
+}
+
+/**
+ * Seconds taken off the mover's clock for a move that took `secondsUsed` —
+ * under a simple delay the clock waits out the delay before it runs.
+ */
+export function getTimeCharged(control: TimeControl, secondsUsed: number): number {
+  if (control.initial === null) return 0
+  return control.delayKind === 'simple' ? Math.max(0, secondsUsed - control.delay) : secondsUsed
+}
+
+/**
+ * The mover's clock once their move is made: plus the increment, and under
+ * a Bronstein delay plus the time used, up to the delay.
+ */
+export function getClockAfterMove(control: TimeControl, remaining: number, secondsUsed: number): number {
+  if (control.initial === null) return remaining
+  const refund = control.delayKind === 'bronstein' ? Math.min(secondsUsed, control.delay) : 0
+  return remaining + control.increment + refund
+}
+
+/**
+ * Seconds the computer "thinks" before moving: a range by game phase,
+ * scaled to the length of the game and capped so it doesn't flag itself.
+ */
+export function getThinkTime(
+  control: TimeControl,
+  fullmoveNumber: number,
+  remaining: number,
+  random: () => number = Math.random
+): number {
+  const phase = fullmoveNumber <= 10 ? 'opening' : fullmoveNumber <= 25 ? 'middlegame' : 'endgame'
+  const [min, max] = BASE_THINK_TIMES[phase]
+  const duration = getEstimatedDuration(control)
+  const scale = duration === null ? 1 : Math.min(3, Math.max(0.1, duration / DEFAULT_TIME_CONTROL.initial!))
+  const thinkTime = Math.round((min + random() * (max - min)) * scale)
+  const cap = control.initial === null ? Infinity : Math.floor(remaining * MAX_THINK_SHARE) + control.increment + control.delay
+  return Math.max(1, Math.min(thinkTime, cap))
+}
+
+/**
+ * Parse a stored time control, or null if it isn't one.
+ */
+export function parseTimeControl(value: unknown): TimeControl | null {
+  if (!value || typeof value !== 'object') return null
+  const c = value as Record<string, unknown>
+  if (c.initial !== null && (typeof c.initial !== 'number' || c.initial <= 0)) return null
+  if (typeof c.increment !== 'number' || c.increment < 0) return null
+  if (typeof c.delay !== 'number' || c.delay < 0) return null
+  if (c.delayKind !== 'bronstein' && c.delayKind !== 'simple') return null
+  return { initial: c.initial, increment: c.increment, delay: c.delay, delayKind: c.delayKind }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { Chess } from 'chess.js'
+import {
+  MAX_IN_GAME_DRIFT,
+  getAdaptiveStartElo,
+  getInGameElo,
+  getPlayedElo,
+} from '../lib/adaptive-elo'
+import { type GameTree, addMove, annotateNode, createGameTree } from '../lib/game-tree'
+
+const RANGE = { min: 400, max: 2000 }
+
+/** A game whose positions have the given win probabilities (white's view) */
+function treeWith(winProbabilities: number[]): GameTree {
+  const chess = new Chess()
+  const moves = ['Nf3', 'Nf6', 'Ng1', 'Ng8', 'Nc3', 'Nc6', 'Nb1', 'Nb8']
+  return winProbabilities.reduce((tree, winProbability, i) => {
+    const next = addMove(tree, chess.move(moves[i]))
+    return annotateNode(next, next.currentId, { winProbability })
+  }, createGameTree())
+}
+
+describe('getAdaptiveStartElo', () => {
+  it('should start at the chosen level without adaptive games', () => {
+    expect(getAdaptiveStartElo([], 1000, RANGE)).toBe(1000)
+  })
+
+  it('should stay put when the user scores the target', () => {
+    const results = [{ opponentElo: 1200, score: 1 }, { opponentElo: 1200, score: 0 }]
+    expect(getAdaptiveStartElo(results, 800, RANGE)).toBe(1200)
+  })
+
+  it('should rise after wins and fall after losses, within limits', () => {
+    const wins = Array(5).fill({ opponentElo: 1200, score: 1 })
+    const losses = Array(5).fill({ opponentElo: 1200, score: 0 })
+    expect(getAdaptiveStartElo(wins, 800, RANGE)).toBe(1390)
+    expect(getAdaptiveStartElo(losses, 800, RANGE)).toBe(1010)
+    expect(getAdaptiveStartElo(losses, 800, { min: 1100, max: 2000 })).toBe(1100)
+  })
+
+  it('should go easier for a higher target score', () => {
+    const results = [{ opponentElo: 1200, score: 0.5 }]
+    expect(getAdaptiveStartElo(results, 800, RANGE, 0.65)).toBeLessThan(1200)
+  })
+})
+
+describe('getInGameElo', () => {
+  it('should keep the starting Elo before any evaluation', () => {
+    expect(getInGameElo(1200, createGameTree(), 'w', RANGE)).toBe(1200)
+  })
+
+  it('should drift with the user\'s recent win probability', () => {
+    expect(getInGameElo(1200, treeWith([0.5, 0.5]), 'w', RANGE)).toBe(1200)
+    expect(getInGameElo(1200, treeWith([0.7, 0.7]), 'w', RANGE)).toBe(1280)
+    expect(getInGameElo(1200, treeWith([0.7, 0.7]), 'b', RANGE)).toBe(1120)
+  })
+
+  it('should only follow the last few positions, up to the maximum drift', () => {
+    expect(getInGameElo(1200, treeWith([0, 0, 1, 1, 1, 1, 1, 1]), 'w', RANGE)).toBe(1200 + MAX_IN_GAME_DRIFT)
+  })
+})
+
+describe('getPlayedElo', () => {
+  it('should average the Elo recorded with Maia\'s moves', () => {
+    const chess = new Chess()
+    let tree = addMove(createGameTree(), chess.move('e4'), { elo: 1000 })
+    tree = addMove(tree, chess.move('e5'))
+    tree = addMove(tree, chess.move('Nf3'), { elo: 1100 })
+    expect(getPlayedElo(tree, 800)).toBe(1050)
+    expect(getPlayedElo(createGameTree(), 800)).toBe(800)
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { THINK_TICK_MS, simulateThink } from '../lib/ai-think'
+import { type GameResult, getResignationResult } from '../lib/game-result'
+
+describe('simulateThink', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should charge every simulated second at 3x speed, then let the move be played', async () => {
+    const onSecond = vi.fn(() => true)
+    const think = simulateThink({ seconds: 5, isCancelled: () => false, onSecond })
+
+    await vi.advanceTimersByTimeAsync(THINK_TICK_MS * 4)
+    expect(onSecond).toHaveBeenCalledTimes(4)
+    await vi.advanceTimersByTimeAsync(THINK_TICK_MS)
+    expect(await think).toBe(true)
+    expect(onSecond).toHaveBeenCalledTimes(5)
+  })
+
+  it('should end the game and drop the move when the user resigns mid-think', async () => {
+    let result: GameResult | null = null
+    const onSecond = vi.fn(() => true)
+    const think = simulateThink({ seconds: 20, isCancelled: () => result !== null, onSecond })
+
+    await vi.advanceTimersByTimeAsync(THINK_TICK_MS * 2)
+    result = getResignationResult('w')
+    await vi.advanceTimersByTimeAsync(THINK_TICK_MS)
+
+    expect(await think).toBe(false)
+    expect(onSecond).toHaveBeenCalledTimes(2)
+    expect(result).toEqual({ result: '0-1', reason: 'resignation', loser: 'w' })
+  })
+
+  it('should drop the move a resignation makes on the last second', async () => {
+    let result: GameResult | null = null
+    const think = simulateThink({
+      seconds: 1,
+      isCancelled: () => result !== null,
+      onSecond: () => {
+        result = getResignationResult('w')
+        return true
+      },
+    })
+
+    await vi.advanceTimersByTimeAsync(THINK_TICK_MS)
+    expect(await think).toBe(false)
+  })
+
+  it('should stop thinking when the clock flags', async () => {
+    const onSecond = vi.fn().mockReturnValueOnce(true).mockReturnValueOnce(false)
+    const think = simulateThink({ seconds: 10, isCancelled: () => false, onSecond })
+
+    await vi.advanceTimersByTimeAsync(THINK_TICK_MS * 10)
+    expect(await think).toBe(false)
+    expect(onSecond).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import type { AnalysisResult } from '../lib/chess-api'
+import { analyzeGames, getPlayerColors } from '../lib/batch-analysis'
+import { getMainline } from '../lib/game-tree'
+import { importPgn } from '../lib/pgn'
+
+const SCHOLARS_MATE = `[White "Alice"]
+[Black "Bob"]
+[Result "1-0"]
+
+1. e4 e5 2. Qh5 Nc6 3. Bc4 Nf6 4. Qxf7# 1-0
+`
+
+// Position after 3. Bc4 — black to move, Nf6 walks into mate
+const FEN_BEFORE_NF6 = 'r1bqkbnr/pppp1ppp/2n5/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR b KQkq - 3 3'
+
+const analysis = (winProbability: number, bestMove = 'e2e4'): AnalysisResult => ({
+  bestMove,
+  from: bestMove.slice(0, 2),
+  to: bestMove.slice(2, 4),
+  winProbability,
+  moves: {},
+})
+
+/** Level positions, except that Nf6 hands white the game */
+function scholarsMateAnalysis(fen: string): Promise<AnalysisResult> {
+  if (fen === FEN_BEFORE_NF6) return Promise.resolve(analysis(0.5, 'g7g6'))
+  if (fen.startsWith('r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3')) return Promise.resolve(analysis(0.97))
+  return Promise.resolve(analysis(0.5))
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('getPlayerColors', () => {
+  const headers = { White: 'Alice', Black: 'Bob' }
+
+  it('should find the side the player had, ignoring case', () => {
+    expect(getPlayerColors(headers, 'alice')).toEqual(['w'])
+    expect(getPlayerColors(headers, ' Bob ')).toEqual(['b'])
+  })
+
+  it('should grade both sides without a player or when they are not in the game', () => {
+    expect(getPlayerColors(headers)).toEqual(['w', 'b'])
+    expect(getPlayerColors(headers, 'Carol')).toEqual(['w', 'b'])
+  })
+})
+
+describe('analyzeGames', () => {
+  it('should report mistakes with the recommended move', async () => {
+    const report = await analyzeGames(importPgn(SCHOLARS_MATE), {
+      elo: 1500,
+      intervalMs: 0,
+      analyze: scholarsMateAnalysis,
+    })
+
+    expect(report.cancelled).toBe(false)
+    const [game] = report.games
+    expect(game.mistakes).toHaveLength(1)
+    expect(game.mistakes[0]).toMatchObject({
+      moveNumber: 3,
+      color: 'b',
+      san: 'Nf6',
+      severity: 'blunder',
+      winProbBefore: 0.5,
+      winProbAfter: 0.97,
+      bestMove: 'g7g6',
+      bestMoveSan: 'g6',
+    })
+  })
+
+  it('should annotate the game tree and score the final mate without a request', async () => {
+    const analyze = vi.fn(scholarsMateAnalysis)
+    const report = await analyzeGames(importPgn(SCHOLARS_MATE), { elo: 1500, intervalMs: 0, analyze })
+
+    const mainline = getMainline(report.games[0].tree)
+    expect(mainline[5]).toMatchObject({ san: 'Nf6', severity: 'blunder', bestMove: 'g7g6', winProbability: 0.97 })
+    expect(mainline[6].winProbability).toBe(1)
+    // Starting position plus every move but the mate
+    expect(analyze).toHaveBeenCalledTimes(7)
+  })
+
+  it('should only grade the named player\'s moves', async () => {
+    const report = await analyzeGames(importPgn(SCHOLARS_MATE), {
+      elo: 1500,
+      player: 'Alice',
+      intervalMs: 0,
+      analyze: scholarsMateAnalysis,
+    })
+
+    expect(report.games[0].colors).toEqual(['w'])
+    expect(report.games[0].mistakes).toEqual([])
+  })
+
+  it('should pass the chosen ELO to the model', async () => {
+    const analyze = vi.fn(scholarsMateAnalysis)
+    await analyzeGames(importPgn(SCHOLARS_MATE), { elo: 1100, intervalMs: 0, analyze })
+    expect(analyze).toHaveBeenCalledWith(expect.any(String), { eloSelf: 1100, eloOppo: 1100 })
+  })
+
+  it('should report progress across every game in the file', async () => {
+    const onProgress = vi.fn()
+    await analyzeGames(importPgn(`${SCHOLARS_MATE}\n1. d4 d5 *\n`), {
+      elo: 1500,
+      intervalMs: 0,
+      onProgress,
+      analyze: scholarsMateAnalysis,
+    })
+
+    // 8 positions in the first game, 3 in the second
+    expect(onProgress).toHaveBeenCalledTimes(11)
+    expect(onProgress).toHaveBeenLastCalledWith({ gameIndex: 1, gameCount: 2, done: 11, total: 11 })
+  })
+
+  it('should stop when cancelled and keep the finished games', async () => {
+    const controller = new AbortController()
+    const analyze = vi.fn(scholarsMateAnalysis)
+    const report = await analyzeGames(importPgn(`1. d4 d5 *\n\n${SCHOLARS_MATE}`), {
+      elo: 1500,
+      intervalMs: 0,
+      signal: controller.signal,
+      onProgress: ({ done }) => {
+        if (done === 4) controller.abort()
+      },
+      analyze,
+    })
+
+    expect(report.cancelled).toBe(true)
+    expect(report.games.map((game) => game.index)).toEqual([0])
+    expect(analyze).toHaveBeenCalledTimes(4)
+  })
+
+  it('should count positions the model failed on and skip the moves around them', async () => {
+    const report = await analyzeGames(importPgn(SCHOLARS_MATE), {
+      elo: 1500,
+      intervalMs: 0,
+      analyze: (fen) => (fen === FEN_BEFORE_NF6 ? Promise.reject(new Error('Maia2 API error: 500')) : scholarsMateAnalysis(fen)),
+    })
+
+    expect(report.games[0].failedPositions).toBe(1)
+    expect(report.games[0].mistakes).toEqual([])
+  })
+
+  it('should space requests to the model server', async () => {
+    vi.useFakeTimers()
+    const requestTimes: number[] = []
+    const run = analyzeGames(importPgn('1. d4 d5 2. c4 *'), {
+      elo: 1500,
+      intervalMs: 500,
+      analyze: (fen) => {
+        requestTimes.push(Date.now())
+        return scholarsMateAnalysis(fen)
+      },
+    })
+
+    await vi.runAllTimersAsync()
+    await run
+
+    expect(requestTimes).toHaveLength(4)
+    for (let i = 1; i < requestTimes.length; i++) {
+      expect(requestTimes[i] - requestTimes[i - 1]).toBeGreaterThanOrEqual(500)
+    }
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { AnalysisResult } from '../lib/chess-api'
+import { analyzeCandidates, getTopCandidates, CANDIDATE_COUNT } from '../lib/candidates'
+
+// Position after 1. e4 e5 — white to move
+const FEN_BEFORE = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2'
+
+const MOVE_PROBS = { d2d4: 0.18, g1f3: 0.42, h2h3: 0.03, f1c4: 0.21, b1c3: 0.08 }
+
+const analysis = (winProbability: number): AnalysisResult => ({
+  bestMove: 'b8c6',
+  from: 'b8',
+  to: 'c6',
+  winProbability,
+  moves: {},
+})
+
+describe('getTopCandidates', () => {
+  it('should list the most probable moves in SAN, most likely first', () => {
+    const candidates = getTopCandidates(FEN_BEFORE, MOVE_PROBS)
+
+    expect(candidates).toHaveLength(CANDIDATE_COUNT)
+    expect(candidates.map((c) => c.san)).toEqual(['Nf3', 'Bc4', 'd4'])
+    expect(candidates[0]).toEqual({
+      uci: 'g1f3',
+      san: 'Nf3',
+      from: 'g1',
+      to: 'f3',
+      probability: 0.42,
+      winProbAfter: null,
+    })
+  })
+
+  it('should skip moves that are not legal in the position', () => {
+    const candidates = getTopCandidates(FEN_BEFORE, { e2e5: 0.9, g1f3: 0.1 })
+    expect(candidates.map((c) => c.uci)).toEqual(['g1f3'])
+  })
+
+  it('should return an empty list without move probabilities', () => {
+    expect(getTopCandidates(FEN_BEFORE, null)).toEqual([])
+  })
+})
+
+describe('analyzeCandidates', () => {
+  it('should add the win probability after each candidate', async () => {
+    const analyze = vi.fn()
+      .mockResolvedValueOnce(analysis(0.56))
+      .mockResolvedValueOnce(analysis(0.54))
+
+    const candidates = await analyzeCandidates(FEN_BEFORE, MOVE_PROBS, { count: 2, elo: 1700, analyze })
+
+    expect(candidates.map((c) => c.winProbAfter)).toEqual([0.56, 0.54])
+    expect(analyze).toHaveBeenCalledWith(expect.stringContaining(' b '), { eloSelf: 1700, eloOppo: 1700 })
+  })
+
+  it('should leave the win probability null when a request fails', async () => {
+    const analyze = vi.fn()
+      .mockResolvedValueOnce(analysis(0.56))
+      .mockRejectedValueOnce(new Error('Network error'))
+
+    const candidates = await analyzeCandidates(FEN_BEFORE, MOVE_PROBS, { count: 2, analyze })
+
+    expect(candidates.map((c) => c.winProbAfter)).toEqual([0.56, null])
+  })
+
+  it('should score a mating candidate without asking the model', async () => {
+    // Scholar's mate: Qxf7# wins for white
+    const fen = 'r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4'
+    const analyze = vi.fn()
+
+    const [mate] = await analyzeCandidates(fen, { h5f7: 0.6 }, { analyze })
+
+    expect(mate.san).toBe('Qxf7#')
+    expect(mate.winProbAfter).toBe(1)
+    expect(analyze).not.toHaveBeenCalled()
+  })
+})
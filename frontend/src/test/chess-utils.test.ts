@@ -1,6 +1,16 @@
 import { describe, it, expect } from 'vitest'
 import { Chess } from 'chess.js'
-import { calculateMaterial, formatTime, isLightSquare, PIECE_VALUES } from '../lib/chess-utils'
+import {
+  calculateMaterial,
+  formatTime,
+  isLightSquare,
+  playUci,
+  uciToSan,
+  cloneGame,
+  isPromotionMove,
+  getPromotionPieceForKey,
+  PIECE_VALUES,
+} from '../lib/chess-utils'
 
 describe('PIECE_VALUES', () => {
   it('should have correct values for all pieces', () => {
@@ -137,3 +147,109 @@ describe('isLightSquare', () => {
     }
   })
 })
+
+describe('playUci', () => {
+  it('should play the move on the game and return it', () => {
+    const game = new Chess()
+    expect(playUci(game, 'g1f3')?.san).toBe('Nf3')
+    expect(game.history()).toEqual(['Nf3'])
+  })
+
+  it('should promote to the given piece', () => {
+    expect(playUci(new Chess('8/P7/8/8/8/8/8/k6K w - - 0 1'), 'a7a8r')?.promotion).toBe('r')
+  })
+
+  it('should return null and leave the game alone for illegal moves', () => {
+    const game = new Chess()
+    expect(playUci(game, 'e2e5')).toBeNull()
+    expect(game.history()).toEqual([])
+  })
+})
+
+describe('uciToSan', () => {
+  const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+
+  it('should convert UCI moves to SAN', () => {
+    expect(uciToSan(STARTING_FEN, 'g1f3')).toBe('Nf3')
+    expect(uciToSan(STARTING_FEN, 'e2e4')).toBe('e4')
+  })
+
+  it('should handle promotions', () => {
+    expect(uciToSan('8/P7/8/8/8/8/8/k6K w - - 0 1', 'a7a8n')).toBe('a8=N')
+  })
+
+  it('should return the UCI string for illegal moves', () => {
+    expect(uciToSan(STARTING_FEN, 'e2e5')).toBe('e2e5')
+  })
+})
+
+describe('cloneGame', () => {
+  it('should keep the move history so moves can be undone', () => {
+    const game = new Chess()
+    game.move('e4')
+    game.move('e5')
+    game.move('Nf3')
+
+    const copy = cloneGame(game)
+
+    expect(copy.history()).toEqual(['e4', 'e5', 'Nf3'])
+    expect(copy.fen()).toBe(game.fen())
+    copy.undo()
+    expect(copy.history()).toEqual(['e4', 'e5'])
+    expect(game.history()).toHaveLength(3) // the original is untouched
+  })
+
+  it('should copy a game that started from a custom position', () => {
+    const game = new Chess('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1')
+    game.move('e4')
+
+    const copy = cloneGame(game)
+
+    expect(copy.history()).toEqual(['e4'])
+    copy.undo()
+    expect(copy.fen()).toBe('4k3/8/8/8/8/8/4P3/4K3 w - - 0 1')
+  })
+
+  it('should copy a game with no moves', () => {
+    expect(cloneGame(new Chess()).fen()).toBe(new Chess().fen())
+  })
+})
+
+describe('isPromotionMove', () => {
+  it('should detect a pawn reaching the last rank, capturing or not', () => {
+    const game = new Chess('1n2k3/P7/8/8/8/8/8/4K3 w - - 0 1')
+    expect(isPromotionMove(game, 'a7', 'a8')).toBe(true)
+    expect(isPromotionMove(game, 'a7', 'b8')).toBe(true)
+  })
+
+  it('should not treat other moves as promotions', () => {
+    expect(isPromotionMove(new Chess(), 'e2', 'e4')).toBe(false)
+    expect(isPromotionMove(new Chess('R3k3/8/8/8/8/8/8/4K3 w - - 0 1'), 'a8', 'a1')).toBe(false)
+  })
+
+  it('should allow underpromotion to any piece', () => {
+    const game = new Chess('4k3/P7/8/8/8/8/8/4K3 w - - 0 1')
+    const moves = game.moves({ square: 'a7', verbose: true }).map((m) => m.promotion)
+    expect(moves.sort()).toEqual(['b', 'n', 'q', 'r'])
+    expect(game.move({ from: 'a7', to: 'a8', promotion: 'n' }).san).toBe('a8=N')
+  })
+})
+
+describe('getPromotionPieceForKey', () => {
+  it('should pick a piece by its letter, in either case', () => {
+    expect(getPromotionPieceForKey('q')).toBe('q')
+    expect(getPromotionPieceForKey('N')).toBe('n')
+    expect(getPromotionPieceForKey('r')).toBe('r')
+    expect(getPromotionPieceForKey('b')).toBe('b')
+  })
+
+  it('should pick a piece by its place in the picker', () => {
+    expect(['1', '2', '3', '4'].map(getPromotionPieceForKey)).toEqual(['q', 'n', 'r', 'b'])
+  })
+
+  it('should ignore other keys', () => {
+    expect(getPromotionPieceForKey('k')).toBeNull()
+    expect(getPromotionPieceForKey('5')).toBeNull()
+    expect(getPromotionPieceForKey('Escape')).toBeNull()
+  })
+})
@@ -23,6 +23,7 @@ describe('InterventionState', () => {
     expect(state.newWinProb).toBeNull()
     expect(state.bestMove).toBeNull()
     expect(state.moveProbs).toBeNull()
+    expect(state.severity).toBeNull()
   })
 
   it('should hold all relevant data when intervention triggers', () => {
@@ -36,6 +37,7 @@ describe('InterventionState', () => {
       newWinProb: 0.34,
       bestMove: 'g1f3',
       moveProbs: { g1f3: 0.22, d2d4: 0.18, h2h3: 0.03 },
+      severity: 'blunder',
     }
 
     expect(state.isActive).toBe(true)
@@ -56,6 +58,7 @@ describe('InterventionState', () => {
       newWinProb: 0.34,
       bestMove: 'g1f3',
       moveProbs: { g1f3: 0.22 },
+      severity: 'blunder',
     }
 
     // Resolve the intervention
@@ -256,6 +259,7 @@ describe('"Let Me Retry" — Move Undo', () => {
       newWinProb: 0.34,
       bestMove: 'g1f3',
       moveProbs: { g1f3: 0.22 },
+      severity: 'blunder',
     }
 
     // After "Let me retry", reset intervention state
@@ -314,6 +318,21 @@ describe('Coach Modal Content', () => {
     expect(getInterventionMessage()).toBe("Hold on, that's a mistake.")
   })
 
+  it('should vary the message by severity', () => {
+    expect(getInterventionMessage('mistake')).toBe("Hold on, that's a mistake.")
+    expect(getInterventionMessage('blunder')).not.toBe(getInterventionMessage('mistake'))
+    expect(getInterventionMessage('missed-win')).toContain('winning advantage')
+    expect(getInterventionMessage('inaccuracy')).not.toContain('Hold on')
+  })
+
+  it('should add the most urgent tactical motif to the message', () => {
+    const message = getInterventionMessage('blunder', [
+      { type: 'hanging-piece', square: 'f3', description: 'Your knight on f3 is now undefended.' },
+      { type: 'pin', square: 'c6', description: 'Your knight on c6 is pinned to your king by their bishop on b5.' },
+    ])
+    expect(message).toBe(`${getInterventionMessage('blunder')} Your knight on f3 is now undefended.`)
+  })
+
   it('should show the user move and the recommended move', () => {
     const state: InterventionState = {
       isActive: true,
@@ -325,6 +344,7 @@ describe('Coach Modal Content', () => {
       newWinProb: 0.34,
       bestMove: 'g1f3',
       moveProbs: null,
+      severity: 'blunder',
     }
 
     // The modal should show: "You played h3. Consider Nf3 instead."
@@ -379,6 +399,7 @@ describe('Intervention Flow — End to End', () => {
         newWinProb: evalAfterMove,
         bestMove: 'g1f3',
         moveProbs: { g1f3: 0.22, d2d4: 0.18, h2h3: 0.03 },
+        severity: 'mistake',
       }
       timerFrozen = true
     }
@@ -419,6 +440,7 @@ describe('Intervention Flow — End to End', () => {
       newWinProb: evalAfterMove,
       bestMove: 'g1f3',
       moveProbs: { g1f3: 0.22, d2d4: 0.18, h2h3: 0.03 },
+      severity: 'mistake',
     }
 
     // User clicks "Explain why" — the move STAYS on the board
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Chess } from 'chess.js'
+import type { AnalysisResult } from '../lib/chess-api'
+import { type GameTree, addMove, createGameTree } from '../lib/game-tree'
+import { findCriticalMoments, scoreExerciseMove } from '../lib/critical-moments'
+
+const SPREAD_MOVES = { e2e4: 0.3, d2d4: 0.3, g1f3: 0.2, c2c4: 0.2 }
+
+/**
+ * Play the moves and build a stub analysis that returns, for the position
+ * after each move, the given white win probability. A move's distribution
+ * is the one for the position it was played from.
+ */
+function setup(moves: [san: string, winProbability: number, moveProbs?: Record<string, number>][]) {
+  const game = new Chess()
+  let tree: GameTree = createGameTree()
+  const results = new Map<string, AnalysisResult>()
+  const add = (fen: string, winProbability: number, moveProbs: Record<string, number> = SPREAD_MOVES) => {
+    const bestMove = Object.entries(moveProbs).sort(([, a], [, b]) => b - a)[0][0]
+    results.set(fen, { bestMove, from: bestMove.slice(0, 2), to: bestMove.slice(2, 4), winProbability, moves: moveProbs })
+  }
+
+  add(game.fen(), 0.5, moves[0]?.[2])
+  moves.forEach(([san, winProbability], i) => {
+    tree = addMove(tree, game.move(san))
+    add(game.fen(), winProbability, moves[i + 1]?.[2])
+  })
+
+  const analyze = vi.fn((fen: string) => {
+    const result = results.get(fen)
+    return result ? Promise.resolve(result) : Promise.reject(new Error('Maia2 API error: 500'))
+  })
+  return { tree, analyze }
+}
+
+describe('findCriticalMoments', () => {
+  it('should find the move where the mover\'s win chances fell the most', async () => {
+    const { tree, analyze } = setup([
+      ['e4', 0.52],
+      ['e5', 0.5],
+      ['Qh5', 0.3],
+      ['Nc6', 0.3],
+    ])
+
+    const moments = await findCriticalMoments(tree, { elo: 1500, intervalMs: 0, analyze })
+
+    expect(moments).toHaveLength(1)
+    expect(moments[0]).toMatchObject({
+      type: 'swing',
+      ply: 2,
+      color: 'w',
+      playedSan: 'Qh5',
+      winProbBefore: 0.5,
+      winProbAfter: 0.3,
+      description: "White's win chances went from 50% to 30% after 2. Qh5.",
+    })
+    expect(moments[0].fen).toBe(tree.nodes[moments[0].nodeId].fen)
+  })
+
+  it('should flag a reply that gave back the opponent\'s mistake', async () => {
+    const { tree, analyze } = setup([
+      ['e4', 0.5],
+      ['f6', 0.68],
+      ['Nc3', 0.56],
+    ])
+
+    const moments = await findCriticalMoments(tree, { elo: 1500, color: 'w', intervalMs: 0, analyze })
+
+    expect(moments.map((m) => [m.type, m.playedSan])).toEqual([['missed-opportunity', 'Nc3']])
+    expect(moments[0].description).toBe("After Black's slip (1... f6), 2. Nc3 let the chance go.")
+  })
+
+  it('should only look at the chosen side\'s moves', async () => {
+    const { tree, analyze } = setup([
+      ['e4', 0.5],
+      ['f6', 0.68],
+      ['Nc3', 0.68],
+    ])
+
+    expect(await findCriticalMoments(tree, { elo: 1500, color: 'w', intervalMs: 0, analyze })).toEqual([])
+    const both = await findCriticalMoments(tree, { elo: 1500, intervalMs: 0, analyze })
+    expect(both.map((m) => [m.type, m.playedSan])).toEqual([['swing', 'f6']])
+  })
+
+  it('should flag positions where one move stands out', async () => {
+    const { tree, analyze } = setup([
+      ['e4', 0.5],
+      ['d5', 0.5],
+      ['exd5', 0.5, { e4d5: 0.9, b1c3: 0.05, e4e5: 0.05 }],
+    ])
+
+    const moments = await findCriticalMoments(tree, { elo: 1500, intervalMs: 0, analyze })
+
+    expect(moments.map((m) => [m.type, m.bestMoveSan])).toEqual([['only-move', 'exd5']])
+    expect(moments[0].description).toBe('One move stood out here — Maia plays exd5 90% of the time.')
+  })
+
+  it('should keep the costliest moments, listed in game order', async () => {
+    const { tree, analyze } = setup([
+      ['f3', 0.3],
+      ['e5', 0.3],
+      ['g4', 0.02],
+      ['Qh4#', 0],
+    ])
+
+    const moments = await findCriticalMoments(tree, { elo: 1500, intervalMs: 0, limit: 1, analyze })
+    expect(moments.map((m) => m.playedSan)).toEqual(['g4'])
+
+    const all = await findCriticalMoments(tree, { elo: 1500, intervalMs: 0, analyze })
+    expect(all.map((m) => m.playedSan)).toEqual(['f3', 'g4'])
+  })
+
+  it('should score a final checkmate without asking the model', async () => {
+    const { tree, analyze } = setup([
+      ['f3', 0.5],
+      ['e5', 0.5],
+      ['g4', 0.5],
+      ['Qh4#', 0],
+    ])
+
+    await findCriticalMoments(tree, { elo: 1500, intervalMs: 0, analyze })
+    expect(analyze).toHaveBeenCalledTimes(4)
+  })
+
+  it('should return nothing when cancelled', async () => {
+    const { tree, analyze } = setup([['e4', 0.5], ['e5', 0.5]])
+    const controller = new AbortController()
+    controller.abort()
+
+    expect(await findCriticalMoments(tree, { elo: 1500, signal: controller.signal, analyze })).toEqual([])
+    expect(analyze).not.toHaveBeenCalled()
+  })
+})
+
+describe('scoreExerciseMove', () => {
+  const moment = {
+    fen: 'rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
+    bestMove: 'e4d5',
+    moves: { e4d5: 0.6, b1c3: 0.3, e4e5: 0.1, a2a3: 0.02 },
+  }
+
+  it('should mark the top move as best', () => {
+    expect(scoreExerciseMove(moment, 'e4d5')).toEqual({
+      uci: 'e4d5',
+      san: 'exd5',
+      probability: 0.6,
+      score: 1,
+      verdict: 'best',
+    })
+  })
+
+  it('should score other moves against the top move\'s probability', () => {
+    expect(scoreExerciseMove(moment, 'b1c3')).toMatchObject({ san: 'Nc3', score: 0.5, verdict: 'good' })
+    expect(scoreExerciseMove(moment, 'e4e5').verdict).toBe('playable')
+    expect(scoreExerciseMove(moment, 'a2a3').verdict).toBe('miss')
+    expect(scoreExerciseMove(moment, 'h2h4')).toMatchObject({ probability: 0, score: 0, verdict: 'miss' })
+  })
+})
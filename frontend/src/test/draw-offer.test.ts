@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { Chess } from 'chess.js'
+import { calculateMaterial } from '../lib/chess-utils'
+import { shouldAcceptDraw } from '../lib/draw-offer'
+
+describe('shouldAcceptDraw', () => {
+  it('should accept when Maia is clearly worse', () => {
+    expect(shouldAcceptDraw(0.7, 0, 'b')).toBe(true)
+    expect(shouldAcceptDraw(0.3, 0, 'w')).toBe(true)
+  })
+
+  it('should decline when Maia is better', () => {
+    expect(shouldAcceptDraw(0.3, 0, 'b')).toBe(false)
+    expect(shouldAcceptDraw(0.7, 0, 'w')).toBe(false)
+  })
+
+  it('should agree in a level position unless Maia is ahead on material', () => {
+    expect(shouldAcceptDraw(0.5, 0, 'b')).toBe(true)
+    expect(shouldAcceptDraw(0.5, -1, 'b')).toBe(false)
+    expect(shouldAcceptDraw(0.5, 1, 'b')).toBe(true)
+  })
+
+  it('should play on a couple of pawns up, whatever the win probability', () => {
+    expect(shouldAcceptDraw(0.65, -3, 'b')).toBe(false)
+    expect(shouldAcceptDraw(0.2, 2, 'w')).toBe(false)
+  })
+
+  it('should read material from White\'s side, as calculateMaterial gives it', () => {
+    // Black is a knight up
+    const { advantage } = calculateMaterial(new Chess('4k3/8/8/3n4/8/8/8/4K3 w - - 0 1'))
+    expect(shouldAcceptDraw(0.5, advantage, 'b')).toBe(false)
+    expect(shouldAcceptDraw(0.5, advantage, 'w')).toBe(true)
+  })
+})
@@ -0,0 +1,324 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  type NarratorPayload,
+  buildNarratorPayload,
+  buildCoachPrompt,
+  createFakeExplanationSource,
+  httpExplanationSource,
+  isNarratorPayload,
+  streamExplanation,
+} from '../lib/explain'
+import {
+  type ExplanationProvider,
+  createStubProvider,
+  getExplanationProvider,
+  handleExplainRequest,
+} from '../lib/explain-providers'
+import { type InterventionState, createInitialInterventionState } from '../lib/intervention'
+
+const FEN_BEFORE = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2'
+
+const intervention: InterventionState = {
+  isActive: true,
+  fenBeforeMove: FEN_BEFORE,
+  userMove: 'h3',
+  userMoveFrom: 'h2',
+  userMoveTo: 'h3',
+  previousWinProb: 0.58,
+  newWinProb: 0.34,
+  bestMove: 'g1f3',
+  moveProbs: { g1f3: 0.22, d2d4: 0.18, h2h3: 0.03 },
+  severity: 'blunder',
+}
+
+const payload: NarratorPayload = {
+  fen: FEN_BEFORE,
+  user_move: 'h3',
+  maia2_data: {
+    win_prob_before: 0.58,
+    win_prob_after: 0.34,
+    best_move: 'g1f3',
+    move_probabilities: { g1f3: 0.22, d2d4: 0.18, h2h3: 0.03 },
+  },
+  tactical_facts: [],
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = []
+  for await (const chunk of stream) chunks.push(chunk)
+  return chunks
+}
+
+function textStream(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  })
+}
+
+const postRequest = (body: string) =>
+  new Request('http://localhost/api/explain', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+  })
+
+describe('buildNarratorPayload', () => {
+  it('should build the PRD payload from an intervention', () => {
+    expect(buildNarratorPayload(intervention)).toEqual(payload)
+  })
+
+  it('should return null when the intervention is incomplete', () => {
+    expect(buildNarratorPayload(createInitialInterventionState())).toBeNull()
+    expect(buildNarratorPayload({ ...intervention, bestMove: null })).toBeNull()
+  })
+
+  it('should include the detected tactical motifs as facts', () => {
+    const result = buildNarratorPayload({ ...intervention, userMove: 'Ba6' })
+    expect(result?.tactical_facts).toEqual(['Your bishop on a6 is now undefended.'])
+  })
+
+  it('should default missing move probabilities to an empty object', () => {
+    const result = buildNarratorPayload({ ...intervention, moveProbs: null })
+    expect(result?.maia2_data.move_probabilities).toEqual({})
+  })
+})
+
+describe('isNarratorPayload', () => {
+  it('should accept a well-formed payload', () => {
+    expect(isNarratorPayload(payload)).toBe(true)
+  })
+
+  it('should reject malformed payloads', () => {
+    expect(isNarratorPayload(null)).toBe(false)
+    expect(isNarratorPayload({ fen: FEN_BEFORE })).toBe(false)
+    expect(isNarratorPayload({ ...payload, maia2_data: { ...payload.maia2_data, best_move: 5 } })).toBe(false)
+    expect(isNarratorPayload({ ...payload, tactical_facts: [1, 2] })).toBe(false)
+  })
+
+  it('should accept a payload without tactical facts', () => {
+    expect(isNarratorPayload({ ...payload, tactical_facts: undefined })).toBe(true)
+  })
+})
+
+describe('buildCoachPrompt', () => {
+  it('should narrate the drop and the recommended move in SAN', () => {
+    const prompt = buildCoachPrompt(payload)
+    expect(prompt).toContain('played h3')
+    expect(prompt).toContain('from 58% to 34%')
+    expect(prompt).toContain('recommends Nf3 (22% probability')
+    expect(prompt).toContain('under 50 words')
+    expect(prompt).not.toContain('Tactical facts')
+  })
+
+  it('should ground the prompt in the tactical facts', () => {
+    const prompt = buildCoachPrompt({ ...payload, tactical_facts: ['Your knight on f3 is now undefended.'] })
+    expect(prompt).toContain('Tactical facts')
+    expect(prompt).toContain('Your knight on f3 is now undefended.')
+  })
+
+  it('should report percentages from black\'s perspective when black moved', () => {
+    const blackPayload: NarratorPayload = {
+      fen: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1',
+      user_move: 'f6',
+      maia2_data: {
+        win_prob_before: 0.52,
+        win_prob_after: 0.70,
+        best_move: 'e7e5',
+        move_probabilities: {},
+      },
+    }
+    expect(buildCoachPrompt(blackPayload)).toContain('from 48% to 30%')
+  })
+})
+
+describe('Explanation providers', () => {
+  it('should stream a deterministic stub explanation word by word', async () => {
+    const chunks = await collect(createStubProvider().stream(payload))
+    const text = chunks.join('')
+
+    expect(chunks.length).toBeGreaterThan(5)
+    expect(text).toContain('h3')
+    expect(text).toContain('Nf3')
+    expect(text).toContain('58%')
+  })
+
+  it('should include tactical facts in the stub explanation', async () => {
+    const facts = ['Your bishop on a6 is now undefended.']
+    const text = (await collect(createStubProvider().stream({ ...payload, tactical_facts: facts }))).join('')
+    expect(text).toContain(facts[0])
+    expect(text).not.toContain('Look at what your move allowed')
+  })
+
+  it('should stop the stub stream when aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    expect(await collect(createStubProvider().stream(payload, controller.signal))).toEqual([])
+  })
+
+  it('should use the stub provider when no API key is configured', () => {
+    expect(getExplanationProvider({}).name).toBe('stub')
+    expect(getExplanationProvider({ OPENAI_API_KEY: 'sk-test', COACH_PROVIDER: 'stub' }).name).toBe('stub')
+  })
+
+  it('should use the OpenAI provider when an API key is configured', () => {
+    expect(getExplanationProvider({ OPENAI_API_KEY: 'sk-test' }).name).toBe('openai')
+  })
+})
+
+describe('handleExplainRequest', () => {
+  const fakeProvider = (chunks: string[]): ExplanationProvider => ({
+    name: 'fake',
+    stream: vi.fn(async function* () { yield* chunks }),
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should stream the provider explanation as plain text', async () => {
+    const provider = fakeProvider(['h3 ', 'weakens ', 'your kingside.'])
+
+    const response = await handleExplainRequest(postRequest(JSON.stringify(payload)), provider)
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toContain('text/plain')
+    expect(await response.text()).toBe('h3 weakens your kingside.')
+    expect(provider.stream).toHaveBeenCalledWith(payload, expect.anything())
+  })
+
+  it('should reject a body that is not JSON', async () => {
+    const response = await handleExplainRequest(postRequest('not json'), createStubProvider())
+    expect(response.status).toBe(400)
+  })
+
+  it('should reject an invalid payload', async () => {
+    const response = await handleExplainRequest(postRequest('{"fen":"x"}'), createStubProvider())
+    expect(response.status).toBe(400)
+  })
+
+  it('should return 502 when the provider fails before the first token', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const provider: ExplanationProvider = {
+      name: 'broken',
+      stream: async function* () { throw new Error('rate limited') },
+    }
+
+    const response = await handleExplainRequest(postRequest(JSON.stringify(payload)), provider)
+
+    expect(response.status).toBe(502)
+    expect(await response.json()).toEqual({ error: 'Explanation unavailable' })
+  })
+})
+
+describe('streamExplanation', () => {
+  it('should report each chunk and the full text from a fake source', async () => {
+    const onToken = vi.fn()
+    const result = await streamExplanation(payload, {
+      source: createFakeExplanationSource(['Nf3 ', 'develops ', 'a piece.']),
+      onToken,
+    })
+
+    expect(onToken.mock.calls.map(([chunk]) => chunk)).toEqual(['Nf3 ', 'develops ', 'a piece.'])
+    expect(result.text).toBe('Nf3 develops a piece.')
+    expect(result.cancelled).toBe(false)
+  })
+
+  it('should measure time to first token', async () => {
+    let clock = 1000
+    const source = async function* () {
+      clock += 800 // first token arrives after 800ms
+      yield 'Nf3 '
+      clock += 2000
+      yield 'is better.'
+    }
+
+    const result = await streamExplanation(payload, { source, now: () => clock })
+
+    expect(result.timeToFirstTokenMs).toBe(800)
+  })
+
+  it('should report time to first token once, as soon as it arrives', async () => {
+    let clock = 1000
+    const source = async function* () {
+      clock += 800
+      yield 'Nf3 '
+      clock += 2000
+      yield 'is better.'
+    }
+    const onFirstToken = vi.fn()
+    const onToken = vi.fn(() => expect(onFirstToken).toHaveBeenCalledWith(800))
+
+    await streamExplanation(payload, { source, now: () => clock, onToken, onFirstToken })
+
+    expect(onFirstToken).toHaveBeenCalledTimes(1)
+    expect(onToken).toHaveBeenCalledTimes(2)
+  })
+
+  it('should report null time to first token when nothing arrives', async () => {
+    const result = await streamExplanation(payload, { source: createFakeExplanationSource([]) })
+    expect(result.timeToFirstTokenMs).toBeNull()
+    expect(result.text).toBe('')
+  })
+
+  it('should stop reading when cancelled', async () => {
+    const controller = new AbortController()
+    const onToken = vi.fn((chunk: string) => {
+      if (chunk === 'second ') controller.abort()
+    })
+
+    const result = await streamExplanation(payload, {
+      source: createFakeExplanationSource(['first ', 'second ', 'third']),
+      signal: controller.signal,
+      onToken,
+    })
+
+    expect(result.text).toBe('first second ')
+    expect(result.cancelled).toBe(true)
+    expect(onToken).toHaveBeenCalledTimes(2)
+  })
+
+  it('should rethrow source errors when not cancelled', async () => {
+    const source = async function* () { throw new Error('stream broke') }
+    await expect(streamExplanation(payload, { source })).rejects.toThrow('stream broke')
+  })
+})
+
+describe('httpExplanationSource', () => {
+  const mockFetch = vi.fn()
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should POST the payload to /api/explain and yield the streamed text', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      body: textStream(['Nf3 develops ', 'and controls the center.']),
+    })
+    const controller = new AbortController()
+
+    const chunks = await collect(httpExplanationSource(payload, controller.signal))
+
+    expect(chunks.join('')).toBe('Nf3 develops and controls the center.')
+    expect(mockFetch).toHaveBeenCalledWith('/api/explain', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: controller.signal,
+    })
+  })
+
+  it('should throw on non-ok response', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 502, statusText: 'Bad Gateway', body: null })
+    await expect(collect(httpExplanationSource(payload))).rejects.toThrow('Explain API error: 502 Bad Gateway')
+  })
+})
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Chess } from 'chess.js'
+import { addMove, annotateNode, createGameTree, rejectCurrentMove } from '../lib/game-tree'
+import {
+  type LibraryGame,
+  type PlayedGame,
+  MAX_LIBRARY_GAMES,
+  addLibraryGame,
+  countInterventions,
+  createLibraryGame,
+  exportLibraryPgn,
+  filterLibrary,
+  getLibraryOutcome,
+  loadLibrary,
+  parseLibrary,
+  removeLibraryGame,
+  saveLibrary,
+} from '../lib/game-library'
+import { importPgn } from '../lib/pgn'
+import { DEFAULT_TIME_CONTROL, UNTIMED } from '../lib/time-control'
+import { playedTree } from './helpers'
+
+const SCHOLARS_MATE = playedTree('e4', 'e5', 'Bc4', 'Nc6', 'Qh5', 'Nf6', 'Qxf7#')
+
+const played = (overrides: Partial<PlayedGame> = {}): PlayedGame => ({
+  tree: SCHOLARS_MATE,
+  mode: 'coach',
+  playerColor: 'w',
+  aiElo: 1200,
+  adaptive: false,
+  result: '1-0',
+  termination: 'Checkmate! White wins!',
+  timeControl: DEFAULT_TIME_CONTROL,
+  date: new Date('2024-03-09T12:00:00Z'),
+  ...overrides,
+})
+
+const entry = (id: string, overrides: Partial<PlayedGame> = {}): LibraryGame => ({
+  ...createLibraryGame(played(overrides)),
+  id,
+})
+
+beforeEach(() => {
+  localStorage.clear()
+})
+
+describe('createLibraryGame', () => {
+  it('should record the game details', () => {
+    expect(createLibraryGame(played())).toMatchObject({
+      id: '2024-03-09T12:00:00.000Z',
+      date: '2024-03-09T12:00:00.000Z',
+      mode: 'coach',
+      playerColor: 'w',
+      aiElo: 1200,
+      result: '1-0',
+      termination: 'Checkmate! White wins!',
+      moveCount: 4,
+      interventions: 0,
+      opening: { eco: 'C23', name: "Bishop's Opening" },
+    })
+  })
+
+  it('should store a PGN that opens in the replay viewer', () => {
+    const [game] = importPgn(createLibraryGame(played({ playerColor: 'b' })).pgn)
+    expect(game.headers).toMatchObject({ White: 'Maia 2', Black: 'You', WhiteElo: '1200', Result: '1-0' })
+    expect(Object.keys(game.tree.nodes)).toHaveLength(8)
+  })
+
+  it('should record the average Elo Maia played at', () => {
+    const chess = new Chess()
+    let tree = addMove(createGameTree(), chess.move('e4'))
+    tree = addMove(tree, chess.move('e5'), { elo: 1100 })
+    tree = addMove(tree, chess.move('Nf3'))
+    tree = addMove(tree, chess.move('Nc6'), { elo: 1300 })
+    expect(createLibraryGame(played({ tree, adaptive: true }))).toMatchObject({ aiElo: 1200, adaptive: true })
+    expect(importPgn(createLibraryGame(played({ tree })).pgn)[0].headers.BlackElo).toBe('1200')
+  })
+
+  it('should store the time control and write it to the PGN', () => {
+    const timeControl = { initial: 180, increment: 2, delay: 0, delayKind: 'simple' as const }
+    const game = createLibraryGame(played({ timeControl }))
+    expect(game.timeControl).toEqual(timeControl)
+    expect(importPgn(game.pgn)[0].headers.TimeControl).toBe('180+2')
+    expect(importPgn(createLibraryGame(played({ timeControl: UNTIMED })).pgn)[0].headers.TimeControl).toBe('-')
+  })
+
+  it('should leave out the side and Elo in pass & play', () => {
+    expect(createLibraryGame(played({ mode: 'pass-and-play' }))).toMatchObject({ playerColor: null, aiElo: null })
+  })
+})
+
+describe('countInterventions', () => {
+  it('should count pauses, including retried moves, but not toasts', () => {
+    let tree = annotateNode(playedTree('e4', 'e5', 'Qh5'), 3, { severity: 'mistake' })
+    tree = rejectCurrentMove(tree)
+    tree = addMove(tree, new Chess(tree.nodes[2].fen).move('Nf3'))
+    tree = annotateNode(tree, tree.currentId, { severity: 'inaccuracy' })
+    expect(countInterventions(tree)).toBe(1)
+  })
+})
+
+describe('library filters', () => {
+  const games = [
+    entry('win'),
+    entry('loss', { playerColor: 'b' }),
+    entry('draw', { result: '1/2-1/2', termination: 'Draw!' }),
+    entry('pnp', { mode: 'pass-and-play' }),
+  ]
+
+  it('should give the outcome from the user\'s side', () => {
+    expect(games.map(getLibraryOutcome)).toEqual(['win', 'loss', 'draw', null])
+  })
+
+  it('should filter by mode, outcome and search text', () => {
+    expect(filterLibrary(games, { mode: 'pass-and-play' }).map((g) => g.id)).toEqual(['pnp'])
+    expect(filterLibrary(games, { outcome: 'loss' }).map((g) => g.id)).toEqual(['loss'])
+    expect(filterLibrary(games, { query: 'draw' }).map((g) => g.id)).toEqual(['draw'])
+    expect(filterLibrary(games, { query: 'c23' })).toHaveLength(4)
+    expect(filterLibrary(games, { query: 'sicilian' })).toEqual([])
+  })
+})
+
+describe('library storage', () => {
+  it('should save to localStorage and load it back', () => {
+    saveLibrary([entry('a')])
+    expect(loadLibrary()).toEqual([entry('a')])
+    expect(parseLibrary('not json')).toEqual([])
+    expect(parseLibrary(JSON.stringify([entry('a'), { id: 'b' }]))).toEqual([entry('a')])
+  })
+
+  it('should read games from before time controls as 10 minutes a side', () => {
+    const older: Partial<LibraryGame> = { ...entry('a', { timeControl: UNTIMED }) }
+    delete older.timeControl
+    expect(parseLibrary(JSON.stringify([older]))[0].timeControl).toEqual(DEFAULT_TIME_CONTROL)
+  })
+
+  it('should put new games first, replace the same game and cap the library', () => {
+    let games = addLibraryGame([], entry('a'))
+    games = addLibraryGame(games, entry('b'))
+    games = addLibraryGame(games, { ...entry('a'), result: '0-1' })
+    expect(games.map((g) => [g.id, g.result])).toEqual([['a', '0-1'], ['b', '1-0']])
+    expect(removeLibraryGame(games, 'a').map((g) => g.id)).toEqual(['b'])
+
+    for (let i = 0; i < MAX_LIBRARY_GAMES; i++) games = addLibraryGame(games, entry(String(i)))
+    expect(games).toHaveLength(MAX_LIBRARY_GAMES)
+  })
+
+  it('should export several games as one PGN file', () => {
+    expect(importPgn(exportLibraryPgn([entry('a'), entry('b', { playerColor: 'b' })]))).toHaveLength(2)
+  })
+})
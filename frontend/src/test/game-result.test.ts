@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { Chess } from 'chess.js'
+import {
+  ABORTED_GAME,
+  DRAW_BY_AGREEMENT,
+  describeGameResult,
+  getBoardResult,
+  getResignationResult,
+  getTimeoutResult,
+  hasMatingMaterial,
+} from '../lib/game-result'
+
+const canMate = (fen: string) => {
+  const game = new Chess(fen)
+  return { w: hasMatingMaterial(game, 'w'), b: hasMatingMaterial(game, 'b') }
+}
+
+describe('hasMatingMaterial', () => {
+  it('should never let a bare king mate', () => {
+    expect(canMate('8/8/4k3/8/8/3K4/8/8 w - - 0 1')).toEqual({ w: false, b: false })
+    expect(canMate('8/8/4k3/8/8/3K4/8/7q w - - 0 1')).toEqual({ w: false, b: true })
+  })
+
+  it('should let pawns, rooks and queens mate', () => {
+    expect(canMate('8/8/4k3/8/8/3K4/P7/8 w - - 0 1').w).toBe(true)
+    expect(canMate('8/8/4k3/8/8/3K4/8/R7 w - - 0 1').w).toBe(true)
+    expect(canMate('8/8/4k3/8/8/3K4/8/Q7 w - - 0 1').w).toBe(true)
+  })
+
+  it('should only let a lone knight mate if the other king has something to block it', () => {
+    expect(canMate('8/8/4k3/8/8/3K4/8/N7 w - - 0 1').w).toBe(false)
+    expect(canMate('8/p7/4k3/8/8/3K4/8/N7 w - - 0 1').w).toBe(true)
+    expect(canMate('8/8/4k3/8/8/3K4/8/NN6 w - - 0 1').w).toBe(true)
+    expect(canMate('8/8/4k3/8/8/3K4/8/NB6 w - - 0 1').w).toBe(true)
+  })
+
+  it('should judge bishops by the shade of their squares', () => {
+    // a1, c1 and h8 are dark; b1 and a8 are light
+    expect(canMate('8/8/4k3/8/8/3K4/8/B1B5 w - - 0 1').w).toBe(false)
+    expect(canMate('8/8/4k3/8/8/3K4/8/BB6 w - - 0 1').w).toBe(true)
+    expect(canMate('7b/8/4k3/8/8/3K4/8/B7 w - - 0 1')).toEqual({ w: false, b: false })
+    expect(canMate('b7/8/4k3/8/8/3K4/8/B7 w - - 0 1')).toEqual({ w: true, b: true })
+    expect(canMate('8/8/4k3/8/8/3K4/8/B6r w - - 0 1').w).toBe(true)
+  })
+})
+
+describe('getBoardResult', () => {
+  it('should score checkmate for the side that mated', () => {
+    const game = new Chess()
+    for (const san of ['f3', 'e5', 'g4', 'Qh4#']) game.move(san)
+    expect(getBoardResult(game)).toEqual({ result: '0-1', reason: 'checkmate', loser: 'w' })
+  })
+
+  it('should tell the draws on the board apart', () => {
+    expect(getBoardResult(new Chess('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1'))?.reason).toBe('stalemate')
+    expect(getBoardResult(new Chess('8/8/4k3/8/8/3K4/8/N7 w - - 0 1'))?.reason).toBe('insufficient-material')
+    expect(getBoardResult(new Chess('8/8/4k3/8/8/3K4/8/R7 w - - 100 80'))?.reason).toBe('fifty-move')
+
+    const game = new Chess()
+    for (let i = 0; i < 2; i++) for (const san of ['Nf3', 'Nf6', 'Ng1', 'Ng8']) game.move(san)
+    expect(getBoardResult(game)).toEqual({ result: '1/2-1/2', reason: 'repetition', loser: null })
+  })
+
+  it('should let a game in progress go on', () => {
+    expect(getBoardResult(new Chess())).toBeNull()
+  })
+})
+
+describe('timeouts', () => {
+  it('should lose on time when the opponent could still mate', () => {
+    const result = getTimeoutResult('b', true)
+    expect(result).toEqual({ result: '1-0', reason: 'timeout', loser: 'b' })
+    expect(describeGameResult(result)).toBe('White wins on time!')
+  })
+
+  it('should draw when the opponent has only a bare king', () => {
+    const game = new Chess('8/8/4k3/8/8/3K4/8/7q w - - 0 1')
+    const result = getTimeoutResult('b', hasMatingMaterial(game, 'w'))
+    expect(result).toEqual({ result: '1/2-1/2', reason: 'timeout', loser: 'b' })
+    expect(describeGameResult(result)).toBe("Draw! Black ran out of time, but White can't checkmate")
+  })
+})
+
+describe('describeGameResult', () => {
+  it('should say how the game ended', () => {
+    expect(describeGameResult({ result: '1-0', reason: 'checkmate', loser: 'b' })).toBe('Checkmate! White wins!')
+    expect(describeGameResult({ result: '1/2-1/2', reason: 'fifty-move', loser: null })).toBe('Draw by the 50-move rule!')
+  })
+
+  it('should record resignations, agreed draws and aborted games', () => {
+    expect(getResignationResult('w')).toEqual({ result: '0-1', reason: 'resignation', loser: 'w' })
+    expect(describeGameResult(getResignationResult('w'))).toBe('White resigns. Black wins!')
+    expect(DRAW_BY_AGREEMENT.result).toBe('1/2-1/2')
+    expect(describeGameResult(DRAW_BY_AGREEMENT)).toBe('Draw by agreement!')
+    expect(ABORTED_GAME.result).toBe('*')
+    expect(describeGameResult(ABORTED_GAME)).toBe('Game aborted')
+  })
+})
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest'
+import { Chess, DEFAULT_POSITION } from 'chess.js'
+import {
+  addMove,
+  annotateNode,
+  createGameTree,
+  getGameAt,
+  getLineFrom,
+  getMainline,
+  getPath,
+  getVariations,
+  rejectCurrentMove,
+  toMoveRows,
+} from '../lib/game-tree'
+import { play } from './helpers'
+
+describe('createGameTree', () => {
+  it('should start with just the root position', () => {
+    const tree = createGameTree()
+    expect(tree.currentId).toBe(tree.rootId)
+    expect(tree.nodes[tree.rootId].fen).toBe(DEFAULT_POSITION)
+    expect(getMainline(tree)).toEqual([])
+  })
+})
+
+describe('addMove', () => {
+  it('should record moves in order with SAN, UCI and resulting FEN', () => {
+    const game = new Chess()
+    const tree = play(createGameTree(), game, 'e4', 'e5', 'Nf3')
+
+    const mainline = getMainline(tree)
+    expect(mainline.map((n) => n.san)).toEqual(['e4', 'e5', 'Nf3'])
+    expect(mainline.map((n) => n.uci)).toEqual(['e2e4', 'e7e5', 'g1f3'])
+    expect(mainline[2].fen).toBe(game.fen())
+    expect(tree.currentId).toBe(mainline[2].id)
+  })
+
+  it('should record the mover, move number and clock time', () => {
+    const game = new Chess()
+    let tree = addMove(createGameTree(), game.move('e4'), { clock: 598 })
+    tree = addMove(tree, game.move('e5'), { clock: 590 })
+
+    const [e4, e5] = getMainline(tree)
+    expect(e4).toMatchObject({ color: 'w', moveNumber: 1, clock: 598, severity: null })
+    expect(e5).toMatchObject({ color: 'b', moveNumber: 1, clock: 590 })
+  })
+
+  it('should not leave earlier trees changed', () => {
+    const game = new Chess()
+    const before = play(createGameTree(), game, 'e4')
+    play(before, game, 'e5')
+    expect(getMainline(before)).toHaveLength(1)
+  })
+})
+
+describe('addMove with variation', () => {
+  it('should add the move beside the main line instead of replacing it', () => {
+    const game = new Chess()
+    let tree = play(createGameTree(), game, 'e4', 'e5')
+    const e4 = getMainline(tree)[0].id
+    game.undo()
+    tree = addMove({ ...tree, currentId: e4 }, game.move('c5'), { variation: true })
+
+    expect(getMainline(tree).map((n) => n.san)).toEqual(['e4', 'e5'])
+    expect(getVariations(tree, e4).map((n) => n.san)).toEqual(['c5'])
+  })
+})
+
+describe('rejectCurrentMove', () => {
+  it('should go back to the previous position and keep the move as a variation', () => {
+    const game = new Chess()
+    let tree = play(createGameTree(), game, 'e4', 'e5', 'h3')
+    tree = rejectCurrentMove(tree)
+    game.undo()
+    tree = play(tree, game, 'Nf3')
+
+    expect(getMainline(tree).map((n) => n.san)).toEqual(['e4', 'e5', 'Nf3'])
+
+    const e5 = getMainline(tree)[1]
+    const variations = getVariations(tree, e5.id)
+    expect(variations.map((n) => n.san)).toEqual(['h3'])
+    expect(variations[0].rejected).toBe(true)
+  })
+
+  it('should end the main line at the retried position until a new move is played', () => {
+    const game = new Chess()
+    let tree = play(createGameTree(), game, 'e4', 'f6')
+    tree = rejectCurrentMove(tree)
+
+    expect(getMainline(tree).map((n) => n.san)).toEqual(['e4'])
+    expect(tree.nodes[tree.currentId].san).toBe('e4')
+  })
+
+  it('should bring a rejected move back if it is played again', () => {
+    const game = new Chess()
+    let tree = play(createGameTree(), game, 'e4', 'e5', 'h3')
+    tree = rejectCurrentMove(tree)
+    game.undo()
+    tree = play(tree, game, 'h3')
+
+    const mainline = getMainline(tree)
+    expect(mainline.map((n) => n.san)).toEqual(['e4', 'e5', 'h3'])
+    expect(mainline[2].rejected).toBe(false)
+    expect(getVariations(tree, mainline[1].id)).toEqual([])
+  })
+
+  it('should do nothing at the root', () => {
+    const tree = createGameTree()
+    expect(rejectCurrentMove(tree)).toBe(tree)
+  })
+})
+
+describe('getPath', () => {
+  it('should list the moves from the start to a node, including variations', () => {
+    const game = new Chess()
+    let tree = play(createGameTree(), game, 'e4', 'e5', 'h3')
+    const h3 = tree.currentId
+    tree = rejectCurrentMove(tree)
+
+    expect(getPath(tree, h3).map((n) => n.san)).toEqual(['e4', 'e5', 'h3'])
+    expect(getPath(tree).map((n) => n.san)).toEqual(['e4', 'e5'])
+  })
+})
+
+describe('getLineFrom', () => {
+  it('should follow a variation to its end', () => {
+    const game = new Chess()
+    let tree = play(createGameTree(), game, 'e4', 'e5')
+    const e4 = getMainline(tree)[0].id
+    game.undo()
+    tree = addMove({ ...tree, currentId: e4 }, game.move('c5'), { variation: true })
+    const c5 = tree.currentId
+    tree = play(tree, game, 'Nf3', 'd6')
+
+    expect(getLineFrom(tree, c5).map((n) => n.san)).toEqual(['c5', 'Nf3', 'd6'])
+  })
+})
+
+describe('getGameAt', () => {
+  it('should rebuild the game up to a node with its move history', () => {
+    const game = new Chess()
+    let tree = play(createGameTree(), game, 'e4', 'e5', 'Nf3')
+    const e5 = getMainline(tree)[1].id
+
+    const rebuilt = getGameAt(tree, e5)
+
+    expect(rebuilt.history()).toEqual(['e4', 'e5'])
+    expect(rebuilt.fen()).toBe(tree.nodes[e5].fen)
+    tree = rejectCurrentMove(tree)
+    expect(getGameAt(tree).history()).toEqual(['e4', 'e5'])
+  })
+})
+
+describe('annotateNode', () => {
+  it('should mark a move with the intervention severity', () => {
+    const game = new Chess()
+    let tree = play(createGameTree(), game, 'e4', 'f6')
+    tree = annotateNode(tree, tree.currentId, { severity: 'mistake' })
+
+    expect(getMainline(tree)[1].severity).toBe('mistake')
+    expect(getMainline(tree)[0].severity).toBeNull()
+  })
+})
+
+describe('toMoveRows', () => {
+  it('should pair white and black moves under their move number', () => {
+    const game = new Chess()
+    const tree = play(createGameTree(), game, 'e4', 'e5', 'Nf3')
+
+    const rows = toMoveRows(getMainline(tree))
+
+    expect(rows.map((r) => [r.moveNumber, r.white?.san ?? null, r.black?.san ?? null])).toEqual([
+      [1, 'e4', 'e5'],
+      [2, 'Nf3', null],
+    ])
+  })
+
+  it('should leave the white slot empty when a line starts with black', () => {
+    const game = new Chess('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1')
+    const tree = play(createGameTree(game.fen()), game, 'e5', 'Nf3')
+
+    const rows = toMoveRows(getMainline(tree))
+
+    expect(rows.map((r) => [r.moveNumber, r.white?.san ?? null, r.black?.san ?? null])).toEqual([
+      [1, null, 'e5'],
+      [2, 'Nf3', null],
+    ])
+  })
+})
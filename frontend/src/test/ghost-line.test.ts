@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Chess } from 'chess.js'
+import type { AnalysisResult } from '../lib/chess-api'
+import { buildGhostLine, GHOST_LINE_PLIES, GHOST_LINE_ELO } from '../lib/ghost-line'
+
+// Position after 1. e4 e5 — white to move
+const FEN_BEFORE = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2'
+
+const analysis = (bestMove: string): AnalysisResult => ({
+  bestMove,
+  from: bestMove.slice(0, 2),
+  to: bestMove.slice(2, 4),
+  winProbability: 0.55,
+  moves: { [bestMove]: 0.4 },
+})
+
+describe('buildGhostLine', () => {
+  it('should start with the best move and follow Maia2 for the next plies', async () => {
+    const replies = ['b8c6', 'f1b5', 'a7a6']
+    const analyze = vi.fn(async () => analysis(replies.shift()!))
+
+    const line = await buildGhostLine(FEN_BEFORE, 'g1f3', { analyze })
+
+    expect(line.map((m) => m.san)).toEqual(['Nf3', 'Nc6', 'Bb5', 'a6'])
+    expect(line).toHaveLength(GHOST_LINE_PLIES)
+    expect(analyze).toHaveBeenCalledTimes(GHOST_LINE_PLIES - 1)
+  })
+
+  it('should query each position reached, at the ghost-line ELO', async () => {
+    const replies = ['b8c6', 'f1b5', 'a7a6']
+    const analyze = vi.fn(async () => analysis(replies.shift()!))
+
+    const line = await buildGhostLine(FEN_BEFORE, 'g1f3', { analyze })
+
+    expect(analyze).toHaveBeenNthCalledWith(1, line[0].fenAfter, { eloSelf: GHOST_LINE_ELO, eloOppo: GHOST_LINE_ELO })
+    expect(analyze).toHaveBeenNthCalledWith(2, line[1].fenAfter, { eloSelf: GHOST_LINE_ELO, eloOppo: GHOST_LINE_ELO })
+  })
+
+  it('should record from/to, color and resulting FEN for each ghost move', async () => {
+    const analyze = vi.fn(async () => analysis('b8c6'))
+
+    const [first, second] = await buildGhostLine(FEN_BEFORE, 'g1f3', { plies: 2, analyze })
+
+    const game = new Chess(FEN_BEFORE)
+    game.move('Nf3')
+    expect(first).toEqual({ uci: 'g1f3', san: 'Nf3', from: 'g1', to: 'f3', color: 'w', fenAfter: game.fen() })
+    expect(second.color).toBe('b')
+    expect(second.san).toBe('Nc6')
+  })
+
+  it('should return an empty line when the best move is illegal', async () => {
+    const analyze = vi.fn()
+    expect(await buildGhostLine(FEN_BEFORE, 'e2e5', { analyze })).toEqual([])
+    expect(analyze).not.toHaveBeenCalled()
+  })
+
+  it('should keep the moves found so far when the model fails', async () => {
+    const analyze = vi.fn()
+      .mockResolvedValueOnce(analysis('b8c6'))
+      .mockRejectedValueOnce(new Error('Network error'))
+
+    const line = await buildGhostLine(FEN_BEFORE, 'g1f3', { analyze })
+
+    expect(line.map((m) => m.san)).toEqual(['Nf3', 'Nc6'])
+  })
+
+  it('should stop when the line ends the game', async () => {
+    // Scholar's mate: Qxf7# ends the line immediately
+    const fen = 'r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4'
+    const analyze = vi.fn()
+
+    const line = await buildGhostLine(fen, 'h5f7', { analyze })
+
+    expect(line.map((m) => m.san)).toEqual(['Qxf7#'])
+    expect(analyze).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,13 @@
+import { Chess } from 'chess.js'
+import { type GameTree, addMove, createGameTree } from '../lib/game-tree'
+
+/** Play SAN moves on a game and record each in the tree */
+export function play(tree: GameTree, game: Chess, ...moves: string[]): GameTree {
+  for (const san of moves) tree = addMove(tree, game.move(san))
+  return tree
+}
+
+/** A game tree of SAN moves played from the starting position */
+export function playedTree(...moves: string[]): GameTree {
+  return play(createGameTree(), new Chess(), ...moves)
+}
@@ -2,9 +2,20 @@ import { describe, it, expect } from 'vitest'
 import { Chess } from 'chess.js'
 import {
   calculateWinProbDrop,
+  classifyMove,
+  getInterventionAction,
   isBlunder,
+  getContextualBands,
+  getCurveFactor,
+  getEloFactor,
+  getGamePhase,
+  logOdds,
   BLUNDER_THRESHOLD,
+  DEFAULT_SEVERITY_BANDS,
+  MAX_BAND_SCALE,
+  type ThresholdContext,
 } from '../lib/intervention'
+import { calculateMaterial } from '../lib/chess-utils'
 
 // ——————————————————————————————————————————
 // Tests
@@ -136,6 +147,197 @@ describe('Blunder Detection — isBlunder', () => {
   })
 })
 
+describe('Severity Classification — classifyMove', () => {
+  it('should return null for drops below the inaccuracy band', () => {
+    expect(classifyMove(0.50, 0.48, 'w')).toBeNull()
+    expect(classifyMove(0.50, 0.65, 'w')).toBeNull() // improving move
+  })
+
+  it('should grade a small drop as an inaccuracy (0.55 → 0.49)', () => {
+    expect(classifyMove(0.55, 0.49, 'w')).toBe('inaccuracy')
+  })
+
+  it('should grade a medium drop as a mistake (0.55 → 0.43)', () => {
+    expect(classifyMove(0.55, 0.43, 'w')).toBe('mistake')
+  })
+
+  it('should grade a large drop as a blunder (0.55 → 0.25)', () => {
+    expect(classifyMove(0.55, 0.25, 'w')).toBe('blunder')
+  })
+
+  it('should grade from black\'s perspective', () => {
+    // White's prob went from 0.40 to 0.55 → black dropped 0.15
+    expect(classifyMove(0.40, 0.55, 'b')).toBe('mistake')
+    expect(classifyMove(0.40, 0.70, 'b')).toBe('blunder')
+    expect(classifyMove(0.40, 0.46, 'b')).toBe('inaccuracy')
+  })
+
+  it('should flag throwing away a winning position as a missed win', () => {
+    // White was winning (0.85), now only 0.60
+    expect(classifyMove(0.85, 0.60, 'w')).toBe('missed-win')
+    // Black was winning (white at 0.10), now white at 0.45
+    expect(classifyMove(0.10, 0.45, 'b')).toBe('missed-win')
+  })
+
+  it('should not call it a missed win if the position is still winning', () => {
+    expect(classifyMove(0.95, 0.80, 'w')).toBe('mistake')
+  })
+
+  it('should not call an inaccuracy from a winning position a missed win', () => {
+    expect(classifyMove(0.78, 0.72, 'w')).toBe('inaccuracy')
+  })
+
+  it('should treat the mistake band as the legacy blunder threshold', () => {
+    expect(DEFAULT_SEVERITY_BANDS.mistake).toBe(BLUNDER_THRESHOLD)
+    // Everything isBlunder flags is at least a mistake
+    expect(isBlunder(0.60, 0.49, 'w')).toBe(true)
+    expect(classifyMove(0.60, 0.49, 'w')).toBe('mistake')
+  })
+
+  it('should accept custom bands', () => {
+    const strict = { inaccuracy: 0.02, mistake: 0.05, blunder: 0.10, winning: 0.75 }
+    expect(classifyMove(0.55, 0.52, 'w', strict)).toBe('inaccuracy')
+    expect(classifyMove(0.55, 0.49, 'w', strict)).toBe('mistake')
+    expect(classifyMove(0.55, 0.43, 'w', strict)).toBe('blunder')
+  })
+})
+
+describe('Severity Actions — getInterventionAction', () => {
+  it('should only toast an inaccuracy', () => {
+    expect(getInterventionAction('inaccuracy')).toBe('toast')
+  })
+
+  it('should pause the game for mistakes, blunders and missed wins', () => {
+    expect(getInterventionAction('mistake')).toBe('pause')
+    expect(getInterventionAction('blunder')).toBe('pause')
+    expect(getInterventionAction('missed-win')).toBe('pause')
+  })
+})
+
+describe('Context-Aware Thresholds', () => {
+  // A middlegame position at 1500 with a balanced eval uses the base bands
+  const balanced: ThresholdContext = {
+    elo: 1500,
+    moveNumber: 20,
+    totalMaterial: 60,
+    winProbability: 0.5,
+  }
+
+  describe('getGamePhase', () => {
+    it('should call the first 10 moves with full material the opening', () => {
+      const material = calculateMaterial(new Chess())
+      expect(getGamePhase(1, material.whiteMaterial + material.blackMaterial)).toBe('opening')
+      expect(getGamePhase(10, 70)).toBe('opening')
+    })
+
+    it('should call later moves with plenty of material the middlegame', () => {
+      expect(getGamePhase(11, 70)).toBe('middlegame')
+    })
+
+    it('should call low-material positions the endgame regardless of move number', () => {
+      // Rook + 4 pawns each
+      expect(getGamePhase(40, 18)).toBe('endgame')
+      expect(getGamePhase(8, 20)).toBe('endgame')
+    })
+  })
+
+  describe('logOdds', () => {
+    it('should be 0 at 0.5 and symmetric', () => {
+      expect(logOdds(0.5)).toBeCloseTo(0)
+      expect(logOdds(0.8)).toBeCloseTo(-logOdds(0.2))
+    })
+
+    it('should stay finite at 0 and 1', () => {
+      expect(Number.isFinite(logOdds(0))).toBe(true)
+      expect(Number.isFinite(logOdds(1))).toBe(true)
+    })
+  })
+
+  describe('getEloFactor', () => {
+    it('should leave the bands unscaled at the reference ELO', () => {
+      expect(getEloFactor(1500)).toBe(1)
+    })
+
+    it('should be more lenient for lower ratings and stricter for higher ones', () => {
+      expect(getEloFactor(800)).toBeGreaterThan(1)
+      expect(getEloFactor(2000)).toBeLessThan(1)
+    })
+
+    it('should be clamped', () => {
+      expect(getEloFactor(100)).toBe(1.5)
+      expect(getEloFactor(3000)).toBe(0.75)
+    })
+  })
+
+  describe('getCurveFactor', () => {
+    it('should be 1 for a balanced position', () => {
+      expect(getCurveFactor(0.5)).toBeCloseTo(1)
+    })
+
+    it('should grow as the position becomes decided, for either side', () => {
+      expect(getCurveFactor(0.7)).toBeGreaterThan(1)
+      expect(getCurveFactor(0.95)).toBeGreaterThan(getCurveFactor(0.7))
+      expect(getCurveFactor(0.05)).toBeCloseTo(getCurveFactor(0.95))
+    })
+  })
+
+  describe('getContextualBands', () => {
+    it('should return the base bands for a balanced 1500 middlegame', () => {
+      const bands = getContextualBands(balanced)
+      expect(bands.inaccuracy).toBeCloseTo(DEFAULT_SEVERITY_BANDS.inaccuracy)
+      expect(bands.mistake).toBeCloseTo(DEFAULT_SEVERITY_BANDS.mistake)
+      expect(bands.blunder).toBeCloseTo(DEFAULT_SEVERITY_BANDS.blunder)
+      expect(bands.winning).toBe(DEFAULT_SEVERITY_BANDS.winning)
+    })
+
+    it('should not intervene on an 11% drop in an already-won position', () => {
+      // 0.95 → 0.84: still clearly winning
+      const bands = getContextualBands({ ...balanced, winProbability: 0.95 })
+      expect(classifyMove(0.95, 0.84, 'w', bands)).toBeNull()
+      // The flat threshold would have paused the game
+      expect(isBlunder(0.95, 0.84, 'w')).toBe(true)
+    })
+
+    it('should not intervene in an already-lost position', () => {
+      const bands = getContextualBands({ ...balanced, winProbability: 0.05 })
+      expect(classifyMove(0.05, 0.01, 'w', bands)).toBeNull()
+    })
+
+    it('should still catch a real error in a tight position', () => {
+      const bands = getContextualBands(balanced)
+      expect(classifyMove(0.50, 0.38, 'w', bands)).toBe('mistake')
+    })
+
+    it('should be stricter for strong players in the endgame', () => {
+      const bands = getContextualBands({ ...balanced, elo: 2000, totalMaterial: 12 })
+      expect(bands.mistake).toBeLessThan(DEFAULT_SEVERITY_BANDS.mistake)
+      // A 0.08 drop is a mistake here, only an inaccuracy in a base context
+      expect(classifyMove(0.50, 0.42, 'w', bands)).toBe('mistake')
+      expect(classifyMove(0.50, 0.42, 'w')).toBe('inaccuracy')
+    })
+
+    it('should be more lenient for beginners in the opening', () => {
+      const bands = getContextualBands({ ...balanced, elo: 600, moveNumber: 5, totalMaterial: 78 })
+      expect(bands.mistake).toBeGreaterThan(DEFAULT_SEVERITY_BANDS.mistake)
+      expect(classifyMove(0.50, 0.38, 'w', bands)).toBe('inaccuracy')
+    })
+
+    it('should still grade a collapse in a lopsided opening', () => {
+      // A beginner's winning opening would otherwise push the blunder band past a 0.9 drop
+      const bands = getContextualBands({ ...balanced, elo: 600, moveNumber: 5, totalMaterial: 78, winProbability: 0.97 })
+      expect(bands.blunder).toBeCloseTo(DEFAULT_SEVERITY_BANDS.blunder * MAX_BAND_SCALE)
+      expect(classifyMove(0.97, 0.3, 'w', bands)).toBe('missed-win')
+    })
+
+    it('should scale custom base bands', () => {
+      const base = { inaccuracy: 0.1, mistake: 0.2, blunder: 0.3, winning: 0.8 }
+      const bands = getContextualBands({ ...balanced, elo: 500 }, base)
+      expect(bands.mistake).toBeCloseTo(0.3)
+      expect(bands.winning).toBe(0.8)
+    })
+  })
+})
+
 describe('Intervention Flow — Game State Integration', () => {
   describe('Two-phase evaluation', () => {
     it('should require evaluation before AND after the move', () => {
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import { detectMotifs, detectInterventionMotifs } from '../lib/motifs'
+import { createInitialInterventionState } from '../lib/intervention'
+
+// Position after 1. e4 e5 — white to move
+const AFTER_E4_E5 = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2'
+
+const types = (fen: string, userMove: string, bestMove: string | null = null) =>
+  detectMotifs({ fenBeforeMove: fen, userMove, bestMove }).map(m => m.type)
+
+describe('detectMotifs', () => {
+  it('should find nothing wrong with a sound developing move', () => {
+    expect(detectMotifs({ fenBeforeMove: AFTER_E4_E5, userMove: 'Nf3', bestMove: 'g1f3' })).toEqual([])
+  })
+
+  it('should return an empty list for an illegal move', () => {
+    expect(detectMotifs({ fenBeforeMove: AFTER_E4_E5, userMove: 'Nf6', bestMove: null })).toEqual([])
+  })
+
+  it('should accept the user move in UCI as well as SAN', () => {
+    expect(types(AFTER_E4_E5, 'f1a6')).toEqual(types(AFTER_E4_E5, 'Ba6'))
+  })
+
+  // ——————————————————————————————————————————
+  // Hanging pieces
+  // ——————————————————————————————————————————
+
+  it('should flag a piece moved to an undefended, attacked square', () => {
+    const [motif] = detectMotifs({ fenBeforeMove: AFTER_E4_E5, userMove: 'Ba6', bestMove: null })
+    expect(motif).toEqual({
+      type: 'hanging-piece',
+      square: 'a6',
+      description: 'Your bishop on a6 is now undefended.',
+    })
+  })
+
+  it('should flag a defended piece attacked by something cheaper', () => {
+    // The rook on a5 is defended by the b4 pawn but attacked by the b6 pawn
+    const fen = '4k3/8/1p6/8/1P6/8/8/R3K3 w - - 0 1'
+    const [motif] = detectMotifs({ fenBeforeMove: fen, userMove: 'Ra5', bestMove: null })
+    expect(motif?.description).toBe('Your rook on a5 can be won by their pawn.')
+  })
+
+  it('should not report pieces that were already hanging before the move', () => {
+    // The bishop on a6 already hangs; a pawn move does not change that
+    const fen = 'rnbqkbnr/pppp1ppp/B7/4p3/4P3/8/PPPP1PPP/RNBQK1NR w KQkq - 0 2'
+    expect(types(fen, 'h3')).toEqual([])
+  })
+
+  // ——————————————————————————————————————————
+  // Opponent replies
+  // ——————————————————————————————————————————
+
+  it('should find a knight fork the move allows', () => {
+    const fen = 'r3k3/7p/8/1N6/8/8/8/4K3 b - - 0 1'
+    const motifs = detectMotifs({ fenBeforeMove: fen, userMove: 'h6', bestMove: null })
+    expect(motifs).toContainEqual({
+      type: 'fork',
+      square: 'c7',
+      description: 'After your move, their knight can fork your king and rook from c7.',
+    })
+  })
+
+  it('should detect a back-rank mate the move allows', () => {
+    const fen = '4r1k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1'
+    const motifs = detectMotifs({ fenBeforeMove: fen, userMove: 'Rd7', bestMove: null })
+    expect(motifs[0]).toEqual({
+      type: 'back-rank',
+      square: 'e1',
+      description: 'Your back rank is weak: their rook can deliver mate on e1.',
+    })
+  })
+
+  // ——————————————————————————————————————————
+  // Line pieces
+  // ——————————————————————————————————————————
+
+  it('should detect a piece walking into a pin against the king', () => {
+    const fen = '4k3/8/3b4/8/8/8/8/K3R3 b - - 0 1'
+    const motifs = detectMotifs({ fenBeforeMove: fen, userMove: 'Be7', bestMove: null })
+    expect(motifs).toEqual([{
+      type: 'pin',
+      square: 'e7',
+      description: 'Your bishop on e7 is pinned to your king by their rook on e1.',
+    }])
+  })
+
+  it('should detect a skewer of the queen in front of a rook', () => {
+    const fen = 'r2qk3/8/8/8/8/8/8/4K2B b - - 0 1'
+    const motifs = detectMotifs({ fenBeforeMove: fen, userMove: 'Qd5', bestMove: null })
+    expect(motifs.map(m => m.type)).toEqual(['hanging-piece', 'skewer'])
+    expect(motifs[1].description).toBe('Their bishop on h1 skewers your queen on d5 and rook on a8.')
+  })
+
+  // ——————————————————————————————————————————
+  // Missed captures
+  // ——————————————————————————————————————————
+
+  it('should point out a capture the best move would have made', () => {
+    const fen = 'rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 2'
+    expect(detectMotifs({ fenBeforeMove: fen, userMove: 'Nf3', bestMove: 'e4d5' })).toContainEqual({
+      type: 'missed-capture',
+      square: 'd5',
+      description: 'You could have captured their pawn on d5 with exd5.',
+    })
+  })
+
+  it('should not report a missed capture when the user played the best move', () => {
+    const fen = 'rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 2'
+    expect(types(fen, 'exd5', 'e4d5')).not.toContain('missed-capture')
+  })
+})
+
+describe('detectInterventionMotifs', () => {
+  it('should return an empty list when the intervention has no move data', () => {
+    expect(detectInterventionMotifs(createInitialInterventionState())).toEqual([])
+  })
+
+  it('should analyze the intervention move', () => {
+    const motifs = detectInterventionMotifs({
+      ...createInitialInterventionState(),
+      fenBeforeMove: AFTER_E4_E5,
+      userMove: 'Ba6',
+    })
+    expect(motifs.map(m => m.type)).toEqual(['hanging-piece'])
+  })
+})
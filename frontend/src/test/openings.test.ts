@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest'
+import { identifyOpening } from '../lib/openings'
+
+describe('identifyOpening', () => {
+  it('should name the longest matching line', () => {
+    expect(identifyOpening(['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6', 'Ba4'])).toEqual({ eco: 'C60', name: 'Ruy Lopez' })
+    expect(identifyOpening(['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6', 'Bxc6'])).toEqual({
+      eco: 'C68',
+      name: 'Ruy Lopez: Exchange Variation',
+    })
+  })
+
+  it('should fall back to the first moves when the line leaves the table', () => {
+    expect(identifyOpening(['e4', 'e5', 'Qh5'])).toEqual({ eco: 'C20', name: "King's Pawn Game" })
+    expect(identifyOpening(['d4', 'Nf6', 'c4', 'g6', 'Nc3', 'd5'])?.name).toBe('Grünfeld Defense')
+  })
+
+  it('should return null for unknown starts and empty games', () => {
+    expect(identifyOpening(['a3'])).toBeNull()
+    expect(identifyOpening([])).toBeNull()
+  })
+})
@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest'
+import { Chess } from 'chess.js'
+import {
+  addMove,
+  annotateNode,
+  createGameTree,
+  getMainline,
+  getVariations,
+  rejectCurrentMove,
+} from '../lib/game-tree'
+import {
+  type PgnExportOptions,
+  exportPgn,
+  formatPgnClock,
+  formatPgnDate,
+  importPgn,
+  SEVERITY_NAGS,
+} from '../lib/pgn'
+import { play } from './helpers'
+
+const OPTIONS: PgnExportOptions = {
+  white: 'You',
+  black: 'Maia 2',
+  blackElo: 1100,
+  timeControl: '600',
+  result: '*',
+  date: new Date(2024, 2, 9),
+}
+
+describe('formatPgnClock', () => {
+  it('should format seconds as H:MM:SS', () => {
+    expect(formatPgnClock(598)).toBe('0:09:58')
+    expect(formatPgnClock(3725)).toBe('1:02:05')
+    expect(formatPgnClock(0)).toBe('0:00:00')
+  })
+
+  it('should drop fractions of a second', () => {
+    expect(formatPgnClock(583.417)).toBe('0:09:43')
+  })
+})
+
+describe('formatPgnDate', () => {
+  it('should format dates as YYYY.MM.DD', () => {
+    expect(formatPgnDate(new Date(2024, 2, 9))).toBe('2024.03.09')
+  })
+})
+
+describe('exportPgn', () => {
+  it('should write the headers', () => {
+    const pgn = exportPgn(createGameTree(), { ...OPTIONS, result: '1-0' })
+
+    expect(pgn).toContain('[Event "Checkmate Coach game"]')
+    expect(pgn).toContain('[Date "2024.03.09"]')
+    expect(pgn).toContain('[White "You"]')
+    expect(pgn).toContain('[Black "Maia 2"]')
+    expect(pgn).toContain('[BlackElo "1100"]')
+    expect(pgn).not.toContain('WhiteElo')
+    expect(pgn).toContain('[TimeControl "600"]')
+    expect(pgn).toContain('[Result "1-0"]')
+    expect(pgn).not.toContain('[FEN')
+  })
+
+  it('should write numbered moves followed by the result', () => {
+    const game = new Chess()
+    const tree = play(createGameTree(), game, 'e4', 'e5', 'Nf3')
+
+    expect(exportPgn(tree, OPTIONS)).toMatch(/\n\n1\. e4 e5 2\. Nf3 \*\n$/)
+  })
+
+  it('should add clock and win probability comments', () => {
+    const game = new Chess()
+    let tree = addMove(createGameTree(), game.move('e4'), { clock: 598 })
+    tree = annotateNode(tree, tree.currentId, { winProbability: 0.54 })
+    tree = addMove(tree, game.move('e5'), { clock: 595 })
+
+    const pgn = exportPgn(tree, OPTIONS)
+
+    expect(pgn).toContain('1. e4 {[%clk 0:09:58] White win probability 54%} 1... e5 {[%clk 0:09:55]}')
+  })
+
+  it('should mark moves with NAGs from the intervention severity', () => {
+    const game = new Chess()
+    let tree = play(createGameTree(), game, 'e4', 'e5', 'Qh5', 'Nc6', 'Bc4', 'Nf6')
+    tree = annotateNode(tree, tree.currentId, { severity: 'blunder' })
+
+    expect(exportPgn(tree, OPTIONS)).toContain(`Nf6${SEVERITY_NAGS.blunder}`)
+    expect(SEVERITY_NAGS.inaccuracy).toBe('?!')
+    expect(SEVERITY_NAGS.mistake).toBe('?')
+  })
+
+  it('should write retried moves and the coach suggestion as variations', () => {
+    const game = new Chess()
+    let tree = play(createGameTree(), game, 'e4', 'e5', 'h3')
+    tree = annotateNode(tree, tree.currentId, { severity: 'mistake', bestMove: 'g1f3' })
+    tree = rejectCurrentMove(tree)
+    game.undo()
+    tree = play(tree, game, 'Bc4', 'Nc6')
+
+    expect(exportPgn(tree, OPTIONS)).toContain(
+      "1. e4 e5 2. Bc4 (2. h3?) (2. Nf3 {Coach's suggestion}) 2... Nc6 *"
+    )
+  })
+
+  it('should not repeat a coach suggestion the user went on to play', () => {
+    const game = new Chess()
+    let tree = play(createGameTree(), game, 'e4', 'e5', 'h3')
+    tree = annotateNode(tree, tree.currentId, { severity: 'mistake', bestMove: 'g1f3' })
+    tree = rejectCurrentMove(tree)
+    game.undo()
+    tree = play(tree, game, 'Nf3')
+
+    expect(exportPgn(tree, OPTIONS)).toContain('1. e4 e5 2. Nf3 (2. h3?) *')
+  })
+
+  it('should include the starting FEN for games from a custom position', () => {
+    const fen = '4k3/8/8/8/8/8/4P3/4K3 w - - 0 1'
+    const game = new Chess(fen)
+    const tree = play(createGameTree(fen), game, 'e4')
+
+    const pgn = exportPgn(tree, OPTIONS)
+
+    expect(pgn).toContain('[SetUp "1"]')
+    expect(pgn).toContain(`[FEN "${fen}"]`)
+  })
+
+  it('should produce PGN that chess.js can load back', () => {
+    const game = new Chess()
+    let tree = play(createGameTree(), game, 'e4', 'e5', 'h3')
+    tree = annotateNode(tree, tree.currentId, { severity: 'blunder', bestMove: 'g1f3' })
+    tree = rejectCurrentMove(tree)
+    game.undo()
+    tree = addMove(tree, game.move('Nc3'), { clock: 580 })
+    tree = annotateNode(tree, tree.currentId, { winProbability: 0.51 })
+
+    const loaded = new Chess()
+    loaded.loadPgn(exportPgn(tree, { ...OPTIONS, result: '1/2-1/2' }))
+
+    expect(loaded.history()).toEqual(['e4', 'e5', 'Nc3'])
+    expect(loaded.getHeaders().Result).toBe('1/2-1/2')
+  })
+
+  it('should wrap long movetext at 80 columns', () => {
+    const game = new Chess()
+    let tree = createGameTree()
+    for (const san of ['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6', 'Ba4', 'Nf6', 'O-O', 'Be7', 'Re1', 'b5', 'Bb3', 'd6']) {
+      tree = addMove(tree, game.move(san), { clock: 600 })
+    }
+
+    const movetext = exportPgn(tree, OPTIONS).split('\n\n')[1]
+
+    expect(movetext.split('\n').length).toBeGreaterThan(1)
+    expect(movetext.split('\n').every((line) => line.length <= 80)).toBe(true)
+  })
+})
+
+describe('importPgn', () => {
+  const TWO_GAMES = `[Event "Club night"]
+[White "Alice"]
+[Black "Bob"]
+[Result "1-0"]
+
+1. e4 e5 2. Qh5 Nc6 3. Bc4 Nf6?? 4. Qxf7# 1-0
+
+[Event "Club night"]
+[White "Bob"]
+[Black "Alice"]
+[Result "1/2-1/2"]
+
+1. d4 d5 1/2-1/2
+`
+
+  it('should read every game in a multi-game file with its headers', () => {
+    const games = importPgn(TWO_GAMES)
+
+    expect(games).toHaveLength(2)
+    expect(games[0].headers).toMatchObject({ White: 'Alice', Black: 'Bob', Result: '1-0' })
+    expect(games[1].headers.White).toBe('Bob')
+    expect(getMainline(games[0].tree).map((n) => n.san)).toEqual(['e4', 'e5', 'Qh5', 'Nc6', 'Bc4', 'Nf6', 'Qxf7#'])
+    expect(getMainline(games[1].tree).map((n) => n.san)).toEqual(['d4', 'd5'])
+  })
+
+  it('should end each tree at the last main-line move', () => {
+    const [game] = importPgn(TWO_GAMES)
+    const mainline = getMainline(game.tree)
+    expect(game.tree.currentId).toBe(mainline[mainline.length - 1].id)
+  })
+
+  it('should read move suffixes and NAGs as severities', () => {
+    const [game] = importPgn('1. e4 e5 2. Qh5 $2 Nc6 3. Bc4 Nf6?? *')
+    const mainline = getMainline(game.tree)
+    expect(mainline[2].severity).toBe('mistake')
+    expect(mainline[5].severity).toBe('blunder')
+  })
+
+  it('should read nested variations into the tree', () => {
+    const [game] = importPgn('1. e4 e5 (1... c5 2. Nf3 (2. c3) 2... d6) 2. Nf3 *')
+    const mainline = getMainline(game.tree)
+
+    expect(mainline.map((n) => n.san)).toEqual(['e4', 'e5', 'Nf3'])
+    const [sicilian] = getVariations(game.tree, mainline[0].id)
+    expect(sicilian.san).toBe('c5')
+
+    const nf3 = game.tree.nodes[sicilian.children[0]]
+    expect(nf3.san).toBe('Nf3')
+    expect(getVariations(game.tree, sicilian.id).map((n) => n.san)).toEqual(['c3'])
+  })
+
+  it('should read clock and win probability comments', () => {
+    const [game] = importPgn('1. e4 {[%clk 0:09:58] White win probability 54%} e5 {[%clk 0:09:51.3]} *')
+    const [e4, e5] = getMainline(game.tree)
+    expect(e4).toMatchObject({ clock: 598, winProbability: 0.54 })
+    expect(e5.clock).toBe(591)
+  })
+
+  it('should start from the FEN header', () => {
+    const [game] = importPgn('[SetUp "1"]\n[FEN "4k3/8/8/8/8/8/4P3/4K3 w - - 0 1"]\n\n1. e4 Kd7 *')
+    expect(getMainline(game.tree).map((n) => n.san)).toEqual(['e4', 'Kd7'])
+  })
+
+  it('should round-trip an exported game with its retried moves', () => {
+    const game = new Chess()
+    let tree = play(createGameTree(), game, 'e4', 'e5', 'h3')
+    tree = annotateNode(tree, tree.currentId, { severity: 'mistake', bestMove: 'g1f3' })
+    tree = rejectCurrentMove(tree)
+    game.undo()
+    tree = play(tree, game, 'Bc4')
+
+    const [imported] = importPgn(exportPgn(tree, OPTIONS))
+    const mainline = getMainline(imported.tree)
+
+    expect(mainline.map((n) => n.san)).toEqual(['e4', 'e5', 'Bc4'])
+    expect(getVariations(imported.tree, mainline[1].id).map((n) => [n.san, n.severity])).toEqual([
+      ['h3', 'mistake'],
+      ['Nf3', null],
+    ])
+    expect(imported.headers.BlackElo).toBe('1100')
+  })
+
+  it('should report illegal moves with the game number', () => {
+    expect(() => importPgn('1. e4 e5 *\n\n1. e5 *')).toThrow('Invalid PGN (game 2): illegal move "e5"')
+  })
+
+  it('should reject unbalanced variations and empty input', () => {
+    expect(() => importPgn('1. e4 (1. d4 *')).toThrow('unclosed variation')
+    expect(() => importPgn('1. e4 ) *')).toThrow('unmatched')
+    expect(() => importPgn('   ')).toThrow('no games found')
+  })
+})
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createInitialInterventionState, type InterventionState } from '../lib/intervention'
+import {
+  type Puzzle,
+  MAX_PUZZLES,
+  addPuzzle,
+  exportPuzzleDeck,
+  getDuePuzzles,
+  getReviewGrade,
+  gradePuzzleMove,
+  importPuzzleDeck,
+  loadPuzzles,
+  parsePuzzleDeck,
+  puzzleFromIntervention,
+  recordPuzzleReview,
+  removePuzzle,
+  savePuzzles,
+} from '../lib/puzzles'
+import { createSchedule, reviewSchedule } from '../lib/spaced-repetition'
+import { STORAGE_PREFIX, subscribeStorage } from '../lib/storage'
+
+// Position after 1. e4 e5 — white to move
+const FEN = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2'
+
+const INTERVENTION: InterventionState = {
+  ...createInitialInterventionState(),
+  isActive: true,
+  fenBeforeMove: FEN,
+  userMove: 'Qh5',
+  bestMove: 'g1f3',
+  moveProbs: { g1f3: 0.5, b1c3: 0.3, d1h5: 0.15, a2a3: 0.05 },
+  severity: 'mistake',
+}
+
+const puzzle = (id: string): Puzzle => ({ ...puzzleFromIntervention(INTERVENTION, new Date(2024, 2, 9))!, id })
+
+beforeEach(() => {
+  localStorage.clear()
+})
+
+describe('puzzleFromIntervention', () => {
+  it('should keep the position, the mistake and the recommended move', () => {
+    const created = puzzleFromIntervention(INTERVENTION, new Date('2024-03-09T12:00:00Z'))
+    expect(created).toEqual({
+      id: FEN,
+      fen: FEN,
+      userMove: 'Qh5',
+      bestMove: 'g1f3',
+      moveProbs: INTERVENTION.moveProbs,
+      severity: 'mistake',
+      createdAt: '2024-03-09T12:00:00.000Z',
+      schedule: createSchedule(new Date('2024-03-09T12:00:00Z')),
+    })
+  })
+
+  it('should skip interventions without a recommended move', () => {
+    expect(puzzleFromIntervention({ ...INTERVENTION, bestMove: null })).toBeNull()
+  })
+})
+
+describe('puzzle deck', () => {
+  it('should put new puzzles first and replace one for the same position', () => {
+    let deck = addPuzzle([], puzzle('a'))
+    deck = addPuzzle(deck, puzzle('b'))
+    deck = addPuzzle(deck, { ...puzzle('a'), userMove: 'h3' })
+
+    expect(deck.map((p) => [p.id, p.userMove])).toEqual([['a', 'h3'], ['b', 'Qh5']])
+    expect(removePuzzle(deck, 'a').map((p) => p.id)).toEqual(['b'])
+  })
+
+  it('should count the same mistake again as a failed review instead of a new card', () => {
+    const reviewed = recordPuzzleReview(
+      recordPuzzleReview([puzzle('a')], 'a', 5, new Date(2024, 2, 10)),
+      'a',
+      5,
+      new Date(2024, 2, 11)
+    )[0]
+    expect(reviewed.schedule).toMatchObject({ repetitions: 2, interval: 6 })
+
+    const again = { ...puzzle('a'), createdAt: new Date(2024, 2, 14).toISOString() }
+    const [repeated] = addPuzzle([reviewed], again)
+
+    expect(repeated.createdAt).toBe(again.createdAt)
+    expect(repeated.schedule).toEqual(reviewSchedule(reviewed.schedule, 0, new Date(2024, 2, 14)))
+    expect(repeated.schedule.repetitions).toBe(0)
+    expect(repeated.schedule.ease).toBeLessThan(reviewed.schedule.ease)
+  })
+
+  it('should cap the deck size', () => {
+    let deck: Puzzle[] = []
+    for (let i = 0; i <= MAX_PUZZLES; i++) deck = addPuzzle(deck, puzzle(String(i)))
+    expect(deck).toHaveLength(MAX_PUZZLES)
+    expect(deck[0].id).toBe(String(MAX_PUZZLES))
+  })
+
+  it('should save to localStorage and load it back', () => {
+    savePuzzles([puzzle('a')])
+    expect(localStorage.getItem(`${STORAGE_PREFIX}puzzles`)).not.toBeNull()
+    expect(loadPuzzles()).toEqual([puzzle('a')])
+  })
+
+  it('should notify subscribers when the deck is saved', () => {
+    const callback = vi.fn()
+    const unsubscribe = subscribeStorage(callback)
+    savePuzzles([])
+    unsubscribe()
+    savePuzzles([])
+    expect(callback).toHaveBeenCalledTimes(1)
+  })
+
+  it('should ignore a corrupt or invalid stored deck', () => {
+    expect(parsePuzzleDeck('not json')).toEqual([])
+    expect(parsePuzzleDeck('{"id": "a"}')).toEqual([])
+    expect(parsePuzzleDeck(JSON.stringify([puzzle('a'), { id: 'b' }]))).toEqual([puzzle('a')])
+  })
+
+  it('should schedule puzzles stored before spaced repetition', () => {
+    const legacy: Partial<Puzzle> = puzzle('a')
+    delete legacy.schedule
+    expect(parsePuzzleDeck(JSON.stringify([legacy]))).toEqual([puzzle('a')])
+  })
+})
+
+describe('gradePuzzleMove', () => {
+  it('should accept Maia\'s move', () => {
+    expect(gradePuzzleMove(puzzle('a'), 'g1f3')).toMatchObject({ correct: true, san: 'Nf3', verdict: 'best' })
+  })
+
+  it('should accept a move Maia rates nearly as likely', () => {
+    expect(gradePuzzleMove(puzzle('a'), 'b1c3')).toMatchObject({ correct: true, probability: 0.3, verdict: 'good' })
+  })
+
+  it('should reject unlikely moves and the original mistake', () => {
+    expect(gradePuzzleMove(puzzle('a'), 'a2a3')).toMatchObject({ correct: false, verdict: 'miss' })
+    const repeated = { ...puzzle('a'), moveProbs: { g1f3: 0.5, d1h5: 0.45 } }
+    expect(gradePuzzleMove(repeated, 'd1h5')).toMatchObject({ correct: false, san: 'Qh5' })
+  })
+})
+
+describe('puzzle reviews', () => {
+  const now = new Date(2024, 2, 9, 12)
+
+  it('should grade the first answer for the schedule', () => {
+    const p = puzzle('a')
+    expect(getReviewGrade(p, gradePuzzleMove(p, 'g1f3'))).toBe(5)
+    expect(getReviewGrade(p, gradePuzzleMove(p, 'b1c3'))).toBe(4)
+    expect(getReviewGrade(p, gradePuzzleMove(p, 'a2a3'))).toBe(1)
+    expect(getReviewGrade(p, gradePuzzleMove(p, 'd1h5'))).toBe(0)
+  })
+
+  it('should list due puzzles and push reviewed ones back', () => {
+    let deck = [puzzle('a'), puzzle('b')]
+    expect(getDuePuzzles(deck, now).map((p) => p.id)).toEqual(['a', 'b'])
+
+    deck = recordPuzzleReview(deck, 'a', 5, now)
+    expect(deck[0].schedule.repetitions).toBe(1)
+    expect(getDuePuzzles(deck, now).map((p) => p.id)).toEqual(['b'])
+    expect(getDuePuzzles(deck, new Date(2024, 2, 10, 12)).map((p) => p.id)).toEqual(['b', 'a'])
+  })
+})
+
+describe('puzzle deck export', () => {
+  const now = new Date(2024, 2, 9, 12)
+
+  it('should round-trip the deck and its schedules', () => {
+    const deck = recordPuzzleReview([puzzle('a'), puzzle('b')], 'a', 4, now)
+    expect(importPuzzleDeck(exportPuzzleDeck(deck, now), [])).toEqual(deck)
+  })
+
+  it('should keep the most recently reviewed copy of a puzzle', () => {
+    const local = [puzzle('a'), puzzle('b')]
+    const remote = recordPuzzleReview([puzzle('a'), puzzle('c')], 'a', 5, now)
+    const merged = importPuzzleDeck(exportPuzzleDeck(remote, now), local)
+
+    expect(merged.map((p) => p.id).sort()).toEqual(['a', 'b', 'c'])
+    expect(merged.find((p) => p.id === 'a')!.schedule.repetitions).toBe(1)
+    expect(importPuzzleDeck(exportPuzzleDeck(local, now), remote).find((p) => p.id === 'a')!.schedule.repetitions).toBe(1)
+  })
+
+  it('should reject files that are not a deck export', () => {
+    expect(() => importPuzzleDeck('not json', [])).toThrow('not a JSON file')
+    expect(() => importPuzzleDeck('[]', [])).toThrow('no puzzles found')
+    expect(() => importPuzzleDeck('{"version": 2, "puzzles": []}', [])).toThrow('unsupported version 2')
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Chess } from 'chess.js'
+import { addMove, createGameTree, rejectCurrentMove } from '../lib/game-tree'
+import {
+  type RatedGame,
+  DEFAULT_RATING_SETTINGS,
+  INITIAL_RATING,
+  MAIA_DEVIATION,
+  countRetries,
+  createPlayerRating,
+  getGameWeight,
+  loadPlayerRating,
+  parsePlayerRating,
+  parseRatingSettings,
+  recordRatedGame,
+  savePlayerRating,
+  suggestOpponentElo,
+  updateRating,
+} from '../lib/rating'
+
+const game = (id: string, overrides: Partial<RatedGame> = {}): RatedGame => ({
+  id,
+  date: new Date('2024-03-09T12:00:00Z'),
+  opponentElo: 1500,
+  score: 1,
+  retries: 0,
+  ...overrides,
+})
+
+beforeEach(() => {
+  localStorage.clear()
+})
+
+describe('updateRating', () => {
+  it('should match Glickman\'s worked example', () => {
+    const updated = updateRating({ rating: 1500, deviation: 200, volatility: 0.06 }, [
+      { opponentRating: 1400, opponentDeviation: 30, score: 1 },
+      { opponentRating: 1550, opponentDeviation: 100, score: 0 },
+      { opponentRating: 1700, opponentDeviation: 300, score: 0 },
+    ])
+    expect(updated.rating).toBeCloseTo(1464.06, 1)
+    expect(updated.deviation).toBeCloseTo(151.52, 1)
+    expect(updated.volatility).toBeCloseTo(0.05999, 4)
+  })
+
+  it('should only widen the deviation without results', () => {
+    const updated = updateRating({ rating: 1500, deviation: 200, volatility: 0.06 }, [])
+    expect(updated.rating).toBe(1500)
+    expect(updated.deviation).toBeGreaterThan(200)
+  })
+
+  it('should move a weighted game less than a full one', () => {
+    const player = createPlayerRating()
+    const full = updateRating(player, [{ opponentRating: 1500, opponentDeviation: MAIA_DEVIATION, score: 1 }])
+    const half = updateRating(player, [{ opponentRating: 1500, opponentDeviation: MAIA_DEVIATION, score: 1, weight: 0.5 }])
+    expect(full.rating).toBeGreaterThan(half.rating)
+    expect(half.rating).toBeGreaterThan(INITIAL_RATING)
+  })
+})
+
+describe('retried games', () => {
+  it('should weight, exclude or ignore retries per the settings', () => {
+    expect(getGameWeight(1, DEFAULT_RATING_SETTINGS)).toBe(0.75)
+    expect(getGameWeight(5, DEFAULT_RATING_SETTINGS)).toBe(0)
+    expect(getGameWeight(3, { retryPolicy: 'exclude', retryLimit: 3 })).toBe(0)
+    expect(getGameWeight(2, { retryPolicy: 'exclude', retryLimit: 3 })).toBe(1)
+    expect(getGameWeight(9, { retryPolicy: 'ignore', retryLimit: 3 })).toBe(1)
+  })
+
+  it('should count the moves taken back', () => {
+    const chess = new Chess()
+    let tree = addMove(createGameTree(), chess.move('e4'))
+    tree = addMove(tree, chess.move('e5'))
+    tree = rejectCurrentMove(tree)
+    expect(countRetries(tree)).toBe(1)
+  })
+})
+
+describe('recordRatedGame', () => {
+  it('should rate each game once and keep the history', () => {
+    let player = recordRatedGame(createPlayerRating(), game('a'), DEFAULT_RATING_SETTINGS)
+    player = recordRatedGame(player, game('a'), DEFAULT_RATING_SETTINGS)
+    player = recordRatedGame(player, game('b', { score: 0, opponentElo: 1200 }), DEFAULT_RATING_SETTINGS)
+
+    expect(player.history.map((h) => [h.gameId, h.score, h.weight])).toEqual([['a', 1, 1], ['b', 0, 1]])
+    expect(player.history[0].rating).toBeGreaterThan(INITIAL_RATING)
+    expect(player.rating).toBe(player.history[1].rating)
+  })
+
+  it('should skip games that don\'t count', () => {
+    const player = recordRatedGame(createPlayerRating(), game('a', { retries: 4 }), DEFAULT_RATING_SETTINGS)
+    expect(player).toEqual(createPlayerRating())
+  })
+})
+
+describe('suggestOpponentElo', () => {
+  it('should pick the level closest to the rating once rated', () => {
+    const levels = [800, 1000, 1200, 1400]
+    expect(suggestOpponentElo(createPlayerRating(), levels)).toBeNull()
+    const player = { ...recordRatedGame(createPlayerRating(), game('a'), DEFAULT_RATING_SETTINGS), rating: 1130 }
+    expect(suggestOpponentElo(player, levels)).toBe(1200)
+  })
+})
+
+describe('rating storage', () => {
+  it('should save to localStorage and load it back', () => {
+    const player = recordRatedGame(createPlayerRating(), game('a'), DEFAULT_RATING_SETTINGS)
+    savePlayerRating(player)
+    expect(loadPlayerRating()).toEqual(player)
+    expect(parsePlayerRating('{"rating": "high"}')).toEqual(createPlayerRating())
+  })
+
+  it('should fall back to the default settings field by field', () => {
+    expect(parseRatingSettings('not json')).toEqual(DEFAULT_RATING_SETTINGS)
+    expect(parseRatingSettings('{"retryPolicy": "exclude", "retryLimit": 0}')).toEqual({
+      retryPolicy: 'exclude',
+      retryLimit: DEFAULT_RATING_SETTINGS.retryLimit,
+    })
+    expect(parseRatingSettings('{"retryPolicy": "toString"}').retryPolicy).toBe(DEFAULT_RATING_SETTINGS.retryPolicy)
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { Chess } from 'chess.js'
+import { type GameTree, annotateNode, createGameTree, rejectCurrentMove } from '../lib/game-tree'
+import { getMoveAccuracy, reviewGame } from '../lib/review'
+import { play } from './helpers'
+
+/** Play a SAN move and store the win probability after it */
+function playWithEval(tree: GameTree, game: Chess, san: string, winProbability: number | null = 0.5): GameTree {
+  tree = play(tree, game, san)
+  return annotateNode(tree, tree.currentId, { winProbability })
+}
+
+describe('getMoveAccuracy', () => {
+  it('should score a move that keeps the win chances at about 100', () => {
+    expect(getMoveAccuracy(0.5, 0.5, 'w')).toBeCloseTo(100, 0)
+    expect(getMoveAccuracy(0.5, 0.7, 'w')).toBeCloseTo(100, 0)
+  })
+
+  it('should fall off as the mover gives up win probability', () => {
+    const slip = getMoveAccuracy(0.5, 0.45, 'w')
+    const blunder = getMoveAccuracy(0.5, 0.2, 'w')
+    expect(slip).toBeLessThan(100)
+    expect(blunder).toBeLessThan(slip)
+    expect(getMoveAccuracy(1, 0, 'w')).toBe(0)
+  })
+
+  it('should read the drop from black\'s side for black moves', () => {
+    expect(getMoveAccuracy(0.5, 0.8, 'b')).toBeCloseTo(getMoveAccuracy(0.5, 0.2, 'w'))
+  })
+})
+
+describe('reviewGame', () => {
+  it('should chart the win probability of every analyzed position', () => {
+    const game = new Chess()
+    let tree = annotateNode(createGameTree(), 0, { winProbability: 0.52 })
+    tree = playWithEval(tree, game, 'e4', 0.55)
+    tree = playWithEval(tree, game, 'e5', null)
+    tree = playWithEval(tree, game, 'Nf3', 0.56)
+
+    const { points } = reviewGame(tree)
+
+    expect(points.map((p) => [p.ply, p.winProbability])).toEqual([
+      [0, 0.52],
+      [1, 0.55],
+      [3, 0.56],
+    ])
+  })
+
+  it('should score a final checkmate without an evaluation', () => {
+    const game = new Chess()
+    let tree = createGameTree()
+    for (const san of ['f3', 'e5', 'g4']) tree = playWithEval(tree, game, san)
+    tree = playWithEval(tree, game, 'Qh4#', null)
+
+    const { points } = reviewGame(tree)
+    expect(points[points.length - 1]).toMatchObject({ ply: 4, winProbability: 0 })
+  })
+
+  it('should give each side an accuracy and count its flagged moves', () => {
+    const game = new Chess()
+    let tree = annotateNode(createGameTree(), 0, { winProbability: 0.5 })
+    tree = playWithEval(tree, game, 'e4', 0.5)
+    tree = playWithEval(tree, game, 'f6', 0.7)
+    tree = annotateNode(tree, tree.currentId, { severity: 'blunder' })
+    tree = playWithEval(tree, game, 'd4', 0.7)
+
+    const review = reviewGame(tree)
+
+    expect(review.accuracy.w).toBeCloseTo(100, 0)
+    expect(review.accuracy.b).toBeLessThan(90)
+    expect(review.counts.b.blunder).toBe(1)
+    expect(review.counts.w).toEqual({ inaccuracy: 0, mistake: 0, blunder: 0, 'missed-win': 0 })
+  })
+
+  it('should leave accuracy empty for a side with no analyzed moves', () => {
+    const game = new Chess()
+    const tree = playWithEval(createGameTree(), game, 'e4', 0.5)
+    expect(reviewGame(tree).accuracy).toEqual({ w: null, b: null })
+  })
+
+  it('should list coach moments in order, including retried moves', () => {
+    const game = new Chess()
+    let tree = playWithEval(createGameTree(), game, 'e4')
+    tree = playWithEval(tree, game, 'e5')
+    tree = playWithEval(tree, game, 'h3')
+    tree = annotateNode(tree, tree.currentId, { severity: 'mistake', bestMove: 'g1f3' })
+    tree = rejectCurrentMove(tree)
+    game.undo()
+    tree = playWithEval(tree, game, 'Qh5')
+    tree = annotateNode(tree, tree.currentId, { severity: 'inaccuracy' })
+
+    const { moments, counts } = reviewGame(tree)
+
+    expect(moments.map((m) => [m.ply, m.san, m.severity, m.retried])).toEqual([
+      [3, 'h3', 'mistake', true],
+      [3, 'Qh5', 'inaccuracy', false],
+    ])
+    expect(moments[0].bestMove).toBe('g1f3')
+    expect(counts.w).toMatchObject({ mistake: 1, inaccuracy: 1 })
+  })
+})
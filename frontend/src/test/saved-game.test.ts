@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { annotateNode, getGameAt } from '../lib/game-tree'
+import { createInitialInterventionState } from '../lib/intervention'
+import {
+  type SavedGame,
+  SAVED_GAME_VERSION,
+  clearSavedGame,
+  loadSavedGame,
+  parseSavedGame,
+  saveGame,
+} from '../lib/saved-game'
+import { STORAGE_PREFIX } from '../lib/storage'
+import { DEFAULT_TIME_CONTROL } from '../lib/time-control'
+import { playedTree } from './helpers'
+
+const SAVED: SavedGame = {
+  version: SAVED_GAME_VERSION,
+  mode: 'coach',
+  tree: annotateNode(playedTree('e4', 'e5', 'Qh5'), 3, { clock: 590 }),
+  timeControl: { initial: 600, increment: 5, delay: 2, delayKind: 'bronstein' },
+  clocks: { w: 542, b: 577 },
+  orientation: 'b',
+  playerColor: 'w',
+  aiElo: 1400,
+  adaptiveTarget: 0.5,
+  gameStarted: true,
+  intervention: {
+    ...createInitialInterventionState(),
+    isActive: true,
+    fenBeforeMove: 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
+    userMove: 'Qh5',
+    bestMove: 'g1f3',
+    severity: 'mistake',
+  },
+  pendingCheck: null,
+  date: '2024-03-09T12:00:00.000Z',
+  savedAt: '2024-03-09T12:05:00.000Z',
+}
+
+beforeEach(() => {
+  localStorage.clear()
+})
+
+describe('saved game', () => {
+  it('should save to localStorage and load it back', () => {
+    saveGame(SAVED)
+    expect(localStorage.getItem(`${STORAGE_PREFIX}saved-game`)).not.toBeNull()
+    expect(loadSavedGame()).toEqual(SAVED)
+  })
+
+  it('should restore the position and move history from the tree', () => {
+    saveGame(SAVED)
+    const game = getGameAt(loadSavedGame()!.tree)
+    expect(game.history()).toEqual(['e4', 'e5', 'Qh5'])
+    expect(game.turn()).toBe('b')
+  })
+
+  it('should clear the saved game', () => {
+    saveGame(SAVED)
+    clearSavedGame()
+    expect(loadSavedGame()).toBeNull()
+  })
+
+  it('should ignore missing, corrupt and outdated saves', () => {
+    expect(parseSavedGame(null)).toBeNull()
+    expect(parseSavedGame('not json')).toBeNull()
+    expect(parseSavedGame(JSON.stringify({ ...SAVED, version: 0 }))).toBeNull()
+    expect(parseSavedGame(JSON.stringify({ ...SAVED, mode: 'puzzle' }))).toBeNull()
+    expect(parseSavedGame(JSON.stringify({ ...SAVED, tree: { ...SAVED.tree, currentId: 99 } }))).toBeNull()
+  })
+
+  it('should read saves from before adaptive strength as fixed strength', () => {
+    const older: Partial<SavedGame> = { ...SAVED }
+    delete older.adaptiveTarget
+    expect(parseSavedGame(JSON.stringify(older))?.adaptiveTarget).toBeNull()
+  })
+
+  it('should read saves from before time controls as 10 minutes a side', () => {
+    const older: Partial<SavedGame> = { ...SAVED }
+    delete older.timeControl
+    expect(parseSavedGame(JSON.stringify(older))?.timeControl).toEqual(DEFAULT_TIME_CONTROL)
+  })
+
+  it('should keep a blunder check that was still pending', () => {
+    const pendingCheck = { fen: SAVED.intervention.fenBeforeMove!, winProbability: 0.55 }
+    expect(parseSavedGame(JSON.stringify({ ...SAVED, pendingCheck }))?.pendingCheck).toEqual(pendingCheck)
+  })
+})
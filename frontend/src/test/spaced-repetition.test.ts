@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import {
+  INITIAL_EASE,
+  MIN_EASE,
+  createSchedule,
+  isDue,
+  isReviewSchedule,
+  reviewSchedule,
+  type ReviewGrade,
+  type ReviewSchedule,
+} from '../lib/spaced-repetition'
+
+const NOW = new Date(2024, 2, 9, 12)
+
+const daysFrom = (date: Date, days: number) => new Date(date.getTime() + days * 24 * 60 * 60 * 1000)
+
+const review = (grades: ReviewGrade[]): ReviewSchedule =>
+  grades.reduce((schedule, grade) => reviewSchedule(schedule, grade, NOW), createSchedule(NOW))
+
+describe('createSchedule', () => {
+  it('should start new cards due immediately', () => {
+    const schedule = createSchedule(NOW)
+    expect(schedule).toMatchObject({ ease: INITIAL_EASE, interval: 0, repetitions: 0, lastReviewed: null })
+    expect(isDue(schedule, NOW)).toBe(true)
+  })
+})
+
+describe('reviewSchedule', () => {
+  it('should space passing reviews 1, 6, then interval × ease days apart', () => {
+    expect(review([4]).interval).toBe(1)
+    expect(review([4, 4]).interval).toBe(6)
+    expect(review([4, 4, 4]).interval).toBe(15)
+    expect(review([4, 4, 4]).repetitions).toBe(3)
+  })
+
+  it('should set the due date from the interval', () => {
+    const schedule = review([5, 5])
+    expect(schedule.due).toBe(daysFrom(NOW, 6).toISOString())
+    expect(schedule.lastReviewed).toBe(NOW.toISOString())
+  })
+
+  it('should restart the card after a failed review', () => {
+    const schedule = review([5, 5, 5, 1])
+    expect(schedule.repetitions).toBe(0)
+    expect(schedule.interval).toBe(1)
+  })
+
+  it('should raise the ease for perfect answers and lower it for poor ones', () => {
+    expect(review([5]).ease).toBeCloseTo(INITIAL_EASE + 0.1)
+    expect(review([4]).ease).toBeCloseTo(INITIAL_EASE)
+    expect(review([0]).ease).toBeCloseTo(INITIAL_EASE - 0.8)
+    expect(review([0, 0, 0]).ease).toBe(MIN_EASE)
+  })
+})
+
+describe('isDue', () => {
+  it('should count anything due before the end of today', () => {
+    const schedule = review([4])
+    expect(isDue(schedule, NOW)).toBe(false)
+    expect(isDue(schedule, daysFrom(NOW, 1))).toBe(true)
+    expect(isDue({ ...schedule, due: new Date(2024, 2, 9, 23, 30).toISOString() }, NOW)).toBe(true)
+  })
+})
+
+describe('isReviewSchedule', () => {
+  it('should validate stored schedules', () => {
+    expect(isReviewSchedule(createSchedule(NOW))).toBe(true)
+    expect(isReviewSchedule({ ...createSchedule(NOW), due: 'soon' })).toBe(false)
+    expect(isReviewSchedule(null)).toBe(false)
+  })
+})
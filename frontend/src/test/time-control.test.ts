@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import {
+  type TimeControl,
+  DEFAULT_TIME_CONTROL,
+  TIME_CONTROL_PRESETS,
+  UNTIMED,
+  formatTimeControl,
+  getClockAfterMove,
+  getThinkTime,
+  getTimeCharged,
+  getTimeControlCategory,
+  isSameTimeControl,
+  parseTimeControl,
+  toPgnTimeControl,
+} from '../lib/time-control'
+
+const control = (initial: number, increment = 0, delay = 0, delayKind: TimeControl['delayKind'] = 'simple'): TimeControl => ({
+  initial,
+  increment,
+  delay,
+  delayKind,
+})
+
+describe('time control categories', () => {
+  it('should sort presets into bullet, blitz, rapid and classical', () => {
+    expect(getTimeControlCategory(control(60))).toBe('bullet')
+    expect(getTimeControlCategory(control(120, 1))).toBe('bullet')
+    expect(getTimeControlCategory(control(180, 2))).toBe('blitz')
+    expect(getTimeControlCategory(control(600))).toBe('rapid')
+    expect(getTimeControlCategory(control(900, 10))).toBe('rapid')
+    expect(getTimeControlCategory(control(1800))).toBe('classical')
+    expect(getTimeControlCategory(UNTIMED)).toBe('untimed')
+  })
+
+  it('should count the delay towards the estimated length', () => {
+    expect(getTimeControlCategory(control(120, 0, 2, 'bronstein'))).toBe('blitz')
+  })
+
+  it('should offer every category and start on the old 10 minute game', () => {
+    const categories = new Set(TIME_CONTROL_PRESETS.map(getTimeControlCategory))
+    expect([...categories].sort()).toEqual(['blitz', 'bullet', 'classical', 'rapid', 'untimed'])
+    expect(TIME_CONTROL_PRESETS.some((preset) => isSameTimeControl(preset, DEFAULT_TIME_CONTROL))).toBe(true)
+  })
+})
+
+describe('time control labels', () => {
+  it('should format increments, delays and untimed games', () => {
+    expect(formatTimeControl(control(600, 5))).toBe('10+5')
+    expect(formatTimeControl(control(90))).toBe('1.5+0')
+    expect(formatTimeControl(control(300, 0, 3))).toBe('5 d3')
+    expect(formatTimeControl(control(300, 2, 3, 'bronstein'))).toBe('5+2 b3')
+    expect(formatTimeControl(UNTIMED)).toBe('Untimed')
+  })
+
+  it('should give the PGN TimeControl value', () => {
+    expect(toPgnTimeControl(control(600))).toBe('600')
+    expect(toPgnTimeControl(control(180, 2))).toBe('180+2')
+    expect(toPgnTimeControl(control(300, 0, 3))).toBe('300')
+    expect(toPgnTimeControl(UNTIMED)).toBe('-')
+  })
+
+  it('should ignore the delay type when there is no delay', () => {
+    expect(isSameTimeControl(control(600), control(600, 0, 0, 'bronstein'))).toBe(true)
+    expect(isSameTimeControl(control(600, 0, 2), control(600, 0, 2, 'bronstein'))).toBe(false)
+  })
+})
+
+describe('clock rules', () => {
+  it('should add the Fischer increment after each move', () => {
+    expect(getClockAfterMove(control(180, 2), 170, 10)).toBe(172)
+  })
+
+  it('should give back time used up to a Bronstein delay', () => {
+    const bronstein = control(300, 0, 3, 'bronstein')
+    expect(getClockAfterMove(bronstein, 298, 2)).toBe(300)
+    expect(getClockAfterMove(bronstein, 290, 10)).toBe(293)
+    expect(getTimeCharged(bronstein, 2.5)).toBe(2.5)
+  })
+
+  it('should hold the clock for a simple delay', () => {
+    const simple = control(300, 0, 3)
+    expect([2, 3, 4.5].map((seconds) => getTimeCharged(simple, seconds))).toEqual([0, 0, 1.5])
+    expect(getClockAfterMove(simple, 290, 10)).toBe(290)
+  })
+
+  it('should never run the clock in an untimed game', () => {
+    expect(getTimeCharged(UNTIMED, 100)).toBe(0)
+    expect(getClockAfterMove(UNTIMED, 0, 10)).toBe(0)
+  })
+})
+
+describe('computer think time', () => {
+  it('should keep the old ranges by phase in a 10 minute game', () => {
+    expect(getThinkTime(DEFAULT_TIME_CONTROL, 5, 600, () => 0)).toBe(2)
+    expect(getThinkTime(DEFAULT_TIME_CONTROL, 5, 600, () => 1)).toBe(8)
+    expect(getThinkTime(DEFAULT_TIME_CONTROL, 20, 600, () => 1)).toBe(20)
+    expect(getThinkTime(DEFAULT_TIME_CONTROL, 40, 600, () => 1)).toBe(12)
+  })
+
+  it('should think faster in shorter games and longer in classical ones', () => {
+    expect(getThinkTime(control(60), 20, 60, () => 1)).toBe(2)
+    expect(getThinkTime(control(1800, 20), 20, 1800, () => 1)).toBe(60)
+  })
+
+  it('should not spend more than a share of the remaining time', () => {
+    expect(getThinkTime(DEFAULT_TIME_CONTROL, 20, 30, () => 1)).toBe(2)
+    expect(getThinkTime(control(180, 2), 20, 30, () => 1)).toBe(4)
+    expect(getThinkTime(DEFAULT_TIME_CONTROL, 20, 5, () => 1)).toBe(1)
+  })
+
+  it('should think at the 10 minute pace when untimed', () => {
+    expect(getThinkTime(UNTIMED, 20, 0, () => 1)).toBe(20)
+  })
+})
+
+describe('parseTimeControl', () => {
+  it('should read stored controls and reject anything else', () => {
+    expect(parseTimeControl(JSON.parse(JSON.stringify(control(300, 0, 3, 'bronstein'))))).toEqual(
+      control(300, 0, 3, 'bronstein')
+    )
+    expect(parseTimeControl(UNTIMED)).toEqual(UNTIMED)
+    expect(parseTimeControl('600')).toBeNull()
+    expect(parseTimeControl({ ...control(600), initial: 0 })).toBeNull()
+    expect(parseTimeControl({ ...control(600), delayKind: 'hourglass' })).toBeNull()
+  })
+})
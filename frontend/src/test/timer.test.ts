@@ -1,4 +1,18 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  CLOCK_TICK_MS,
+  chargeClock,
+  createClock,
+  formatClock,
+  getClockTimes,
+  getFlaggedSide,
+  getRemaining,
+  pressClock,
+  startClock,
+  stopClock,
+  takeBackMove,
+} from '../lib/chess-clock'
+import { DEFAULT_TIME_CONTROL, UNTIMED } from '../lib/time-control'
 
 describe('Timer Logic', () => {
   beforeEach(() => {
@@ -269,3 +283,137 @@ describe('Timer Logic', () => {
     })
   })
 })
+
+describe('Chess Clock', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const running = (control = DEFAULT_TIME_CONTROL) => startClock(createClock(control), performance.now())
+
+  it('should start both sides at the control\'s time, stopped', () => {
+    const clock = createClock(DEFAULT_TIME_CONTROL)
+    vi.advanceTimersByTime(5000)
+    expect(getClockTimes(clock, performance.now())).toEqual({ w: 600_000, b: 600_000 })
+  })
+
+  it('should charge exactly the time each move took, fractions included', () => {
+    let clock = running()
+    vi.advanceTimersByTime(2350)
+    clock = pressClock(clock, performance.now())
+    vi.advanceTimersByTime(1275)
+    clock = pressClock(clock, performance.now())
+    expect(clock.remaining).toEqual({ w: 597_650, b: 598_725 })
+    expect(clock.turn).toBe('w')
+  })
+
+  it('should not drift however late the redraws are', () => {
+    const clock = running()
+    const drawn: number[] = []
+    const interval = setInterval(() => drawn.push(getRemaining(clock, 'w', performance.now())), CLOCK_TICK_MS)
+
+    vi.advanceTimersByTime(10_050)
+    expect(drawn).toHaveLength(100)
+    expect(drawn[drawn.length - 1]).toBe(590_000)
+    expect(getRemaining(clock, 'w', performance.now())).toBe(589_950)
+
+    clearInterval(interval)
+  })
+
+  it('should pause during coach intervention and keep the time already spent', () => {
+    let clock = running()
+    vi.advanceTimersByTime(3000)
+    clock = stopClock(clock, performance.now())
+    vi.advanceTimersByTime(5000)
+    expect(getRemaining(clock, 'w', performance.now())).toBe(597_000)
+
+    clock = startClock(clock, performance.now())
+    vi.advanceTimersByTime(2000)
+    clock = pressClock(clock, performance.now())
+    expect(clock.remaining.w).toBe(595_000)
+  })
+
+  it('should only run the clock of the side to move', () => {
+    let clock = running()
+    clock = pressClock(clock, performance.now())
+    vi.advanceTimersByTime(4000)
+    expect(getClockTimes(clock, performance.now())).toEqual({ w: 600_000, b: 596_000 })
+  })
+
+  it('should charge the computer its fast-forwarded thinking, not the wait for its requests', () => {
+    let clock = pressClock(running(), performance.now())
+    clock = stopClock(clock, performance.now())
+    vi.advanceTimersByTime(1500) // analysis request in flight
+    for (let i = 0; i < 3; i++) {
+      vi.advanceTimersByTime(333)
+      clock = chargeClock(clock, 1000)
+    }
+    expect(getRemaining(clock, 'b', performance.now())).toBe(597_000)
+
+    clock = pressClock(clock, performance.now())
+    expect(clock.remaining.b).toBe(597_000)
+  })
+
+  it('should credit the increment and take it back with a retried move', () => {
+    let clock = running({ initial: 180, increment: 2, delay: 0, delayKind: 'simple' })
+    vi.advanceTimersByTime(5500)
+    clock = pressClock(clock, performance.now())
+    expect(clock.remaining.w).toBe(176_500)
+
+    vi.advanceTimersByTime(1000)
+    clock = takeBackMove(clock, performance.now())
+    expect(clock.turn).toBe('w')
+    expect(getClockTimes(clock, performance.now())).toEqual({ w: 174_500, b: 180_000 })
+  })
+
+  it('should wait out a simple delay and refund a Bronstein one', () => {
+    let simple = running({ initial: 300, increment: 0, delay: 3, delayKind: 'simple' })
+    vi.advanceTimersByTime(2500)
+    expect(getRemaining(simple, 'w', performance.now())).toBe(300_000)
+    vi.advanceTimersByTime(1700)
+    simple = pressClock(simple, performance.now())
+    expect(simple.remaining.w).toBe(298_800)
+
+    let bronstein = running({ initial: 300, increment: 0, delay: 3, delayKind: 'bronstein' })
+    vi.advanceTimersByTime(2500)
+    expect(getRemaining(bronstein, 'w', performance.now())).toBe(297_500)
+    bronstein = pressClock(bronstein, performance.now())
+    expect(bronstein.remaining.w).toBe(300_000)
+  })
+
+  it('should flag the side to move when their time runs out', () => {
+    const clock = startClock(createClock(DEFAULT_TIME_CONTROL, 'b', { w: 30_000, b: 1500 }), performance.now())
+    vi.advanceTimersByTime(1400)
+    expect(getFlaggedSide(clock, performance.now())).toBeNull()
+    vi.advanceTimersByTime(100)
+    expect(getFlaggedSide(clock, performance.now())).toBe('b')
+    vi.advanceTimersByTime(1000)
+    expect(getRemaining(clock, 'b', performance.now())).toBe(0)
+  })
+
+  it('should never run or flag an untimed game', () => {
+    const clock = running(UNTIMED)
+    vi.advanceTimersByTime(60_000)
+    expect(clock.runningSince).toBeNull()
+    expect(getFlaggedSide(clock, performance.now())).toBeNull()
+  })
+
+  it('should show tenths of a second under ten seconds', () => {
+    expect(formatClock(600_000)).toBe('10:00')
+    expect(formatClock(599_999)).toBe('9:59')
+    expect(formatClock(10_000)).toBe('0:10')
+    expect(formatClock(9_999)).toBe('0:09.9')
+    expect(formatClock(3_250)).toBe('0:03.2')
+    expect(formatClock(-50)).toBe('0:00.0')
+  })
+
+  it('should format the fractional clocks recorded with moves', () => {
+    // Move clocks are kept in seconds, fractions included
+    expect(formatClock(583.417 * 1000)).toBe('9:43')
+    expect(formatClock(7.25 * 1000)).toBe('0:07.2')
+  })
+})